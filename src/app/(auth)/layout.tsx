@@ -0,0 +1,38 @@
+'use client';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthProvider';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+// Sign-in, sign-up and account recovery pages: no navigation, just the form.
+export default function AuthLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { isAuthEnabled } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center p-4">
+      <div className="mb-6 text-center">
+        <div className="font-bold text-2xl text-primary">LFBBC Finances</div>
+        <p className="text-sm text-muted-foreground">Registros Financieros</p>
+      </div>
+      <div className="w-full max-w-sm">
+        {isAuthEnabled ? children : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Modo local</CardTitle>
+              <CardDescription>
+                Firebase no está configurado, así que no hace falta iniciar sesión: los datos se guardan en este navegador.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild className="w-full"><Link href="/">Ir al inicio</Link></Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
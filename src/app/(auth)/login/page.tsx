@@ -0,0 +1,109 @@
+'use client';
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { Clock, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { afterSignInPath } from '@/lib/auth';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { GoogleSignInButton } from '@/components/GoogleSignInButton';
+
+const signInSchema = z.object({
+  email: z.string().trim().email('Escribe un correo electrónico válido.'),
+  password: z.string().min(1, 'Escribe tu contraseña.'),
+});
+
+type SignInFormData = z.infer<typeof signInSchema>;
+
+const LoginForm = () => {
+  const { user, loading, sessionExpired, signIn } = useAuth();
+  const router = useRouter();
+  const next = useSearchParams().get('next');
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<SignInFormData>({
+    resolver: zodResolver(signInSchema),
+    defaultValues: { email: '', password: '' },
+  });
+
+  // Signing in by any means ends up here once the session is known.
+  useEffect(() => {
+    if (!loading && user) router.replace(afterSignInPath(user, next));
+  }, [user, loading, next, router]);
+
+  const onSubmit = async ({ email, password }: SignInFormData) => {
+    setIsSubmitting(true);
+    try {
+      await signIn(email, password);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: (error as Error).message });
+      setIsSubmitting(false);
+    }
+  };
+
+  const email = form.watch('email');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Iniciar sesión</CardTitle>
+        <CardDescription>Entra con tu correo o con tu cuenta de Google.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sessionExpired && (
+          <Alert>
+            <Clock className="h-4 w-4" />
+            <AlertDescription>Tu sesión expiró. Vuelve a iniciar sesión para continuar.</AlertDescription>
+          </Alert>
+        )}
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField control={form.control} name="email" render={({ field }) => (
+              <FormItem><FormLabel>Correo electrónico</FormLabel>
+                <FormControl><Input type="email" autoComplete="email" {...field} /></FormControl>
+              <FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="password" render={({ field }) => (
+              <FormItem>
+                <div className="flex items-center justify-between">
+                  <FormLabel>Contraseña</FormLabel>
+                  <Link href={`/reset-password${email ? `?email=${encodeURIComponent(email)}` : ''}`} className="text-xs text-muted-foreground hover:underline">
+                    ¿Olvidaste tu contraseña?
+                  </Link>
+                </div>
+                <FormControl><Input type="password" autoComplete="current-password" {...field} /></FormControl>
+              <FormMessage /></FormItem>)} />
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Entrar
+            </Button>
+          </form>
+        </Form>
+        <div className="flex items-center gap-2">
+          <Separator className="flex-1" /><span className="text-xs text-muted-foreground">o</span><Separator className="flex-1" />
+        </div>
+        <GoogleSignInButton disabled={isSubmitting} />
+      </CardContent>
+      <CardFooter className="justify-center text-sm text-muted-foreground">
+        ¿No tienes cuenta?&nbsp;<Link href={next ? `/register?next=${encodeURIComponent(next)}` : '/register'} className="text-primary hover:underline">Crear una cuenta</Link>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default function LoginPage() {
+  // useSearchParams needs a Suspense boundary to build the page statically.
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { afterSignInPath, MIN_PASSWORD_LENGTH } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { GoogleSignInButton } from '@/components/GoogleSignInButton';
+
+const signUpSchema = z.object({
+  displayName: z.string().trim().max(80, 'El nombre no puede exceder los 80 caracteres.'),
+  email: z.string().trim().email('Escribe un correo electrónico válido.'),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`),
+  confirmation: z.string(),
+}).refine(data => data.password === data.confirmation, {
+  message: 'Las contraseñas no coinciden.',
+  path: ['confirmation'],
+});
+
+type SignUpFormData = z.infer<typeof signUpSchema>;
+
+const RegisterForm = () => {
+  const { user, loading, signUp } = useAuth();
+  const router = useRouter();
+  const next = useSearchParams().get('next');
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<SignUpFormData>({
+    resolver: zodResolver(signUpSchema),
+    defaultValues: { displayName: '', email: '', password: '', confirmation: '' },
+  });
+
+  // Wait for the verification email to go out before moving on.
+  useEffect(() => {
+    if (!loading && user && !isSubmitting) router.replace(afterSignInPath(user, next));
+  }, [user, loading, isSubmitting, next, router]);
+
+  const onSubmit = async ({ displayName, email, password }: SignUpFormData) => {
+    setIsSubmitting(true);
+    try {
+      await signUp(email, password, displayName);
+      toast({ title: 'Cuenta creada', description: `Te enviamos un correo a ${email} para verificar la dirección.` });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: (error as Error).message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Crear una cuenta</CardTitle>
+        <CardDescription>Te enviaremos un correo para confirmar tu dirección.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField control={form.control} name="displayName" render={({ field }) => (
+              <FormItem><FormLabel>Nombre (Opcional)</FormLabel>
+                <FormControl><Input autoComplete="name" {...field} /></FormControl>
+              <FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="email" render={({ field }) => (
+              <FormItem><FormLabel>Correo electrónico</FormLabel>
+                <FormControl><Input type="email" autoComplete="email" {...field} /></FormControl>
+              <FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="password" render={({ field }) => (
+              <FormItem><FormLabel>Contraseña</FormLabel>
+                <FormControl><Input type="password" autoComplete="new-password" {...field} /></FormControl>
+              <FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="confirmation" render={({ field }) => (
+              <FormItem><FormLabel>Repite la contraseña</FormLabel>
+                <FormControl><Input type="password" autoComplete="new-password" {...field} /></FormControl>
+              <FormMessage /></FormItem>)} />
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Crear cuenta
+            </Button>
+          </form>
+        </Form>
+        <div className="flex items-center gap-2">
+          <Separator className="flex-1" /><span className="text-xs text-muted-foreground">o</span><Separator className="flex-1" />
+        </div>
+        <GoogleSignInButton disabled={isSubmitting} />
+      </CardContent>
+      <CardFooter className="justify-center text-sm text-muted-foreground">
+        ¿Ya tienes cuenta?&nbsp;<Link href={next ? `/login?next=${encodeURIComponent(next)}` : '/login'} className="text-primary hover:underline">Inicia sesión</Link>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default function RegisterPage() {
+  return (
+    <Suspense>
+      <RegisterForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+import { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { Loader2, MailCheck } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+
+const resetSchema = z.object({
+  email: z.string().trim().email('Escribe un correo electrónico válido.'),
+});
+
+type ResetFormData = z.infer<typeof resetSchema>;
+
+const ResetPasswordForm = () => {
+  const { sendPasswordReset } = useAuth();
+  const { toast } = useToast();
+  const searchParams = useSearchParams();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<ResetFormData>({
+    resolver: zodResolver(resetSchema),
+    defaultValues: { email: searchParams.get('email') ?? '' },
+  });
+
+  const onSubmit = async ({ email }: ResetFormData) => {
+    setIsSubmitting(true);
+    try {
+      await sendPasswordReset(email);
+      setSentTo(email);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: (error as Error).message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Restablecer contraseña</CardTitle>
+        <CardDescription>Te enviaremos un enlace para elegir una contraseña nueva.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sentTo ? (
+          <div className="flex items-start gap-3 text-sm">
+            <MailCheck className="h-5 w-5 text-primary shrink-0" />
+            <p>
+              Si existe una cuenta con <span className="font-medium">{sentTo}</span>, recibirás un correo con el enlace en unos minutos.
+              Revisa también la carpeta de spam.
+            </p>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField control={form.control} name="email" render={({ field }) => (
+                <FormItem><FormLabel>Correo electrónico</FormLabel>
+                  <FormControl><Input type="email" autoComplete="email" {...field} /></FormControl>
+                <FormMessage /></FormItem>)} />
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Enviar enlace
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+      <CardFooter className="justify-center text-sm">
+        <Link href="/login" className="text-primary hover:underline">Volver a iniciar sesión</Link>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default function ResetPasswordPage() {
+  // useSearchParams needs a Suspense boundary to build the page statically.
+  return (
+    <Suspense>
+      <ResetPasswordForm />
+    </Suspense>
+  );
+}
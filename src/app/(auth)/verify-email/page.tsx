@@ -0,0 +1,91 @@
+'use client';
+import { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Loader2, MailWarning } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { safeRedirectPath } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+
+const VerifyEmail = () => {
+  const { user, loading, sendVerificationEmail, refreshEmailVerification, logout } = useAuth();
+  const router = useRouter();
+  const next = safeRedirectPath(useSearchParams().get('next'));
+  const { toast } = useToast();
+  const [isChecking, setIsChecking] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    if (loading) return;
+    if (!user) router.replace('/login');
+    else if (user.emailVerified) router.replace(next);
+  }, [user, loading, next, router]);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      if (await refreshEmailVerification()) {
+        toast({ title: 'Éxito', description: 'Correo verificado.' });
+        router.replace(next);
+      } else {
+        toast({ variant: 'destructive', title: 'Sin verificar', description: 'Aún no has abierto el enlace del correo.' });
+      }
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: (error as Error).message });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      await sendVerificationEmail();
+      toast({ title: 'Éxito', description: 'Te enviamos otro correo de verificación.' });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: (error as Error).message });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    router.replace('/login');
+  };
+
+  if (loading || !user) {
+    return <div className="flex justify-center"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><MailWarning className="h-5 w-5" />Verifica tu correo</CardTitle>
+        <CardDescription>
+          Enviamos un enlace a <span className="font-medium text-foreground">{user.email}</span>. Ábrelo para activar tu cuenta y vuelve aquí.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Button className="w-full" onClick={handleCheck} disabled={isChecking}>
+          {isChecking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Ya lo verifiqué
+        </Button>
+        <Button variant="outline" className="w-full" onClick={handleResend} disabled={isSending}>
+          {isSending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Reenviar correo
+        </Button>
+      </CardContent>
+      <CardFooter className="justify-center">
+        <Button variant="link" onClick={handleLogout}>Usar otra cuenta</Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense>
+      <VerifyEmail />
+    </Suspense>
+  );
+}
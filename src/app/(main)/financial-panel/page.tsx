@@ -12,55 +12,50 @@ import {
 } from '@/components/ui/select';
 import { DatePicker } from '@/components/DatePicker';
 import { useAppContext } from '@/contexts/AppProvider';
-import { subMonths, format, parse, isValid, startOfYear, endOfYear, differenceInMonths, startOfDay } from 'date-fns';
+import { format, parse, isValid, startOfYear, endOfYear } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { parseRecordDate, toRecordDate } from '@/lib/dates';
+import { fromCents } from '@/lib/money';
+import { useFormatMoney } from '@/contexts/PrivacyProvider';
 import { FinancialChart } from '@/components/FinancialChart';
-import type { FinancialRecord } from '@/types';
+import type { DateRange } from '@/lib/repositories';
+import { useCurrencyConverter } from '@/hooks/use-exchange-rates';
+import { useRecordWindow, useYearlyTotals } from '@/hooks/use-financial-records';
 import { Loader2 } from 'lucide-react';
 
 type FilterMode = 'predefined' | 'custom';
 type ViewType = 'yearly' | 'monthly' | 'daily';
 type ChartType = 'line' | 'bar' | 'pie';
 
-const parseDate = (dateStr: string) => parse(dateStr, 'dd/MM/yyyy', new Date());
-
 export default function FinancialPanelPage() {
-  const { financialRecords, loading } = useAppContext();
+  const { loading, baseCurrency } = useAppContext();
+  const formatAmount = useFormatMoney();
   const [filterMode, setFilterMode] = useState<FilterMode>('predefined');
   const [viewType, setViewType] = useState<ViewType>('yearly');
   const [customViewType, setCustomViewType] = useState<ViewType>('daily');
   const [chartType, setChartType] = useState<ChartType>('bar');
   
+  // The oldest and newest records bound the year list and the default custom range.
+  const { records: [oldestRecord] } = useRecordWindow(undefined, { limit: 1, order: 'asc' });
+  const { records: [newestRecord] } = useRecordWindow(undefined, { limit: 1, order: 'desc' });
+
   const oldestRecordDate = useMemo(() => {
-    if (financialRecords.length === 0) return new Date();
-    const dates = financialRecords
-      .map(r => r.fecha ? parseDate(r.fecha) : null)
-      .filter(d => d && isValid(d)) as Date[];
-    if (dates.length === 0) return new Date();
-    return new Date(Math.min.apply(null, dates.map(d => d.getTime())));
-  }, [financialRecords]);
+    const date = oldestRecord ? parseRecordDate(oldestRecord.fecha) : null;
+    return date && isValid(date) ? date : new Date();
+  }, [oldestRecord]);
 
   const newestRecordDate = useMemo(() => {
-    if (financialRecords.length === 0) return new Date();
-    const dates = financialRecords
-      .map(r => r.fecha ? parseDate(r.fecha) : null)
-      .filter(d => d && isValid(d)) as Date[];
-    if (dates.length === 0) return new Date();
-    return new Date(Math.max.apply(null, dates.map(d => d.getTime())));
-  }, [financialRecords]);
+    const date = newestRecord ? parseRecordDate(newestRecord.fecha) : null;
+    return date && isValid(date) ? date : new Date();
+  }, [newestRecord]);
 
   const [customStartDate, setCustomStartDate] = useState<Date | undefined>(oldestRecordDate);
   const [customEndDate, setCustomEndDate] = useState<Date | undefined>(newestRecordDate);
   
   const availableYears = useMemo(() => {
-    if (financialRecords.length === 0) return [new Date().getFullYear()];
-    const years = new Set(financialRecords.map(r => {
-        const date = r.fecha ? parseDate(r.fecha) : null;
-        return date && isValid(date) ? date.getFullYear() : null;
-    }).filter(y => y !== null) as Set<number>);
-    const sortedYears = Array.from(years).sort((a, b) => b - a);
-    return sortedYears.length > 0 ? sortedYears : [new Date().getFullYear()];
-  }, [financialRecords]);
+    const newestYear = newestRecordDate.getFullYear();
+    return Array.from({ length: newestYear - oldestRecordDate.getFullYear() + 1 }, (_, i) => newestYear - i);
+  }, [oldestRecordDate, newestRecordDate]);
 
   const [selectedYear, setSelectedYear] = useState<string>(String(availableYears[0]));
   const [selectedMonth, setSelectedMonth] = useState<string>(String(new Date().getMonth()));
@@ -73,102 +68,62 @@ export default function FinancialPanelPage() {
     setCustomStartDate(oldestRecordDate);
     setCustomEndDate(newestRecordDate);
   }, [oldestRecordDate, newestRecordDate]);
-  
-  const filteredRecords = useMemo(() => {
-    let recordsToFilter = financialRecords.filter(r => {
-        if (!r.fecha) return false;
-        const date = parseDate(r.fecha);
-        return isValid(date);
-    });
 
+  // Several years are summarized by the backend; any shorter period is loaded and grouped here.
+  // A single year of data is shown month by month instead.
+  const singleYear = availableYears.length === 1;
+  const usesYearlyTotals = filterMode === 'predefined' && viewType === 'yearly' && !singleYear;
+  const activeViewType: ViewType = filterMode === 'custom'
+    ? customViewType
+    : viewType === 'yearly' && singleYear ? 'monthly' : viewType;
+
+  const windowRange = useMemo<DateRange>(() => {
     if (filterMode === 'predefined') {
       const year = parseInt(selectedYear, 10);
-      const month = parseInt(selectedMonth, 10);
-      
-      let startDate: Date;
-      let endDate: Date;
-
       switch (viewType) {
         case 'yearly':
-          return recordsToFilter;
-        
+          return { from: toRecordDate(startOfYear(newestRecordDate)), to: toRecordDate(endOfYear(newestRecordDate)) };
         case 'monthly':
-            startDate = new Date(year, 0, 1);
-            endDate = new Date(year, 11, 31, 23, 59, 59);
-            break;
-            
-        case 'daily':
-            startDate = new Date(year, month, 1);
-            endDate = new Date(year, month + 1, 0, 23, 59, 59);
-            break;
-
-        default:
-            return [];
+          return { from: toRecordDate(new Date(year, 0, 1)), to: toRecordDate(new Date(year, 11, 31)) };
+        default: {
+          const month = parseInt(selectedMonth, 10);
+          return { from: toRecordDate(new Date(year, month, 1)), to: toRecordDate(new Date(year, month + 1, 0)) };
+        }
       }
-      
-      return recordsToFilter.filter(r => {
-        const recordDate = parseDate(r.fecha);
-        return recordDate >= startDate && recordDate <= endDate;
-      });
-
-    } else { // custom range
-      if (!customStartDate || !customEndDate) return [];
-      const startDate = customStartDate;
-      const endDate = customEndDate;
-      // Ensure start date is before end date
-      const rangeStart = startOfDay(startDate < endDate ? startDate : endDate);
-      const rangeEnd = new Date(endDate.setHours(23, 59, 59, 999));
-      
-      return recordsToFilter.filter(r => {
-        const recordDate = parseDate(r.fecha);
-        return recordDate >= rangeStart && recordDate <= rangeEnd;
-      });
     }
-  }, [financialRecords, filterMode, viewType, selectedYear, selectedMonth, customStartDate, customEndDate]);
+    if (!customStartDate || !customEndDate) return {};
+    // Ensure start date is before end date
+    const [rangeStart, rangeEnd] = customStartDate < customEndDate ? [customStartDate, customEndDate] : [customEndDate, customStartDate];
+    return { from: toRecordDate(rangeStart), to: toRecordDate(rangeEnd) };
+  }, [filterMode, viewType, selectedYear, selectedMonth, customStartDate, customEndDate, newestRecordDate]);
 
-  const summary = useMemo(() => {
-    return filteredRecords.reduce(
-      (acc, record) => {
-        const monto = typeof record.monto === 'number' ? record.monto : 0;
-        if (record.movimiento === 'INGRESOS') acc.ingresos += monto;
-        if (record.movimiento === 'GASTOS') acc.gastos += Math.abs(monto);
-        if (record.movimiento === 'INVERSION') acc.inversion += Math.abs(monto);
-        return acc;
-      },
-      { ingresos: 0, gastos: 0, inversion: 0, balance: 0 }
-    );
-  }, [filteredRecords]);
+  const hasCustomRange = filterMode === 'predefined' || (!!customStartDate && !!customEndDate);
+  const { records: windowRecords, loading: windowLoading } = useRecordWindow(windowRange, { enabled: !usesYearlyTotals && hasCustomRange });
+  const { toBaseCents } = useCurrencyConverter(windowRange);
+  const yearlyTotals = useYearlyTotals(availableYears, usesYearlyTotals);
 
-  const balance = useMemo(() => {
-      return filteredRecords.reduce((acc, record) => {
-          const monto = typeof record.monto === 'number' ? record.monto : 0;
-          return acc + monto;
-      }, 0);
-  }, [filteredRecords]);
+  // Amounts converted to the base currency; records without an exchange rate are left out of every total.
+  const { filteredRecords, unconvertedCount: windowUnconvertedCount } = useMemo(() => {
+    const converted = windowRecords.map(r => ({ ...r, monto: toBaseCents(r) }));
+    const withRate = converted.filter((r): r is typeof r & { monto: number } => r.monto !== null);
+    return { filteredRecords: withRate, unconvertedCount: converted.length - withRate.length };
+  }, [windowRecords, toBaseCents]);
 
-  const chartData = useMemo(() => {
+  // Totals per chart bucket (year, month or day) in absolute cents.
+  const buckets = useMemo(() => {
     const dataMap = new Map<string, { ingresos: number; gastos: number; inversion: number }>();
-    
-    let activeViewType: ViewType;
-    if (filterMode === 'predefined') {
-        activeViewType = viewType;
-        if(viewType === 'yearly') {
-            const allRecordsYears = new Set(financialRecords.map(r => {
-                const date = r.fecha ? parseDate(r.fecha) : null;
-                return date && isValid(date) ? date.getFullYear() : null;
-            }).filter(Boolean));
-            if (allRecordsYears.size === 1) {
-                 activeViewType = 'monthly';
-            }
+    if (usesYearlyTotals) {
+      yearlyTotals.totals.forEach((totals, year) => {
+        if (totals.INGRESOS || totals.GASTOS || totals.INVERSION) {
+          dataMap.set(String(year), { ingresos: totals.INGRESOS, gastos: totals.GASTOS, inversion: totals.INVERSION });
         }
-    } else {
-        activeViewType = customViewType;
+      });
+      return dataMap;
     }
 
-
     filteredRecords.forEach(record => {
-      const recordDate = parseDate(record.fecha);
-      if(!isValid(recordDate) || typeof record.monto !== 'number') return;
+      const recordDate = parseRecordDate(record.fecha);
+      if(!isValid(recordDate)) return;
 
       let key = '';
       switch(activeViewType) {
@@ -187,13 +142,32 @@ export default function FinancialPanelPage() {
       if (record.movimiento === 'GASTOS') entry.gastos += Math.abs(monto);
       if (record.movimiento === 'INVERSION') entry.inversion += Math.abs(monto);
     });
-    
-    const sortedEntries = Array.from(dataMap.entries()).sort(([keyA], [keyB]) => keyA.localeCompare(keyB));
+    return dataMap;
+  }, [usesYearlyTotals, yearlyTotals.totals, filteredRecords, activeViewType]);
+
+  const unconvertedCount = usesYearlyTotals ? yearlyTotals.unconvertedCount : windowUnconvertedCount;
+
+  const summary = useMemo(() => {
+    let ingresos = 0, gastos = 0, inversion = 0;
+    buckets.forEach(entry => {
+      ingresos += entry.ingresos;
+      gastos += entry.gastos;
+      inversion += entry.inversion;
+    });
+    return { ingresos, gastos, inversion };
+  }, [buckets]);
+
+  // Income is positive and the other movements are stored as negative amounts.
+  const balance = summary.ingresos - summary.gastos - summary.inversion;
+
+  const chartData = useMemo(() => {
+    const sortedEntries = Array.from(buckets.entries()).sort(([keyA], [keyB]) => keyA.localeCompare(keyB));
+    const chartViewType = usesYearlyTotals ? 'yearly' : activeViewType;
 
     return sortedEntries.map(([key, value]) => {
       let label = key;
       let keyFormat: string;
-      switch(activeViewType) {
+      switch(chartViewType) {
         case 'yearly': keyFormat = 'yyyy'; break;
         case 'monthly': keyFormat = 'yyyy-MM'; break;
         default: keyFormat = 'yyyy-MM-dd'; break;
@@ -201,23 +175,20 @@ export default function FinancialPanelPage() {
 
       const keyDate = parse(key, keyFormat, new Date());
       if(isValid(keyDate)) {
-         switch(activeViewType) {
+         switch(chartViewType) {
             case 'yearly': label = format(keyDate, 'yyyy'); break;
             case 'monthly': label = format(keyDate, 'MMM yyyy', { locale: es }); break;
             case 'daily': label = format(keyDate, 'd MMM yyyy', { locale: es }); break;
          }
       }
-      return { name: label, ...value };
+      // The chart works in pesos; totals were accumulated in cents to stay exact.
+      return { name: label, ingresos: fromCents(value.ingresos), gastos: fromCents(value.gastos), inversion: fromCents(value.inversion) };
     });
-  }, [filteredRecords, viewType, filterMode, customViewType, financialRecords]);
+  }, [buckets, usesYearlyTotals, activeViewType]);
 
 
-  const formatCurrency = (amount: number) => {
-    if (isNaN(amount)) {
-        return new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(0);
-    }
-    return new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(amount);
-  }
+  // Summary values are in cents of the base currency.
+  const formatCurrency = (amount: number) => formatAmount(isNaN(amount) ? 0 : amount, baseCurrency);
 
   return (
     <div className="space-y-6">
@@ -229,6 +200,11 @@ export default function FinancialPanelPage() {
         <SummaryCard title="Inversión del Período" value={formatCurrency(summary.inversion)} color="text-amber-500" />
         <SummaryCard title="Balance del Período" value={formatCurrency(balance)} color={balance >= 0 ? "text-green-500" : "text-red-500"} />
       </div>
+      {unconvertedCount > 0 && (
+        <p className="text-sm text-amber-600">
+          {unconvertedCount} registro(s) en otra moneda sin tipo de cambio no se incluyen en los totales. Agrégalo en Configuración.
+        </p>
+      )}
 
       <Card>
         <CardHeader>
@@ -297,12 +273,12 @@ export default function FinancialPanelPage() {
           </div>
 
           <div>
-            {loading ? (
+            {loading || windowLoading || yearlyTotals.loading ? (
                 <div className="flex justify-center items-center h-64">
                     <Loader2 className="h-8 w-8 animate-spin text-primary" />
                 </div>
             ) : chartData.length > 0 ? (
-                <FinancialChart chartType={chartType} data={chartData} />
+                <FinancialChart chartType={chartType} data={chartData} currency={baseCurrency} />
             ) : (
                 <div className="text-center text-muted-foreground p-8">No hay datos para el período y filtros seleccionados.</div>
             )}
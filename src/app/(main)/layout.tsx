@@ -1,5 +1,7 @@
 
 'use client';
+import { AppLockScreen } from '@/components/AppLockScreen';
+import { AuthGuard } from '@/components/AuthGuard';
 import { BottomNav } from '@/components/BottomNav';
 import { DesktopSidebar } from '@/components/DesktopSidebar';
 import { Header } from '@/components/Header';
@@ -11,18 +13,21 @@ export default function MainLayout({
 }) {
 
   return (
-    <div className="min-h-screen bg-background">
-      <Header />
-      <div className="flex">
-        <DesktopSidebar />
-        <main className="flex-1">
-          <div className="container mx-auto p-4 sm:p-6 lg:p-8">
-            {children}
-          </div>
-        </main>
+    <AuthGuard>
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="flex">
+          <DesktopSidebar />
+          <main className="flex-1">
+            <div className="container mx-auto p-4 sm:p-6 lg:p-8">
+              {children}
+            </div>
+          </main>
+        </div>
+        <div className="md:hidden h-[70px]" /> {/* Spacer for bottom nav */}
+        <BottomNav />
       </div>
-      <div className="md:hidden h-[70px]" /> {/* Spacer for bottom nav */}
-      <BottomNav />
-    </div>
+      <AppLockScreen />
+    </AuthGuard>
   );
 }
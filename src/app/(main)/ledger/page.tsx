@@ -0,0 +1,284 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAppContext } from '@/contexts/AppProvider';
+import { useAuth } from '@/contexts/AuthProvider';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Check, Loader2, LogOut, Mail, Plus, Save, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { subscribeToLedgerInvitations, subscribeToLedgerMembers, subscribeToReceivedInvitations } from '@/lib/data';
+import { assignableRoles, LEDGER_ROLES, ROLE_LABELS } from '@/lib/permissions';
+import type { LedgerInvitation, LedgerMember, LedgerRole } from '@/types';
+
+const byRole = (a: LedgerMember, b: LedgerMember) =>
+  LEDGER_ROLES.indexOf(a.role) - LEDGER_ROLES.indexOf(b.role) || (a.email ?? '').localeCompare(b.email ?? '');
+
+export default function LedgerPage() {
+  const {
+    loading, ledgers, activeLedger, role, can, createLedger, renameLedger, inviteMember, revokeInvitation,
+    acceptInvitation, declineInvitation, changeMemberRole, removeMember,
+  } = useAppContext();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [members, setMembers] = useState<LedgerMember[]>([]);
+  const [invitations, setInvitations] = useState<LedgerInvitation[]>([]);
+  const [receivedInvitations, setReceivedInvitations] = useState<LedgerInvitation[]>([]);
+  const [ledgerName, setLedgerName] = useState('');
+  const [newLedgerName, setNewLedgerName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<LedgerRole>('editor');
+
+  const ledgerId = activeLedger?.ledgerId;
+  const canManage = can('manageMembers');
+  const roles = assignableRoles(role);
+
+  useEffect(() => {
+    setLedgerName(activeLedger?.ledgerNombre ?? '');
+  }, [activeLedger?.ledgerNombre]);
+
+  useEffect(() => {
+    if (!ledgerId) return;
+    const onError = (err: Error) => console.error('Error al cargar los miembros del libro:', err);
+    const unsubscribers = [
+      subscribeToLedgerMembers(ledgerId, setMembers, onError),
+      // Only people who manage the team can see who was invited.
+      ...(canManage ? [subscribeToLedgerInvitations(ledgerId, setInvitations, onError)] : []),
+    ];
+    return () => {
+      unsubscribers.forEach(unsub => unsub());
+      setMembers([]);
+      setInvitations([]);
+    };
+  }, [ledgerId, canManage]);
+
+  useEffect(() => {
+    if (!user?.email) return;
+    return subscribeToReceivedInvitations(user.email, setReceivedInvitations, (err) => {
+      console.error('Error al cargar las invitaciones:', err);
+    });
+  }, [user?.email]);
+
+  const run = async (action: () => Promise<void>, success: string, fallback: string) => {
+    try {
+      await action();
+      toast({ title: 'Éxito', description: success });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : fallback;
+      toast({ variant: 'destructive', title: 'Error', description: message });
+      return false;
+    }
+  };
+
+  const handleRename = () => run(() => renameLedger(ledgerName, members), 'Libro renombrado.', 'No se pudo renombrar el libro.');
+
+  const handleCreate = async () => {
+    if (await run(() => createLedger(newLedgerName), `Libro "${newLedgerName.trim()}" creado.`, 'No se pudo crear el libro.')) {
+      setNewLedgerName('');
+    }
+  };
+
+  const handleInvite = async () => {
+    if (await run(() => inviteMember(inviteEmail, inviteRole), `Invitación enviada a ${inviteEmail.trim()}.`, 'No se pudo enviar la invitación.')) {
+      setInviteEmail('');
+    }
+  };
+
+  const pendingReceived = receivedInvitations.filter(invitation => !ledgers.some(member => member.ledgerId === invitation.ledgerId));
+  const self = members.find(member => member.memberId === user?.uid);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-[calc(100vh-10rem)]">
+        <Loader2 className="h-16 w-16 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl md:text-3xl font-bold tracking-tight">Libro y Miembros</h1>
+
+      {pendingReceived.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invitaciones Recibidas</CardTitle>
+            <CardDescription>Al aceptar podrás ver y, según tu rol, editar la información de ese libro.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2">
+              {pendingReceived.map(invitation => (
+                <li key={invitation.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{invitation.ledgerNombre}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {ROLE_LABELS[invitation.role]}{invitation.invitedByEmail ? ` · invitado por ${invitation.invitedByEmail}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button size="icon" variant="ghost" className="text-green-500 hover:text-green-600" aria-label="Aceptar"
+                      onClick={() => run(() => acceptInvitation(invitation), `Ahora formas parte de "${invitation.ledgerNombre}".`, 'No se pudo aceptar la invitación.')}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="text-red-500 hover:text-red-600" aria-label="Rechazar"
+                      onClick={() => run(() => declineInvitation(invitation), 'Invitación rechazada.', 'No se pudo rechazar la invitación.')}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {activeLedger && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Libro Actual</CardTitle>
+            <CardDescription>Tu rol en este libro: {ROLE_LABELS[activeLedger.role]}.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col sm:flex-row gap-2">
+            <Input value={ledgerName} onChange={(e) => setLedgerName(e.target.value)} disabled={!canManage} className="w-full" />
+            {canManage && (
+              <Button onClick={handleRename} disabled={!ledgerName.trim() || ledgerName.trim() === activeLedger.ledgerNombre}>
+                <Save className="mr-2 h-4 w-4" />Renombrar
+              </Button>
+            )}
+            {self && self.role !== 'owner' && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="text-destructive"><LogOut className="mr-2 h-4 w-4" />Abandonar</Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>¿Abandonar el libro?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Dejarás de tener acceso a "{activeLedger.ledgerNombre}" hasta que alguien vuelva a invitarte.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => run(() => removeMember(self), 'Has abandonado el libro.', 'No se pudo abandonar el libro.')}>Sí, abandonar</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Miembros</CardTitle>
+          <CardDescription>
+            Propietarios y tesoreros administran el equipo y la configuración; los editores capturan movimientos y los lectores solo consultan.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ul className="space-y-2">
+            {[...members].sort(byRole).map(member => {
+              const isSelf = member.memberId === user?.uid;
+              const editable = canManage && !isSelf && roles.includes(member.role);
+              return (
+                <li key={member.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg gap-2">
+                  <span className="font-medium truncate">{member.email ?? member.memberId}{isSelf && ' (tú)'}</span>
+                  <div className="flex items-center gap-2">
+                    {editable ? (
+                      <Select value={member.role} onValueChange={(value) => run(() => changeMemberRole(member, value as LedgerRole), 'Rol actualizado.', 'No se pudo cambiar el rol.')}>
+                        <SelectTrigger className="w-[140px]"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {roles.map(option => <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+                    )}
+                    {editable && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button size="icon" variant="ghost" className="text-destructive" aria-label="Quitar"><Trash2 className="h-4 w-4" /></Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>¿Quitar a este miembro?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {member.email ?? member.memberId} dejará de tener acceso a este libro.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => run(() => removeMember(member), 'Miembro eliminado del libro.', 'No se pudo quitar al miembro.')}>Sí, quitar</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          {canManage && (
+            <div className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-4 items-end">
+                <div className="grid gap-1.5 md:col-span-2">
+                  <Label>Correo electrónico</Label>
+                  <Input type="email" placeholder="persona@ejemplo.com" value={inviteEmail} onChange={(e) => setInviteEmail(e.target.value)} />
+                </div>
+                <div className="grid gap-1.5">
+                  <Label>Rol</Label>
+                  <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as LedgerRole)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {roles.map(option => <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={handleInvite} disabled={!inviteEmail.trim()}><Mail className="mr-2 h-4 w-4" />Invitar</Button>
+              </div>
+              {invitations.length > 0 && (
+                <ul className="space-y-2">
+                  {invitations.map(invitation => (
+                    <li key={invitation.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{invitation.email}</p>
+                        <p className="text-xs text-muted-foreground">Invitación pendiente · {ROLE_LABELS[invitation.role]}</p>
+                      </div>
+                      <Button size="icon" variant="ghost" className="text-destructive" aria-label="Revocar"
+                        onClick={() => run(() => revokeInvitation(invitation), 'Invitación revocada.', 'No se pudo revocar la invitación.')}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Nuevo Libro</CardTitle>
+          <CardDescription>Cada libro tiene sus propios registros, integrantes, razones y miembros.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row gap-2">
+          <Input
+            placeholder="Nombre del libro"
+            value={newLedgerName}
+            onChange={(e) => setNewLedgerName(e.target.value)}
+            onKeyUp={(e) => e.key === 'Enter' && newLedgerName.trim() && handleCreate()}
+            className="w-full"
+          />
+          <Button onClick={handleCreate} disabled={!newLedgerName.trim()}><Plus className="mr-2 h-4 w-4" />Crear libro</Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
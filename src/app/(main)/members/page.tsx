@@ -5,19 +5,32 @@ import { useAppContext } from '@/contexts/AppProvider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Download, Loader2, Pencil, Save, Trash2, Upload, X } from 'lucide-react';
+import { Loader2, Pencil, Save, Trash2, Upload, X } from 'lucide-react';
 import { useMemo, useRef, useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { EntityInput } from '@/lib/repositories';
 import type { Integrante } from '@/types';
+import { ExportMenu, type ExportFormat } from '@/components/ExportMenu';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
-import { parseCsvLine } from '@/lib/utils';
+import { downloadCsv } from '@/lib/csv';
+import { checkCatalogRows, describeReplacement, parseBooleanField, readImportFile, tableRows, type ImportRow } from '@/lib/import-preview';
+import { downloadXlsx } from '@/lib/xlsx';
+import { HistoryDialog } from '@/components/HistoryPanel';
+import { ImportStatus } from '@/components/ImportStatus';
+import { ImportPreviewDialog, type ImportPreviewState } from '@/components/ImportPreview';
+
+const IMPORT_COLUMNS = [
+  { key: 'nombre', label: 'Nombre' },
+  { key: 'isprotected', label: 'Protegido' },
+];
 
 
 export default function MembersPage() {
-  const { integrantes, addIntegrante, updateIntegrante, deleteIntegrante, financialRecords, loading, importIntegrantes } = useAppContext();
+  const { integrantes, addIntegrante, updateIntegrante, deleteIntegrante, loading, importIntegrantes, importActivity, can } = useAppContext();
+  const canWrite = can('write');
   const { toast } = useToast();
 
   const [newIntegranteName, setNewIntegranteName] = useState('');
@@ -30,6 +43,7 @@ export default function MembersPage() {
   const [importFile, setImportFile] = useState<File | null>(null);
   const [importMode, setImportMode] = useState<'add' | 'replace'>('add');
   const importFileInputRef = useRef<HTMLInputElement>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreviewState | null>(null);
 
 
   const handleAdd = async () => {
@@ -80,11 +94,6 @@ export default function MembersPage() {
   };
 
   const handleDelete = async (id: string) => {
-    const isUsed = financialRecords.some(r => r.integranteId === id);
-    if (isUsed) {
-        toast({ variant: 'destructive', title: 'Acción denegada', description: 'No se puede eliminar un integrante que tiene registros financieros asociados.' });
-        return;
-    }
     try {
         await deleteIntegrante(id);
         toast({ title: 'Éxito', description: 'Integrante eliminado.' });
@@ -94,21 +103,16 @@ export default function MembersPage() {
     }
   };
 
-  const exportToCSV = () => {
+  const handleExport = async (format: ExportFormat, passphrase?: string) => {
     const headers = ['nombre', 'isProtected'];
-    const rows = filteredAndSortedIntegrantes.map(i => [
-      `"${i.nombre.replace(/"/g, '""')}"`,
-      !!i.isProtected
-    ].join(','));
-    const csvContent = "data:text/csv;charset=utf-8," + [headers.join(','), ...rows].join('\n');
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", "integrantes.csv");
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    toast({ title: 'Éxito', description: 'Integrantes exportados a CSV.' });
+    const rows = filteredAndSortedIntegrantes.map(i => [i.nombre, !!i.isProtected]);
+    try {
+      if (format === 'xlsx') await downloadXlsx('integrantes.xlsx', [{ name: 'Integrantes', headers, rows }], { passphrase });
+      else await downloadCsv('integrantes.csv', [headers, ...rows], { passphrase });
+      toast({ title: 'Éxito', description: `Integrantes exportados a ${format === 'xlsx' ? 'Excel' : 'CSV'}${passphrase ? ' cifrado' : ''}.` });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: 'No se pudo generar el archivo.' });
+    }
   };
   
   const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -118,61 +122,53 @@ export default function MembersPage() {
     }
   };
   
-  const processImport = () => {
+  const processImport = async () => {
     if (!importFile) {
         toast({ variant: 'destructive', title: 'Error', description: 'Por favor, selecciona un archivo.' });
         return;
     }
+    try {
+      const rows = tableRows(await readImportFile(importFile), ['nombre']);
+      const replaced = integrantes.filter(i => !i.isProtected).map(i => i.nombre);
+      setImportPreview({
+        rows,
+        mode: importMode,
+        replaceSummary: `${describeReplacement(replaced.length, 'integrante(s) no protegido(s)', replaced)} Los protegidos se conservan.`,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Un error desconocido ocurrió.';
+      toast({ variant: 'destructive', title: 'Error de importación', description: `No se pudo procesar el archivo. ${message}` });
+    } finally {
+      setImportFile(null);
+      if(importFileInputRef.current) importFileInputRef.current.value = '';
+      setIsImportDialogOpen(false);
+    }
+  };
 
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const text = e.target?.result;
-      if (typeof text !== 'string') {
-        toast({ variant: 'destructive', title: 'Error', description: 'No se pudo leer el archivo.' });
-        return;
-      }
-      try {
-        const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
-        if (lines.length < 2) {
-          throw new Error('El archivo CSV está vacío o solo contiene la cabecera.');
-        }
-
-        const headers = parseCsvLine(lines[0]).map(h => h.trim().toLowerCase());
-        const nombreIndex = headers.indexOf('nombre');
-        const isProtectedIndex = headers.indexOf('isprotected');
-
-        if (nombreIndex === -1) {
-          throw new Error('La columna "nombre" no fue encontrada en el CSV.');
-        }
-
-        let integrantesToImport: Omit<Integrante, 'id' | 'userId' | 'createdAt' | 'updatedAt'>[] = [];
-
-        for (let i = 1; i < lines.length; i++) {
-          const values = parseCsvLine(lines[i]);
-          const nombre = values[nombreIndex]?.replace(/"/g, '').trim();
+  const checkImportRows = async (rows: ImportRow[]) => checkCatalogRows<EntityInput<Integrante>, Integrante>(
+    rows,
+    integrantes,
+    item => item.nombre,
+    importPreview?.mode ?? 'add',
+    (row, messages) => {
+      const nombre = row.values.nombre;
+      if (!nombre) messages.push('El nombre es obligatorio.');
+      const isProtected = parseBooleanField(row.values.isprotected, 'isProtected', messages);
+      return nombre ? { nombre, isProtected } : null;
+    }
+  );
 
-          if (nombre) {
-            const isProtected = isProtectedIndex !== -1 ? values[isProtectedIndex]?.trim().toLowerCase() === 'true' : false;
-            integrantesToImport.push({ nombre, isProtected });
-          }
-        }
-        
-        if (integrantesToImport.length > 0) {
-          await importIntegrantes(integrantesToImport, importMode);
-          toast({ title: 'Éxito', description: `Importación completa.` });
-        } else {
-          toast({ title: 'Información', description: 'No se encontraron nuevos integrantes para importar o no hay cambios.' });
-        }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Un error desconocido ocurrió.';
-        toast({ variant: 'destructive', title: 'Error de importación', description: `No se pudo procesar el archivo CSV. ${message}` });
-      } finally {
-        setImportFile(null);
-        if(importFileInputRef.current) importFileInputRef.current.value = '';
-        setIsImportDialogOpen(false);
-      }
-    };
-    reader.readAsText(importFile);
+  const commitImport = async (items: EntityInput<Integrante>[]) => {
+    if (!importPreview) return;
+    try {
+      await importIntegrantes(items, importPreview.mode);
+      toast({ title: 'Éxito', description: `${items.length} integrante(s) importado(s).` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Un error desconocido ocurrió.';
+      toast({ variant: 'destructive', title: 'Error de importación', description: message, duration: 8000 });
+    } finally {
+      setImportPreview(null);
+    }
   };
 
   const filteredAndSortedIntegrantes = useMemo(() => {
@@ -200,6 +196,7 @@ export default function MembersPage() {
 
   return (
     <div className="space-y-6">
+      {canWrite && (
       <Card>
         <CardHeader>
           <CardTitle>Añadir Nuevo Integrante</CardTitle>
@@ -215,6 +212,7 @@ export default function MembersPage() {
           <Button onClick={handleAdd}>Agregar Integrante</Button>
         </CardContent>
       </Card>
+      )}
 
       <Card>
         <CardHeader>
@@ -241,21 +239,22 @@ export default function MembersPage() {
                 </Select>
             </div>
              <div className="grid grid-cols-2 gap-2 sm:flex sm:w-auto">
+                {canWrite && (
                 <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
                   <DialogTrigger asChild>
                       <Button variant="outline" className="w-full"><Upload className="mr-2 h-4 w-4"/>Importar</Button>
                   </DialogTrigger>
                   <DialogContent>
                       <DialogHeader>
-                          <DialogTitle>Importar Integrantes desde CSV</DialogTitle>
+                          <DialogTitle>Importar Integrantes desde CSV o Excel</DialogTitle>
                           <DialogDescription>
-                              El archivo CSV debe contener las columnas: "nombre" y "isProtected" (opcional).
+                              El archivo CSV o .xlsx debe contener las columnas: "nombre" y "isProtected" (opcional).
                           </DialogDescription>
                       </DialogHeader>
                       <div className="space-y-4 py-4">
                           <div className="grid w-full max-w-sm items-center gap-1.5">
-                              <Label htmlFor="csv-file">Archivo CSV</Label>
-                              <Input id="csv-file" type="file" accept=".csv" onChange={handleFileSelected} ref={importFileInputRef} />
+                              <Label htmlFor="csv-file">Archivo</Label>
+                              <Input id="csv-file" type="file" accept=".csv,.xlsx" onChange={handleFileSelected} ref={importFileInputRef} />
                               {importFile && <p className="text-sm text-muted-foreground">Archivo seleccionado: {importFile.name}</p>}
                           </div>
                           <div>
@@ -271,17 +270,20 @@ export default function MembersPage() {
                              </Select>
                           </div>
                       </div>
+                      <ImportStatus collectionName="integrantes" />
                       <DialogFooter>
                           <Button variant="outline" onClick={() => setIsImportDialogOpen(false)}>Cancelar</Button>
-                          <Button onClick={processImport} disabled={!importFile}>Importar</Button>
+                          <Button onClick={processImport} disabled={!importFile || !!importActivity}>Revisar</Button>
                       </DialogFooter>
                   </DialogContent>
                 </Dialog>
-                <Button onClick={exportToCSV} variant="outline" className="w-full"><Download className="mr-2 h-4 w-4"/>Exportar</Button>
+                )}
+                <ExportMenu onExport={handleExport} />
             </div>
           </div>
         </CardHeader>
         <CardContent>
+          <ImportStatus collectionName="integrantes" className="mb-4" />
           <ul className="space-y-2">
             {filteredAndSortedIntegrantes.map((integrante) => (
               <li key={integrante.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
@@ -298,8 +300,10 @@ export default function MembersPage() {
                     </>
                   ) : (
                     <>
-                      <Button size="icon" variant="ghost" onClick={() => handleEdit(integrante)}><Pencil className="h-4 w-4"/></Button>
+                      {canWrite && <Button size="icon" variant="ghost" onClick={() => handleEdit(integrante)}><Pencil className="h-4 w-4"/></Button>}
+                      <HistoryDialog entityId={integrante.id} title={integrante.nombre} />
                       
+                      {canWrite && (
                       <AlertDialog>
                         <AlertDialogTrigger asChild>
                             <Button size="icon" variant="ghost" disabled={integrante.isProtected} className="disabled:opacity-50 disabled:cursor-not-allowed text-destructive"><Trash2 className="h-4 w-4"/></Button>
@@ -308,7 +312,7 @@ export default function MembersPage() {
                             <AlertDialogHeader>
                                 <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
                                 <AlertDialogDescription>
-                                Esta acción no se puede deshacer. Se eliminará permanentemente al integrante "{integrante.nombre}".
+                                El integrante "{integrante.nombre}" se moverá a la papelera, desde donde podrás restaurarlo.
                                 </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter>
@@ -317,6 +321,7 @@ export default function MembersPage() {
                             </AlertDialogFooter>
                         </AlertDialogContent>
                       </AlertDialog>
+                      )}
                     </>
                   )}
                 </div>
@@ -325,6 +330,14 @@ export default function MembersPage() {
           </ul>
         </CardContent>
       </Card>
+      <ImportPreviewDialog
+        preview={importPreview}
+        title="Vista previa de integrantes"
+        columns={IMPORT_COLUMNS}
+        check={checkImportRows}
+        onCancel={() => setImportPreview(null)}
+        onCommit={commitImport}
+      />
     </div>
   );
 }
@@ -10,18 +10,21 @@ import { cn } from '@/lib/utils';
 import { getCitas } from '@/lib/data';
 import type { Cita } from '@/types';
 import Link from 'next/link';
-import { format, startOfMonth, endOfMonth, isWithinInterval, parse, isValid, getDay } from 'date-fns';
+import { format, startOfMonth, endOfMonth, getDay } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { formatRecordDate, parseRecordDate, toRecordDate } from '@/lib/dates';
 import { useToast } from '@/hooks/use-toast';
 import { isFirebaseConfigured } from '@/lib/firebase';
 import { useAuth } from '@/contexts/AuthProvider';
-
-const parseDate = (dateStr: string) => parse(dateStr, 'dd/MM/yyyy', new Date());
+import { useFormatMoney, usePrivacy } from '@/contexts/PrivacyProvider';
+import { useCurrencyConverter } from '@/hooks/use-exchange-rates';
+import { useBalance, useRecordWindow } from '@/hooks/use-financial-records';
 
 export default function DashboardPage() {
-  const { financialRecords, loading, razones, integrantes } = useAppContext();
+  const { loading, razones, integrantes, baseCurrency } = useAppContext();
   const { user } = useAuth();
-  const [balanceVisible, setBalanceVisible] = useState(true);
+  const { privacyMode, togglePrivacyMode } = usePrivacy();
+  const formatAmount = useFormatMoney();
   const [citas, setCitas] = useState<Cita[]>([]);
   const [currentCitaIndex, setCurrentCitaIndex] = useState(0);
 
@@ -46,11 +49,19 @@ export default function DashboardPage() {
     return () => clearInterval(timer);
   }, [citas.length]);
 
+  // Only the current month and the latest records are downloaded; the balance is summed by the backend.
+  const monthRange = useMemo(() => {
+    const now = new Date();
+    return { from: toRecordDate(startOfMonth(now)), to: toRecordDate(endOfMonth(now)) };
+  }, []);
+  const { records: monthRecords } = useRecordWindow(monthRange);
+  const { toBaseCents } = useCurrencyConverter(monthRange);
+  const { records: recentRecords } = useRecordWindow(undefined, { limit: 5 });
+  const { balance, unconvertedCount } = useBalance();
+
   const { 
-    balance, 
     monthlyIncome, 
     monthlyExpenses, 
-    recentRecords, 
     dailyAverageIncome, 
     dailyAverageExpenses,
     uniqueIntegrantesCount,
@@ -59,15 +70,10 @@ export default function DashboardPage() {
     averageDailyRecords,
     top5Reasons,
   } = useMemo(() => {
-    const validRecords = financialRecords.filter(r => r.fecha && isValid(parseDate(r.fecha)));
-
-    const balance = validRecords.reduce((acc, record) => acc + (record.monto || 0), 0);
-    
-    const now = new Date();
-    const monthStart = startOfMonth(now);
-    const monthEnd = endOfMonth(now);
-
-    const monthlyRecords = validRecords.filter(r => isWithinInterval(parseDate(r.fecha), { start: monthStart, end: monthEnd }));
+    // Totals are computed in the base currency; records without an exchange rate are left out.
+    const monthlyRecords = monthRecords
+      .map(r => ({ ...r, monto: toBaseCents(r) }))
+      .filter((r): r is typeof r & { monto: number } => r.monto !== null);
     
     const monthlyIncome = monthlyRecords
         .filter(r => r.movimiento === 'INGRESOS')
@@ -77,18 +83,9 @@ export default function DashboardPage() {
         .filter(r => r.movimiento === 'GASTOS')
         .reduce((acc, r) => acc + (r.monto || 0), 0);
 
-    const recentRecords = [...validRecords]
-      .sort((a, b) => {
-          const dateA = a.fecha ? parseDate(a.fecha).getTime() : 0;
-          const dateB = b.fecha ? parseDate(b.fecha).getTime() : 0;
-          if (dateB !== dateA) return dateB - dateA;
-          return (b.createdAt || 0) - (a.createdAt || 0);
-      })
-      .slice(0, 5);
-
     const uniqueIntegrantesInMonth = new Set(monthlyRecords.map(r => r.integranteId));
     
-    const activeDaysInMonth = new Set(monthlyRecords.map(r => parseDate(r.fecha).getDate()));
+    const activeDaysInMonth = new Set(monthlyRecords.map(r => r.fecha));
     const numberOfActiveDays = activeDaysInMonth.size;
 
     const dailyAverageIncome = numberOfActiveDays > 0 ? monthlyIncome / numberOfActiveDays : 0;
@@ -98,12 +95,12 @@ export default function DashboardPage() {
     const averageDailyRecords = numberOfActiveDays > 0 ? monthlyRecordsCount / numberOfActiveDays : 0;
     
     // --- Logic for averageDailyMembers on Thursdays ---
-    const thursdayRecords = monthlyRecords.filter(r => getDay(parseDate(r.fecha)) === 4);
+    const thursdayRecords = monthlyRecords.filter(r => getDay(parseRecordDate(r.fecha)) === 4);
     
     let averageDailyMembers = 0;
     if (thursdayRecords.length > 0) {
       const uniqueMembersOnThursdays = new Set(thursdayRecords.map(r => r.integranteId));
-      const activeThursdays = new Set(thursdayRecords.map(r => parseDate(r.fecha).getDate()));
+      const activeThursdays = new Set(thursdayRecords.map(r => r.fecha));
       const numberOfActiveThursdays = activeThursdays.size;
 
       if (numberOfActiveThursdays > 0) {
@@ -145,26 +142,20 @@ export default function DashboardPage() {
     // --- End of Top 5 Reasons ---
 
     return { 
-        balance, 
         monthlyIncome, 
         monthlyExpenses: Math.abs(monthlyExpenses), 
-        recentRecords, 
         dailyAverageIncome, 
         dailyAverageExpenses,
         uniqueIntegrantesCount: uniqueIntegrantesInMonth.size,
         monthlyRecordsCount: monthlyRecords.length,
         averageDailyMembers,
         averageDailyRecords,
-        top5Reasons
+        top5Reasons,
     };
-  }, [financialRecords, razones, integrantes]);
+  }, [monthRecords, razones, integrantes, toBaseCents]);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('es-MX', {
-      style: 'currency',
-      currency: 'MXN',
-    }).format(amount);
-  };
+  // All totals are in cents of the base currency.
+  const formatCurrency = (amount: number) => formatAmount(amount, baseCurrency);
 
   const getIntegranteName = (id: string) => integrantes.find((i) => i.id === id)?.nombre || 'N/A';
   const getRazonDesc = (id: string) => razones.find((r) => r.id === id)?.descripcion || 'N/A';
@@ -192,7 +183,7 @@ export default function DashboardPage() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4 md:space-y-6 text-center">
-            {balanceVisible ? (
+            {!privacyMode ? (
               <p className={cn('text-4xl md:text-5xl font-bold tracking-tighter', balance >= 0 ? 'text-green-500' : 'text-red-500')}>
                 {formatCurrency(balance)}
               </p>
@@ -201,9 +192,15 @@ export default function DashboardPage() {
                 -- OCULTO --
               </p>
             )}
-            <Button variant="ghost" onClick={() => setBalanceVisible(!balanceVisible)}>
-              {balanceVisible ? <EyeOff className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
-              {balanceVisible ? 'Ocultar' : 'Mostrar'} Balance
+            {unconvertedCount > 0 && (
+              <p className="text-xs text-amber-600 flex items-center justify-center gap-1">
+                <AlertCircle className="h-3 w-3" />
+                {unconvertedCount} registro(s) en otra moneda sin tipo de cambio no se incluyen en los totales.
+              </p>
+            )}
+            <Button variant="ghost" onClick={togglePrivacyMode}>
+              {privacyMode ? <Eye className="mr-2 h-4 w-4" /> : <EyeOff className="mr-2 h-4 w-4" />}
+              {privacyMode ? 'Mostrar' : 'Ocultar'} Montos
             </Button>
           </CardContent>
         </Card>
@@ -277,8 +274,7 @@ export default function DashboardPage() {
                 {recentRecords.length > 0 ? (
                     <ul className="space-y-3">
                         {recentRecords.map((record) => {
-                           const recordDate = parseDate(record.fecha);
-                           const formattedDate = isValid(recordDate) ? format(recordDate, 'dd MMM yyyy', { locale: es }) : 'Fecha inválida';
+                           const formattedDate = formatRecordDate(record.fecha);
                            const monto = typeof record.monto === 'number' ? record.monto : 0;
                            return (
                            <li key={record.id} className="flex justify-between items-center">
@@ -287,7 +283,7 @@ export default function DashboardPage() {
                                    <p className="text-xs text-muted-foreground">{getRazonDesc(record.razonId)} - {formattedDate}</p>
                                </div>
                                <span className={cn('font-mono font-semibold text-sm', monto >= 0 ? 'text-green-500' : 'text-red-500')}>
-                                   {formatCurrency(monto)}
+                                   {formatAmount(monto, record.moneda)}
                                </span>
                            </li>
                         )})}
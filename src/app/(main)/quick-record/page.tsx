@@ -5,6 +5,8 @@ import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { format, startOfDay } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { toRecordDate } from '@/lib/dates';
+import { toCents } from '@/lib/money';
 import { Calendar as CalendarIcon, Loader2 } from 'lucide-react';
 import {
   Form,
@@ -38,10 +40,12 @@ import {
 } from '@/components/ui/select';
 import { Calendar } from '@/components/ui/calendar';
 import { useToast } from '@/hooks/use-toast';
+import { useRecentRecords } from '@/hooks/use-financial-records';
 import { cn } from '@/lib/utils';
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import type { Movimiento } from '@/types';
 import { Autocomplete } from '@/components/Autocomplete';
+import { CurrencySelect } from '@/components/CurrencySelect';
 
 const DESCRIPTION_MAX_LENGTH = 500;
 
@@ -51,6 +55,7 @@ const quickRecordSchema = z.object({
   }),
   razonId: z.string().min(1, 'La razón es requerida.'),
   monto: z.coerce.number().positive('El monto debe ser un número positivo.'),
+  moneda: z.string().min(1, 'La moneda es requerida.'),
   integranteId: z.string().min(1, 'El integrante es requerido.'),
   movimiento: z.enum(['INGRESOS', 'GASTOS', 'INVERSION'], {
     required_error: 'El tipo de movimiento es requerido.',
@@ -59,7 +64,8 @@ const quickRecordSchema = z.object({
 });
 
 export default function QuickRecordPage() {
-  const { razones, integrantes, addFinancialRecord, loading, financialRecords, recordDates } = useAppContext();
+  const { razones, integrantes, addFinancialRecord, loading, baseCurrency, can } = useAppContext();
+  const { recordDates, descriptionOptions: uniqueDescriptionOptions } = useRecentRecords();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -68,12 +74,18 @@ export default function QuickRecordPage() {
     defaultValues: {
       fecha: new Date(),
       monto: '' as any,
+      moneda: baseCurrency,
       movimiento: 'INGRESOS',
       razonId: '',
       integranteId: '',
       descripcion: '',
     },
   });
+
+  // The ledger settings may arrive after the form is first rendered.
+  useEffect(() => {
+    form.setValue('moneda', baseCurrency);
+  }, [baseCurrency, form]);
   
   const watchedDescription = form.watch('descripcion');
 
@@ -95,7 +107,8 @@ export default function QuickRecordPage() {
       const razonDesc = razones.find((r) => r.id === values.razonId)?.descripcion || '';
       await addFinancialRecord({
         ...values,
-        fecha: format(values.fecha, 'dd/MM/yyyy'),
+        fecha: toRecordDate(values.fecha),
+        monto: toCents(values.monto),
         descripcion: values.descripcion || razonDesc,
       });
       toast({
@@ -125,15 +138,21 @@ export default function QuickRecordPage() {
     integrantes.map(i => ({ value: i.id, label: i.nombre })), 
   [integrantes]);
   
-  const uniqueDescriptionOptions = useMemo(() => {
-    const descriptions = new Set(financialRecords.map(r => r.descripcion).filter(Boolean));
-    return Array.from(descriptions).map(d => ({ value: d, label: d }));
-  }, [financialRecords]);
-
   const disabledDates = (date: Date) => {
     return !recordDates.has(startOfDay(date).getTime());
   }
 
+  if (!loading && !can('write')) {
+    return (
+      <Card className="max-w-2xl mx-auto">
+        <CardHeader>
+          <CardTitle className="text-2xl">Registro Rápido</CardTitle>
+          <CardDescription>Tu rol en este libro solo permite consultar la información.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
   return (
     <div className="space-y-6">
        <Card className="max-w-2xl mx-auto">
@@ -220,9 +239,12 @@ export default function QuickRecordPage() {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Monto</FormLabel>
-                    <FormControl>
-                      <Input type="number" placeholder="0.00" {...field} value={field.value || ''} />
-                    </FormControl>
+                    <div className="flex gap-2">
+                      <FormControl>
+                        <Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value || ''} />
+                      </FormControl>
+                      <CurrencySelect value={form.watch('moneda')} onChange={(value) => form.setValue('moneda', value, { shouldValidate: true })} className="w-28" />
+                    </div>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -4,21 +4,35 @@ import { useAppContext } from '@/contexts/AppProvider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Download, Loader2, Pencil, Save, Trash2, Upload, X, Zap } from 'lucide-react';
+import { Loader2, Pencil, Save, Trash2, Upload, X, Zap } from 'lucide-react';
 import { useMemo, useRef, useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { cn } from '@/lib/utils';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import type { EntityInput } from '@/lib/repositories';
 import type { Razon } from '@/types';
+import { ExportMenu, type ExportFormat } from '@/components/ExportMenu';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
-import { parseCsvLine } from '@/lib/utils';
+import { downloadCsv } from '@/lib/csv';
+import { checkCatalogRows, describeReplacement, parseBooleanField, readImportFile, tableRows, type ImportRow } from '@/lib/import-preview';
+import { downloadXlsx } from '@/lib/xlsx';
+import { HistoryDialog } from '@/components/HistoryPanel';
+import { ImportStatus } from '@/components/ImportStatus';
+import { ImportPreviewDialog, type ImportPreviewState } from '@/components/ImportPreview';
+
+const IMPORT_COLUMNS = [
+  { key: 'descripcion', label: 'Descripción' },
+  { key: 'isquickreason', label: 'Razón rápida' },
+  { key: 'isprotected', label: 'Protegida' },
+];
 
 
 export default function ReasonsPage() {
-  const { razones, addRazon, updateRazon, deleteRazon, financialRecords, loading, importRazones } = useAppContext();
+  const { razones, addRazon, updateRazon, deleteRazon, loading, importRazones, importActivity, can } = useAppContext();
+  const canWrite = can('write');
   const { toast } = useToast();
 
   const [newRazonDesc, setNewRazonDesc] = useState('');
@@ -31,6 +45,7 @@ export default function ReasonsPage() {
   const [importFile, setImportFile] = useState<File | null>(null);
   const [importMode, setImportMode] = useState<'add' | 'replace'>('add');
   const importFileInputRef = useRef<HTMLInputElement>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreviewState | null>(null);
 
 
   const handleAdd = async () => {
@@ -81,11 +96,6 @@ export default function ReasonsPage() {
   };
 
   const handleDelete = async (id: string) => {
-    const isUsed = financialRecords.some(r => r.razonId === id);
-    if (isUsed) {
-        toast({ variant: 'destructive', title: 'Acción denegada', description: 'No se puede eliminar una razón que tiene registros financieros asociados.' });
-        return;
-    }
     try {
         await deleteRazon(id);
         toast({ title: 'Éxito', description: 'Razón eliminada.' });
@@ -105,22 +115,16 @@ export default function ReasonsPage() {
     }
   };
 
-  const exportToCSV = () => {
+  const handleExport = async (format: ExportFormat, passphrase?: string) => {
     const headers = ['descripcion', 'isQuickReason', 'isProtected'];
-    const rows = filteredAndSortedRazones.map(r => [
-      `"${r.descripcion.replace(/"/g, '""')}"`,
-      !!r.isQuickReason,
-      !!r.isProtected,
-    ].join(','));
-    const csvContent = "data:text/csv;charset=utf-8," + [headers.join(','), ...rows].join('\n');
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", "razones.csv");
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    toast({ title: 'Éxito', description: 'Razones exportadas a CSV.' });
+    const rows = filteredAndSortedRazones.map(r => [r.descripcion, !!r.isQuickReason, !!r.isProtected]);
+    try {
+      if (format === 'xlsx') await downloadXlsx('razones.xlsx', [{ name: 'Razones', headers, rows }], { passphrase });
+      else await downloadCsv('razones.csv', [headers, ...rows], { passphrase });
+      toast({ title: 'Éxito', description: `Razones exportadas a ${format === 'xlsx' ? 'Excel' : 'CSV'}${passphrase ? ' cifrado' : ''}.` });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: 'No se pudo generar el archivo.' });
+    }
   };
   
   const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -130,66 +134,56 @@ export default function ReasonsPage() {
     }
   };
   
-  const processImport = () => {
+  const processImport = async () => {
     if (!importFile) {
         toast({ variant: 'destructive', title: 'Error', description: 'Por favor, selecciona un archivo.' });
         return;
     }
+    try {
+      const rows = tableRows(await readImportFile(importFile), ['descripcion']);
+      const replaced = razones.filter(r => !r.isProtected).map(r => r.descripcion);
+      setImportPreview({
+        rows,
+        mode: importMode,
+        replaceSummary: `${describeReplacement(replaced.length, 'razón(es) no protegida(s)', replaced)} Las protegidas se conservan.`,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Un error desconocido ocurrió.';
+      toast({ variant: 'destructive', title: 'Error de importación', description: `No se pudo procesar el archivo. ${message}` });
+    } finally {
+      setImportFile(null);
+      if(importFileInputRef.current) importFileInputRef.current.value = '';
+      setIsImportDialogOpen(false);
+    }
+  };
 
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const text = e.target?.result;
-      if (typeof text !== 'string') {
-        toast({ variant: 'destructive', title: 'Error', description: 'No se pudo leer el archivo.' });
-        return;
-      }
-      try {
-        const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
-        if (lines.length < 2) {
-            throw new Error('El archivo CSV está vacío o solo contiene la cabecera.');
-        }
-
-        const headers = parseCsvLine(lines[0]).map(h => h.trim().toLowerCase());
-        const descIndex = headers.indexOf('descripcion');
-        const quickIndex = headers.indexOf('isquickreason');
-        const protectedIndex = headers.indexOf('isprotected');
-
-
-        if (descIndex === -1) {
-          throw new Error('La columna "descripcion" no fue encontrada en el CSV.');
-        }
-
-        let razonesToImport: Omit<Razon, 'id' | 'userId' | 'createdAt' | 'updatedAt'>[] = [];
+  const checkImportRows = async (rows: ImportRow[]) => checkCatalogRows<EntityInput<Razon>, Razon>(
+    rows,
+    razones,
+    item => item.descripcion,
+    importPreview?.mode ?? 'add',
+    (row, messages) => {
+      const descripcion = row.values.descripcion;
+      if (!descripcion) messages.push('La descripción es obligatoria.');
+      const isQuickReason = parseBooleanField(row.values.isquickreason, 'isQuickReason', messages);
+      const isProtected = parseBooleanField(row.values.isprotected, 'isProtected', messages);
+      return descripcion ? { descripcion, isQuickReason, isProtected } : null;
+    }
+  );
 
-        for (let i = 1; i < lines.length; i++) {
-          const values = parseCsvLine(lines[i]);
-          const descripcion = values[descIndex]?.replace(/"/g, '').trim();
-          
-          if (descripcion) {
-            const isQuickReason = quickIndex !== -1 ? (values[quickIndex]?.trim().toLowerCase() === 'true') : false;
-            const isProtected = protectedIndex !== -1 ? (values[protectedIndex]?.trim().toLowerCase() === 'true') : false;
-            razonesToImport.push({ descripcion, isQuickReason, isProtected });
-          }
-        }
-        
-        if (razonesToImport.length > 0) {
-            await importRazones(razonesToImport, importMode);
-            toast({ title: 'Éxito', description: `Importación completa.` });
-        } else {
-          toast({ title: 'Información', description: 'No se encontraron nuevas razones para importar o no hay cambios.' });
-        }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Un error desconocido ocurrió.';
-        toast({ variant: 'destructive', title: 'Error de importación', description: `No se pudo procesar el archivo CSV. ${message}` });
-      } finally {
-        setImportFile(null);
-        if(importFileInputRef.current) importFileInputRef.current.value = '';
-        setIsImportDialogOpen(false);
-      }
-    };
-    reader.readAsText(importFile);
+  const commitImport = async (items: EntityInput<Razon>[]) => {
+    if (!importPreview) return;
+    try {
+      await importRazones(items, importPreview.mode);
+      toast({ title: 'Éxito', description: `${items.length} razón(es) importada(s).` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Un error desconocido ocurrió.';
+      toast({ variant: 'destructive', title: 'Error de importación', description: message, duration: 8000 });
+    } finally {
+      setImportPreview(null);
+    }
   };
-  
+
   const filteredAndSortedRazones = useMemo(() => {
     return razones
       .filter(r => r.descripcion.toLowerCase().includes(searchTerm.toLowerCase()))
@@ -217,6 +211,7 @@ export default function ReasonsPage() {
 
   return (
     <div className="space-y-6">
+      {canWrite && (
       <Card>
         <CardHeader>
           <CardTitle>Añadir Nueva Razón</CardTitle>
@@ -232,6 +227,7 @@ export default function ReasonsPage() {
           <Button onClick={handleAdd}>Agregar Razón</Button>
         </CardContent>
       </Card>
+      )}
 
       <Card>
         <CardHeader>
@@ -258,21 +254,22 @@ export default function ReasonsPage() {
                 </Select>
             </div>
              <div className="grid grid-cols-2 gap-2 sm:flex sm:w-auto">
+                {canWrite && (
                 <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
                   <DialogTrigger asChild>
                       <Button variant="outline" className="w-full"><Upload className="mr-2 h-4 w-4"/>Importar</Button>
                   </DialogTrigger>
                   <DialogContent>
                       <DialogHeader>
-                          <DialogTitle>Importar Razones desde CSV</DialogTitle>
+                          <DialogTitle>Importar Razones desde CSV o Excel</DialogTitle>
                            <DialogDescription>
-                              El archivo CSV debe contener las columnas: "descripcion", "isQuickReason" (opcional), "isProtected" (opcional).
+                              El archivo CSV o .xlsx debe contener las columnas: "descripcion", "isQuickReason" (opcional), "isProtected" (opcional).
                           </DialogDescription>
                       </DialogHeader>
                       <div className="space-y-4 py-4">
                           <div className="grid w-full max-w-sm items-center gap-1.5">
-                              <Label htmlFor="csv-file">Archivo CSV</Label>
-                              <Input id="csv-file" type="file" accept=".csv" onChange={handleFileSelected} ref={importFileInputRef} />
+                              <Label htmlFor="csv-file">Archivo</Label>
+                              <Input id="csv-file" type="file" accept=".csv,.xlsx" onChange={handleFileSelected} ref={importFileInputRef} />
                               {importFile && <p className="text-sm text-muted-foreground">Archivo seleccionado: {importFile.name}</p>}
                           </div>
                           <div>
@@ -288,17 +285,20 @@ export default function ReasonsPage() {
                              </Select>
                           </div>
                       </div>
+                      <ImportStatus collectionName="razones" />
                       <DialogFooter>
                           <Button variant="outline" onClick={() => setIsImportDialogOpen(false)}>Cancelar</Button>
-                          <Button onClick={processImport} disabled={!importFile}>Importar</Button>
+                          <Button onClick={processImport} disabled={!importFile || !!importActivity}>Revisar</Button>
                       </DialogFooter>
                   </DialogContent>
                 </Dialog>
-                <Button onClick={exportToCSV} variant="outline" className="w-full"><Download className="mr-2 h-4 w-4"/>Exportar</Button>
+                )}
+                <ExportMenu onExport={handleExport} />
             </div>
           </div>
         </CardHeader>
         <CardContent>
+          <ImportStatus collectionName="razones" className="mb-4" />
           <TooltipProvider>
             <ul className="space-y-2">
               {filteredAndSortedRazones.map((razon) => (
@@ -306,7 +306,7 @@ export default function ReasonsPage() {
                   <div className="flex items-center gap-3 flex-1 min-w-0">
                     <Tooltip>
                         <TooltipTrigger asChild>
-                            <Button type="button" size="icon" variant="ghost" onClick={() => handleToggleQuickReason(razon)} disabled={razon.isProtected}>
+                            <Button type="button" size="icon" variant="ghost" onClick={() => handleToggleQuickReason(razon)} disabled={razon.isProtected || !canWrite}>
                                 <Zap className={cn('h-5 w-5', razon.isQuickReason ? 'text-primary fill-primary' : 'text-muted-foreground', razon.isProtected && 'opacity-50 cursor-not-allowed')}/>
                             </Button>
                         </TooltipTrigger>
@@ -328,7 +328,9 @@ export default function ReasonsPage() {
                       </>
                     ) : (
                       <>
-                        <Button type="button" size="icon" variant="ghost" onClick={() => handleEdit(razon)} disabled={razon.isProtected}><Pencil className="h-4 w-4"/></Button>
+                        {canWrite && <Button type="button" size="icon" variant="ghost" onClick={() => handleEdit(razon)} disabled={razon.isProtected}><Pencil className="h-4 w-4"/></Button>}
+                        <HistoryDialog entityId={razon.id} title={razon.descripcion} />
+                        {canWrite && (
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button type="button" size="icon" variant="ghost" className="text-destructive" disabled={razon.isProtected}><Trash2 className="h-4 w-4"/></Button>
@@ -337,7 +339,7 @@ export default function ReasonsPage() {
                             <AlertDialogHeader>
                               <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
                               <AlertDialogDescription>
-                                Esta acción no se puede deshacer. Se eliminará permanentemente la razón "{razon.descripcion}".
+                                La razón "{razon.descripcion}" se moverá a la papelera, desde donde podrás restaurarla.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter>
@@ -346,6 +348,7 @@ export default function ReasonsPage() {
                             </AlertDialogFooter>
                           </AlertDialogContent>
                         </AlertDialog>
+                        )}
                       </>
                     )}
                   </div>
@@ -355,6 +358,14 @@ export default function ReasonsPage() {
           </TooltipProvider>
         </CardContent>
       </Card>
+      <ImportPreviewDialog
+        preview={importPreview}
+        title="Vista previa de razones"
+        columns={IMPORT_COLUMNS}
+        check={checkImportRows}
+        onCancel={() => setImportPreview(null)}
+        onCommit={commitImport}
+      />
     </div>
   );
 }
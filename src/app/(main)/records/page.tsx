@@ -7,83 +7,163 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useState, useMemo, useRef, useEffect } from 'react';
-import { format, parse, isValid, startOfDay } from 'date-fns';
+import { format, isValid, startOfDay } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { cn, parseCsvLine } from '@/lib/utils';
-import { Download, Loader2, Upload, Tag, User, Calendar as CalendarIcon, Pencil, Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { centsToDecimalString, fromCents, signedCents, toCents } from '@/lib/money';
+import { formatRecordDate, LEGACY_RECORD_DATE_FORMAT, normalizeRecordDate, parseRecordDate, toRecordDate } from '@/lib/dates';
+import { cn, normalizeName, toMillis } from '@/lib/utils';
+import { Loader2, Upload, Tag, User, Calendar as CalendarIcon, Pencil, Trash2, History, ChevronLeft, ChevronRight } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useRecentRecords, useRecordPages } from '@/hooks/use-financial-records';
+import { fetchAllRecords, sumRecords } from '@/lib/data';
+import { downloadCsv } from '@/lib/csv';
+import { downloadXlsx } from '@/lib/xlsx';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
+import { UpdateConflictError, type EntityInput } from '@/lib/repositories';
+import { describeReplacement, readImportFile, tableRows, type CsvTable, type ImportedRecord, type ImportRow, type RowCheck } from '@/lib/import-preview';
+import { parseAmountWith, parseDateWith, type ValueFormat } from '@/lib/import-mapping';
+import { decodeStatement, parseStatement, STATEMENT_FILE_TYPES } from '@/lib/bank-statements';
+import { Checkbox } from '@/components/ui/checkbox';
 import type { FinancialRecord, Movimiento } from '@/types';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Autocomplete } from '@/components/Autocomplete';
+import { ExportMenu, type ExportFormat } from '@/components/ExportMenu';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { HistoryPanel } from '@/components/HistoryPanel';
+import { ImportStatus } from '@/components/ImportStatus';
+import { ImportPreviewDialog, type ImportPreviewState } from '@/components/ImportPreview';
+import { ColumnMappingDialog } from '@/components/ColumnMappingDialog';
+import { StatementImportDialog } from '@/components/StatementImportDialog';
+import { CurrencySelect } from '@/components/CurrencySelect';
+import { RecordConflictDialog, type RecordValues } from '@/components/RecordConflictDialog';
+import { useFormatMoney } from '@/contexts/PrivacyProvider';
 
 
 const DESCRIPTION_MAX_LENGTH = 500;
+// Records fetched from the server per request; the table paginates them further.
+const FETCH_PAGE_SIZE = 100;
+const MOVIMIENTOS: Movimiento[] = ['INGRESOS', 'GASTOS', 'INVERSION'];
+
+const IMPORT_COLUMNS = [
+  { key: 'fecha', label: 'Fecha' },
+  { key: 'integrantenombre', label: 'Integrante' },
+  { key: 'movimiento', label: 'Movimiento' },
+  { key: 'razondescripcion', label: 'Razón' },
+  { key: 'descripcion', label: 'Descripción' },
+  { key: 'monto', label: 'Monto' },
+  { key: 'moneda', label: 'Moneda' },
+];
 
 const recordSchema = z.object({
-  id: z.string().optional(),
   fecha: z.date({ required_error: 'La fecha es requerida.' }),
   integranteId: z.string().min(1, 'El integrante es requerido.'),
   razonId: z.string().min(1, 'La razón es requerida.'),
   movimiento: z.enum(['INGRESOS', 'GASTOS', 'INVERSION'], { required_error: 'El movimiento es requerido.' }),
   monto: z.coerce.number().positive('El monto debe ser un número positivo.'),
+  moneda: z.string().min(1, 'La moneda es requerida.'),
   descripcion: z.string().max(DESCRIPTION_MAX_LENGTH, `La descripción no puede exceder los ${DESCRIPTION_MAX_LENGTH} caracteres.`).optional(),
 });
 
 type RecordFormData = z.infer<typeof recordSchema>;
 
-const parseDate = (dateStr: string) => parse(dateStr, 'dd/MM/yyyy', new Date());
-
 const RecordsForm = ({ record, onFinished }: { record?: FinancialRecord, onFinished?: () => void }) => {
-  const { razones, integrantes, addFinancialRecord, updateFinancialRecord, financialRecords, recordDates } = useAppContext();
+  const { razones, integrantes, addFinancialRecord, updateFinancialRecord, baseCurrency } = useAppContext();
+  const { recordDates, descriptionOptions: uniqueDescriptionOptions } = useRecentRecords();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // The version being edited; saving is refused if the stored record no longer matches it.
+  const loadedRecord = useRef(record);
+  const [conflict, setConflict] = useState<{ mine: RecordValues; server: FinancialRecord } | null>(null);
+
   const form = useForm<RecordFormData>({
     resolver: zodResolver(recordSchema),
   });
 
   const watchedDescription = form.watch('descripcion');
 
+  const loadRecord = (source: FinancialRecord) => {
+    loadedRecord.current = source;
+    const parsedDate = parseRecordDate(source.fecha);
+    form.reset({
+      ...source,
+      fecha: isValid(parsedDate) ? parsedDate : new Date(),
+      monto: fromCents(Math.abs(source.monto)), // Always show positive amount in form
+      moneda: source.moneda || baseCurrency,
+    });
+  };
+
+  // Only a different record reloads the form: live updates of the one being edited must not
+  // wipe what the user typed. They are caught as a conflict when saving.
   useEffect(() => {
     if (record) {
-      const parsedDate = record.fecha ? parseDate(record.fecha) : new Date();
-      form.reset({
-        ...record,
-        fecha: isValid(parsedDate) ? parsedDate : new Date(),
-        monto: Math.abs(record.monto), // Always show positive amount in form
-      });
+      loadRecord(record);
     } else {
        form.reset({
         fecha: new Date(),
         movimiento: 'INGRESOS',
         descripcion: '',
         monto: '' as any,
+        moneda: baseCurrency,
         integranteId: '',
         razonId: '',
       });
     }
-  }, [record, form]);
+  }, [record?.id, form, baseCurrency]);
+
+  const saveChanges = async (id: string, values: RecordValues, expectedUpdatedAt: number) => {
+    try {
+      await updateFinancialRecord(id, values, expectedUpdatedAt);
+    } catch (error) {
+      if (error instanceof UpdateConflictError) {
+        setConflict({ mine: values, server: error.current as FinancialRecord });
+        return;
+      }
+      throw error;
+    }
+    setConflict(null);
+    toast({ title: 'Éxito', description: 'Registro actualizado correctamente.' });
+    onFinished?.();
+  };
+
+  const resolveConflict = async (values: RecordValues) => {
+    if (!record?.id || !conflict) return;
+    try {
+      await saveChanges(record.id, values, toMillis(conflict.server.updatedAt));
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: 'No se pudo actualizar el registro.' });
+    }
+  };
+
+  const takeServerVersion = () => {
+    if (!conflict) return;
+    loadRecord(conflict.server);
+    setConflict(null);
+    toast({ title: 'Versión guardada cargada', description: 'El formulario muestra ahora los últimos cambios guardados.' });
+  };
 
   const onSubmit = async (values: RecordFormData) => {
     setIsSubmitting(true);
     try {
-      const recordData = {
-        ...values,
-        fecha: format(values.fecha, 'dd/MM/yyyy'),
+      const recordData: RecordValues = {
+        fecha: toRecordDate(values.fecha),
+        integranteId: values.integranteId,
+        razonId: values.razonId,
+        movimiento: values.movimiento,
+        monto: toCents(values.monto),
+        moneda: values.moneda,
         descripcion: values.descripcion || '',
       };
       
       if(record?.id) {
-        await updateFinancialRecord(record.id, recordData);
-        toast({ title: 'Éxito', description: 'Registro actualizado correctamente.' });
+        await saveChanges(record.id, recordData, toMillis(loadedRecord.current?.updatedAt));
       } else {
         await addFinancialRecord(recordData);
         toast({ title: 'Éxito', description: 'Registro agregado correctamente.' });
@@ -94,8 +174,8 @@ const RecordsForm = ({ record, onFinished }: { record?: FinancialRecord, onFinis
             monto: '' as any,
             descripcion: ''
         });
+        onFinished?.();
       }
-      onFinished?.();
     } catch (error) {
       toast({ variant: 'destructive', title: 'Error', description: `No se pudo ${record?.id ? 'actualizar' : 'agregar'} el registro.` });
     } finally {
@@ -103,11 +183,6 @@ const RecordsForm = ({ record, onFinished }: { record?: FinancialRecord, onFinis
     }
   };
   
-  const uniqueDescriptionOptions = useMemo(() => {
-    const descriptions = new Set(financialRecords.map(r => r.descripcion).filter(Boolean));
-    return Array.from(descriptions).map(d => ({ value: d, label: d }));
-  }, [financialRecords]);
-
   const integranteOptions = useMemo(() => 
     integrantes.map(i => ({ value: i.id, label: i.nombre })), 
   [integrantes]);
@@ -176,7 +251,12 @@ const RecordsForm = ({ record, onFinished }: { record?: FinancialRecord, onFinis
                   </FormItem>)} />
 
                 <FormField control={form.control} name="monto" render={({ field }) => (
-                    <FormItem><FormLabel>Monto</FormLabel><FormControl><Input type="number" placeholder="0.00" {...field} value={field.value || ''} /></FormControl><FormMessage /></FormItem>)} />
+                    <FormItem><FormLabel>Monto</FormLabel>
+                      <div className="flex gap-2">
+                        <FormControl><Input type="number" step="0.01" placeholder="0.00" {...field} value={field.value || ''} /></FormControl>
+                        <CurrencySelect value={form.watch('moneda')} onChange={(value) => form.setValue('moneda', value, { shouldValidate: true })} className="w-28" />
+                      </div>
+                    <FormMessage /></FormItem>)} />
                 
                 <FormField
                   control={form.control}
@@ -213,26 +293,65 @@ const RecordsForm = ({ record, onFinished }: { record?: FinancialRecord, onFinis
           </form>
         </Form>
       </CardContent>
+      {conflict && loadedRecord.current && (
+        <RecordConflictDialog
+          base={loadedRecord.current}
+          mine={conflict.mine}
+          server={conflict.server}
+          onTakeServer={takeServerVersion}
+          onResolve={resolveConflict}
+        />
+      )}
     </Card>
   );
 }
 
 const EditRecordDialog = ({ record }: { record: FinancialRecord }) => {
+    const { integrantes, razones, trash, can } = useAppContext();
+    const formatAmount = useFormatMoney();
     const [open, setOpen] = useState(false);
+    const canWrite = can('write');
+
+    const formatHistoryValue = (field: string, value: unknown) => {
+        if (field === 'integranteId') return [...integrantes, ...trash.integrantes].find(i => i.id === value)?.nombre;
+        if (field === 'razonId') return [...razones, ...trash.razones].find(r => r.id === value)?.descripcion;
+        if (field === 'fecha' && typeof value === 'string') return formatRecordDate(normalizeRecordDate(value));
+        if (field === 'monto' && typeof value === 'number') return formatAmount(value, record.moneda);
+        return undefined;
+    };
+
     return (
         <Dialog open={open} onOpenChange={setOpen}>
             <DialogTrigger asChild>
-                <Button size="icon" variant="ghost"><Pencil className="h-4 w-4" /></Button>
+                <Button size="icon" variant="ghost" aria-label={canWrite ? 'Editar' : 'Historial'}>
+                    {canWrite ? <Pencil className="h-4 w-4" /> : <History className="h-4 w-4" />}
+                </Button>
             </DialogTrigger>
             <DialogContent className="sm:max-w-[625px]">
-                <RecordsForm record={record} onFinished={() => setOpen(false)} />
+                <DialogHeader className="sr-only">
+                    <DialogTitle>Editar Registro</DialogTitle>
+                    <DialogDescription>Modifica el registro o consulta su historial de cambios.</DialogDescription>
+                </DialogHeader>
+                {/* Members without write access only get the history. */}
+                <Tabs defaultValue={canWrite ? 'edit' : 'history'}>
+                    <TabsList className="grid w-full grid-cols-2">
+                        <TabsTrigger value="edit" disabled={!canWrite}>Editar</TabsTrigger>
+                        <TabsTrigger value="history">Historial</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="edit">
+                        {canWrite && <RecordsForm record={record} onFinished={() => setOpen(false)} />}
+                    </TabsContent>
+                    <TabsContent value="history">
+                        <HistoryPanel entityId={record.id} formatValue={formatHistoryValue} />
+                    </TabsContent>
+                </Tabs>
             </DialogContent>
         </Dialog>
     );
 };
 
 const DeleteRecordAlert = ({ recordId, recordDesc }: { recordId: string; recordDesc: string; }) => {
-    const { deleteFinancialRecord } = useAppContext();
+    const { deleteFinancialRecord, can } = useAppContext();
     const { toast } = useToast();
 
     const handleDelete = async () => {
@@ -243,6 +362,7 @@ const DeleteRecordAlert = ({ recordId, recordDesc }: { recordId: string; recordD
             toast({ variant: 'destructive', title: 'Error', description: 'No se pudo eliminar el registro.' });
         }
     };
+    if (!can('write')) return null;
     return (
         <AlertDialog>
             <AlertDialogTrigger asChild>
@@ -252,7 +372,7 @@ const DeleteRecordAlert = ({ recordId, recordDesc }: { recordId: string; recordD
                 <AlertDialogHeader>
                     <AlertDialogTitle>¿Estás absolutamente seguro?</AlertDialogTitle>
                     <AlertDialogDescription>
-                        Esta acción no se puede deshacer. Se eliminará permanentemente el registro: "{recordDesc}".
+                        El registro "{recordDesc}" se moverá a la papelera, desde donde podrás restaurarlo.
                     </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
@@ -265,14 +385,14 @@ const DeleteRecordAlert = ({ recordId, recordDesc }: { recordId: string; recordD
 }
 
 const RecordCard = ({ record, getIntegranteName, getRazonDesc }: { record: FinancialRecord; getIntegranteName: (id: string) => string; getRazonDesc: (id: string) => string }) => {
+    const formatAmount = useFormatMoney();
     const movimientoColors: { [key in Movimiento]: string } = {
         'INGRESOS': 'border-l-green-500',
         'GASTOS': 'border-l-red-500',
         'INVERSION': 'border-l-amber-500'
     };
     
-    const recordDate = record.fecha ? parseDate(record.fecha) : null;
-    const formattedDate = recordDate && isValid(recordDate) ? format(recordDate, 'dd MMMM yyyy', { locale: es }) : 'Fecha inválida';
+    const formattedDate = formatRecordDate(record.fecha, 'dd MMMM yyyy');
     const monto = typeof record.monto === 'number' ? record.monto : 0;
 
 
@@ -287,7 +407,7 @@ const RecordCard = ({ record, getIntegranteName, getRazonDesc }: { record: Finan
                     </div>
                 </div>
                  <div className={cn('font-mono font-bold text-lg', monto >= 0 ? 'text-green-500' : 'text-red-500')}>
-                    {monto.toLocaleString('es-MX', { style: 'currency', currency: 'MXN' })}
+                    {formatAmount(monto, record.moneda)}
                 </div>
                 <div className="text-sm text-muted-foreground space-y-2">
                     <div className="flex items-center gap-2"><Tag className="w-4 h-4" /> <span>{getRazonDesc(record.razonId)} ({record.movimiento})</span></div>
@@ -299,8 +419,9 @@ const RecordCard = ({ record, getIntegranteName, getRazonDesc }: { record: Finan
     );
 };
 
-const RecordsTable = ({ records }: { records: FinancialRecord[] }) => {
-  const { integrantes, razones, importFinancialRecords } = useAppContext();
+const RecordsTable = () => {
+  const { integrantes, razones, importFinancialRecords, findImportDuplicates, importActivity, baseCurrency, can, activeLedger } = useAppContext();
+  const formatAmount = useFormatMoney();
   const { toast } = useToast();
   const [filter, setFilter] = useState('');
   const [filterField, setFilterField] = useState('descripcion');
@@ -309,34 +430,37 @@ const RecordsTable = ({ records }: { records: FinancialRecord[] }) => {
   const [importFile, setImportFile] = useState<File | null>(null);
   const [importMode, setImportMode] = useState<'add' | 'replace'>('add');
   const importFileInputRef = useRef<HTMLInputElement>(null);
+  const [createMissing, setCreateMissing] = useState(false);
+  const [importSource, setImportSource] = useState<'template' | 'mapped' | 'statement'>('template');
+  const [mappingTable, setMappingTable] = useState<CsvTable | null>(null);
+  const [statementText, setStatementText] = useState<string | null>(null);
+  const [importPreview, setImportPreview] = useState<(ImportPreviewState & { createMissing: boolean; format?: ValueFormat }) | null>(null);
 
   const [currentPage, setCurrentPage] = useState(1);
   const [recordsPerPage, setRecordsPerPage] = useState(20);
 
   const getIntegranteName = (id: string) => integrantes.find((i) => i.id === id)?.nombre || 'N/A';
   const getRazonDesc = (id: string) => razones.find((r) => r.id === id)?.descripcion || 'N/A';
-  
-  const filteredRecords = useMemo(() => {
-    const sortedRecords = [...records].sort((a, b) => {
-        const dateA = a.fecha ? parseDate(a.fecha).getTime() : 0;
-        const dateB = b.fecha ? parseDate(b.fecha).getTime() : 0;
-        if (dateB !== dateA) return dateB - dateA;
-        return (b.createdAt || 0) - (a.createdAt || 0);
-    });
 
-    if (!filter) return sortedRecords;
-    return sortedRecords.filter((record) => {
-      let fieldValue = '';
-      switch (filterField) {
-        case 'descripcion': fieldValue = record.descripcion; break;
-        case 'integrante': fieldValue = getIntegranteName(record.integranteId); break;
-        case 'razon': fieldValue = getRazonDesc(record.razonId); break;
-        case 'fecha': fieldValue = record.fecha; break;
-        default: fieldValue = record.descripcion;
-      }
-      return fieldValue.toLowerCase().includes(filter.toLowerCase());
-    });
-  }, [filter, filterField, records, integrantes, razones]);
+  // A complete date in the date filter is queried on the server; other filters apply to the loaded pages.
+  const filterDate = filterField === 'fecha' ? normalizeRecordDate(filter) : null;
+  const range = useMemo(() => filterDate ? { from: filterDate, to: filterDate } : undefined, [filterDate]);
+  const { records, hasMore, loading: recordsLoading, loadMore } = useRecordPages(range, FETCH_PAGE_SIZE);
+
+  const matchesFilter = (record: FinancialRecord) => {
+    if (!filter) return true;
+    let fieldValue = '';
+    switch (filterField) {
+      case 'descripcion': fieldValue = record.descripcion; break;
+      case 'integrante': fieldValue = getIntegranteName(record.integranteId); break;
+      case 'razon': fieldValue = getRazonDesc(record.razonId); break;
+      case 'fecha': fieldValue = formatRecordDate(record.fecha, LEGACY_RECORD_DATE_FORMAT); break;
+      default: fieldValue = record.descripcion;
+    }
+    return fieldValue.toLowerCase().includes(filter.toLowerCase());
+  };
+
+  const filteredRecords = useMemo(() => records.filter(matchesFilter), [filter, filterField, records, integrantes, razones]);
 
   useEffect(() => {
     setCurrentPage(1);
@@ -347,27 +471,61 @@ const RecordsTable = ({ records }: { records: FinancialRecord[] }) => {
     return filteredRecords.slice(startIndex, startIndex + recordsPerPage);
   }, [currentPage, recordsPerPage, filteredRecords]);
 
-  const totalPages = Math.ceil(filteredRecords.length / recordsPerPage);
-
-  const exportToCSV = () => {
-    const headers = ['fecha', 'integranteNombre', 'movimiento', 'razonDescripcion', 'descripcion', 'monto'];
-    const rows = filteredRecords.map(r => [
-      r.fecha,
-      `"${getIntegranteName(r.integranteId).replace(/"/g, '""')}"`,
-      r.movimiento,
-      `"${getRazonDesc(r.razonId).replace(/"/g, '""')}"`,
-      `"${r.descripcion.replace(/"/g, '""')}"`,
-      r.monto
-    ].join(','));
-    const csvContent = "data:text/csv;charset=utf-8," + [headers.join(','), ...rows].join('\n');
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", "registros_financieros.csv");
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    toast({ title: 'Éxito', description: 'Registros exportados a CSV.' });
+  const totalPages = Math.max(1, Math.ceil(filteredRecords.length / recordsPerPage));
+
+  // A filter may match nothing in the page that was just loaded.
+  useEffect(() => {
+    if (currentPage > totalPages) setCurrentPage(totalPages);
+  }, [currentPage, totalPages]);
+
+  const goToNextPage = async () => {
+    if (currentPage >= totalPages) await loadMore();
+    setCurrentPage(p => p + 1);
+  };
+
+  const handleExport = async (format: ExportFormat, passphrase?: string) => {
+    if (!activeLedger) return;
+    let exportedRecords: FinancialRecord[];
+    try {
+      exportedRecords = (await fetchAllRecords(activeLedger.ledgerId, range)).filter(matchesFilter);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: 'No se pudieron obtener los registros para exportar.' });
+      return;
+    }
+    const headers = ['fecha', 'integranteNombre', 'movimiento', 'razonDescripcion', 'descripcion', 'monto', 'moneda'];
+    try {
+      if (format === 'xlsx') {
+        await downloadXlsx('registros_financieros.xlsx', [{
+          name: 'Registros',
+          headers,
+          rows: exportedRecords.map(r => [
+            { fecha: r.fecha },
+            getIntegranteName(r.integranteId),
+            r.movimiento,
+            getRazonDesc(r.razonId),
+            r.descripcion,
+            { cents: r.monto, currency: r.moneda || baseCurrency },
+            r.moneda || baseCurrency
+          ]),
+        }], { passphrase });
+      } else {
+        await downloadCsv('registros_financieros.csv', [
+          headers,
+          ...exportedRecords.map(r => [
+            formatRecordDate(r.fecha, LEGACY_RECORD_DATE_FORMAT),
+            getIntegranteName(r.integranteId),
+            r.movimiento,
+            getRazonDesc(r.razonId),
+            r.descripcion,
+            centsToDecimalString(r.monto),
+            r.moneda || baseCurrency
+          ]),
+        ], { passphrase });
+      }
+      toast({ title: 'Éxito', description: `Registros exportados a ${format === 'xlsx' ? 'Excel' : 'CSV'}${passphrase ? ' cifrado' : ''}.` });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: 'No se pudo generar el archivo.' });
+    }
   };
   
   const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -377,101 +535,165 @@ const RecordsTable = ({ records }: { records: FinancialRecord[] }) => {
     }
   };
 
-  const processImport = () => {
+  const openPreview = async (rows: ImportRow[], format?: ValueFormat) => {
+    let replaceSummary: string | undefined;
+    if (importMode === 'replace' && activeLedger) {
+        const { count } = await sumRecords(activeLedger.ledgerId, {});
+        replaceSummary = describeReplacement(count, 'registro(s) existentes');
+    }
+    setImportPreview({ rows, mode: importMode, replaceSummary, createMissing, format });
+  };
+
+  const continueToPreview = async (rows: ImportRow[], format?: ValueFormat) => {
+    setMappingTable(null);
+    setStatementText(null);
+    try {
+      await openPreview(rows, format);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Un error desconocido ocurrió.';
+      toast({ variant: 'destructive', title: 'Error de importación', description: message });
+    }
+  };
+
+  const processImport = async () => {
     if (!importFile) {
         toast({ variant: 'destructive', title: 'Error', description: 'Por favor, selecciona un archivo.' });
         return;
     }
-
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-        const text = e.target?.result;
-        if (typeof text !== 'string') {
-            toast({ variant: 'destructive', title: 'Error', description: 'No se pudo leer el archivo.' });
+    try {
+        if (importSource === 'statement') {
+            const text = decodeStatement(await importFile.arrayBuffer());
+            // Parsed here only to report unreadable files; the dialog parses it again with its options.
+            parseStatement(text);
+            setStatementText(text);
             return;
         }
-        try {
-            const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
-            if (lines.length < 2) {
-              throw new Error('El archivo CSV está vacío o solo contiene la cabecera.');
-            }
-
-            const headers = parseCsvLine(lines[0]).map(h => h.trim().toLowerCase());
-            
-            const requiredHeaders = ['fecha', 'integrantenombre', 'movimiento', 'razondescripcion', 'descripcion', 'monto'];
-            const missingHeaders = requiredHeaders.filter(h => !headers.includes(h));
-            if (missingHeaders.length > 0) {
-              throw new Error(`Faltan las siguientes columnas en el CSV: ${missingHeaders.join(', ')}`);
-            }
-            
-            const recordsToImport: Omit<FinancialRecord, 'id' | 'userId'| 'createdAt' | 'updatedAt'>[] = [];
-            const errors: string[] = [];
-
-            const integranteMap = new Map(integrantes.map(i => [i.nombre.toLowerCase(), i.id]));
-            const razonMap = new Map(razones.map(r => [r.descripcion.toLowerCase(), r.id]));
-            const headerMap = headers.reduce((acc, h, i) => {
-              acc[h.replace(/\s/g, '')] = i;
-              return acc;
-            }, {} as Record<string, number>);
-
-
-            for (let i = 1; i < lines.length; i++) {
-                const values = parseCsvLine(lines[i]);
-                if (values.length < headers.length) {
-                    errors.push(`Línea ${i + 1}: El número de columnas (${values.length}) no coincide con el de las cabeceras (${headers.length}).`);
-                    continue;
-                }
-                const row = {
-                  fecha: values[headerMap['fecha']],
-                  integranteNombre: values[headerMap['integrantenombre']],
-                  movimiento: values[headerMap['movimiento']],
-                  razonDescripcion: values[headerMap['razondescripcion']],
-                  descripcion: values[headerMap['descripcion']],
-                  monto: values[headerMap['monto']]
-                };
-
-                if (row.descripcion && row.descripcion.length > DESCRIPTION_MAX_LENGTH) {
-                    errors.push(`Línea ${i + 1}: La descripción excede los ${DESCRIPTION_MAX_LENGTH} caracteres.`);
-                    continue;
-                }
-
-                const integranteId = integranteMap.get(row.integranteNombre?.toLowerCase());
-                const razonId = razonMap.get(row.razonDescripcion?.toLowerCase());
-                
-                if (!integranteId) { errors.push(`Línea ${i + 1}: No se encontró el integrante "${row.integranteNombre}".`); continue; }
-                if (!razonId) { errors.push(`Línea ${i + 1}: No se encontró la razón "${row.razonDescripcion}".`); continue; }
-                
-                recordsToImport.push({
-                    fecha: row.fecha,
-                    integranteId: integranteId,
-                    razonId: razonId,
-                    movimiento: row.movimiento as Movimiento,
-                    descripcion: row.descripcion,
-                    monto: parseFloat(row.monto)
-                });
-            }
-            
-            if (errors.length > 0) {
-              throw new Error(errors.join(' '));
-            }
-
-            if (recordsToImport.length > 0) {
-                await importFinancialRecords(recordsToImport, importMode);
-                toast({ title: 'Éxito', description: `Importación completa.` });
-            } else {
-                toast({ title: 'Información', description: 'No se encontraron nuevos registros para importar.' });
-            }
-
-        } catch (error) {
-            const message = error instanceof Error ? error.message : 'Un error desconocido ocurrió.';
-            toast({ variant: 'destructive', title: 'Error de importación', description: `No se pudo procesar el archivo CSV. ${message}`, duration: 8000 });
-        } finally {
-            setImportFile(null);
-            if (importFileInputRef.current) importFileInputRef.current.value = '';
-            setIsImportDialogOpen(false);
+        const table = await readImportFile(importFile);
+        if (importSource === 'mapped') {
+            setMappingTable(table);
+        } else {
+            await openPreview(tableRows(table, ['fecha', 'integrantenombre', 'movimiento', 'razondescripcion', 'descripcion', 'monto']));
         }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Un error desconocido ocurrió.';
+        toast({ variant: 'destructive', title: 'Error de importación', description: `No se pudo procesar el archivo. ${message}`, duration: 8000 });
+    } finally {
+        setImportFile(null);
+        if (importFileInputRef.current) importFileInputRef.current.value = '';
+        setIsImportDialogOpen(false);
+    }
+  };
+
+  // Reports every problem of the row, not only the first one. Unknown members and reasons are
+  // errors unless the import creates them. Mapped files bring their own date and amount format.
+  const parseImportRow = (
+    { values }: ImportRow,
+    { integranteIds, razonIds, createMissing, format }: {
+      integranteIds: Map<string, string>;
+      razonIds: Map<string, string>;
+      createMissing: boolean;
+      format?: ValueFormat;
+    },
+    messages: string[],
+    notes: string[]
+  ): ImportedRecord | null => {
+    const fecha = parseDateWith(values.fecha, format);
+    if (!fecha) messages.push(`La fecha "${values.fecha}" no es válida. Usa ${format?.dateFormat ?? 'dd/MM/yyyy o yyyy-MM-dd'}.`);
+
+    // Spreadsheets often spell it "INVERSIÓN".
+    const movimiento = normalizeName(values.movimiento).toUpperCase() as Movimiento;
+    if (!MOVIMIENTOS.includes(movimiento)) messages.push(`El movimiento "${values.movimiento}" no es válido. Usa ${MOVIMIENTOS.join(', ')}.`);
+
+    const integranteId = integranteIds.get(normalizeName(values.integrantenombre));
+    const newIntegrante = !integranteId && createMissing && values.integrantenombre ? values.integrantenombre : undefined;
+    if (newIntegrante) notes.push(`Se creará el integrante "${newIntegrante}".`);
+    else if (!integranteId) messages.push(`No se encontró el integrante "${values.integrantenombre}".`);
+
+    const razonId = razonIds.get(normalizeName(values.razondescripcion));
+    const newRazon = !razonId && createMissing && values.razondescripcion ? values.razondescripcion : undefined;
+    if (newRazon) notes.push(`Se creará la razón "${newRazon}".`);
+    else if (!razonId) messages.push(`No se encontró la razón "${values.razondescripcion}".`);
+
+    if (values.descripcion.length > DESCRIPTION_MAX_LENGTH) messages.push(`La descripción excede los ${DESCRIPTION_MAX_LENGTH} caracteres.`);
+
+    const monto = parseAmountWith(values.monto, format);
+    if (monto === null) messages.push(`El monto "${values.monto}" no es válido.`);
+
+    // Optional column; files exported before multi-currency support are in the base currency.
+    const moneda = (values.moneda ?? '').toUpperCase();
+    if (moneda && !/^[A-Z]{3}$/.test(moneda)) messages.push(`La moneda "${moneda}" no es un código válido (p. ej. MXN, USD).`);
+
+    if (!fecha || monto === null || messages.length > 0) return null;
+    return {
+      fecha,
+      integranteId: integranteId ?? '',
+      razonId: razonId ?? '',
+      movimiento,
+      descripcion: values.descripcion,
+      monto,
+      moneda: moneda || baseCurrency,
+      newIntegrante,
+      newRazon,
     };
-    reader.readAsText(importFile);
+  };
+
+  const describeRecord = (record: Pick<FinancialRecord, 'fecha' | 'integranteId' | 'razonId' | 'descripcion' | 'movimiento' | 'monto' | 'moneda'>) =>
+    `${formatRecordDate(record.fecha)} · ${getIntegranteName(record.integranteId)} · ${getRazonDesc(record.razonId)}${record.descripcion ? ` · ${record.descripcion}` : ''} · ${formatAmount(signedCents(record.movimiento, record.monto), record.moneda)}`;
+
+  // In "add" mode valid rows are also compared with the ledger: identical records are left out
+  // and near-duplicates are only imported if the user ticks them.
+  const checkImportRows = async (rows: ImportRow[]): Promise<RowCheck<ImportedRecord>[]> => {
+    const integranteIds = new Map(integrantes.map(i => [normalizeName(i.nombre), i.id]));
+    const razonIds = new Map(razones.map(r => [normalizeName(r.descripcion), r.id]));
+    const options = { integranteIds, razonIds, createMissing: !!importPreview?.createMissing, format: importPreview?.format };
+    const checks = rows.map((row): RowCheck<ImportedRecord> => {
+      const messages: string[] = [];
+      const notes: string[] = [];
+      const item = parseImportRow(row, options, messages, notes);
+      if (!item) return { status: 'error', item: null, messages, importable: false };
+      return { status: notes.length > 0 ? 'create' : 'valid', item, messages: notes, importable: true };
+    });
+    if (importPreview?.mode !== 'add') return checks;
+
+    // Records of members or reasons that do not exist yet cannot be in the ledger already.
+    const known = checks.flatMap(rowCheck => rowCheck.status === 'valid' && rowCheck.item ? [rowCheck.item] : []);
+    const report = await findImportDuplicates(known);
+    const exact = new Set(report.exact);
+    const near = new Map(report.near.map(({ record, matches }) => [record, matches]));
+    return checks.map((rowCheck): RowCheck<ImportedRecord> => {
+      if (!rowCheck.item) return rowCheck;
+      if (exact.has(rowCheck.item)) return { ...rowCheck, status: 'duplicate', messages: ['Idéntico a un registro existente.'], importable: false };
+      const matches = near.get(rowCheck.item);
+      if (!matches) return rowCheck;
+      return { ...rowCheck, status: 'duplicate', messages: matches.map(match => `Parecido a: ${describeRecord(match)}`) };
+    });
+  };
+
+  // Lists the members and reasons the accepted rows will create, once each.
+  const summarizeNewEntries = (items: ImportedRecord[]) => {
+    const unique = (names: (string | undefined)[]) => Array.from(
+      new Map(names.filter((name): name is string => !!name).map(name => [normalizeName(name), name])).values()
+    );
+    const newIntegrantes = unique(items.map(item => item.newIntegrante));
+    const newRazones = unique(items.map(item => item.newRazon));
+    const parts = [
+      newIntegrantes.length > 0 && `${newIntegrantes.length} integrante(s): ${newIntegrantes.join(', ')}`,
+      newRazones.length > 0 && `${newRazones.length} razón(es): ${newRazones.join(', ')}`,
+    ].filter(Boolean);
+    return parts.length > 0 ? `Se crearán ${parts.join(' y ')}.` : null;
+  };
+
+  const commitImport = async (items: ImportedRecord[]) => {
+    if (!importPreview) return;
+    try {
+      await importFinancialRecords(items, importPreview.mode);
+      toast({ title: 'Éxito', description: `${items.length} registro(s) importado(s).` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Un error desconocido ocurrió.';
+      toast({ variant: 'destructive', title: 'Error de importación', description: message, duration: 8000 });
+    } finally {
+      setImportPreview(null);
+    }
   };
   
   const PaginationControls = () => (
@@ -486,10 +708,11 @@ const RecordsTable = ({ records }: { records: FinancialRecord[] }) => {
             </Select>
         </div>
         <div className="flex items-center gap-4">
-            <span className="text-sm text-muted-foreground">Página {currentPage} de {totalPages}</span>
+            {/* The total is unknown until every page has been loaded. */}
+            <span className="text-sm text-muted-foreground">Página {currentPage}{hasMore ? '' : ` de ${totalPages}`}</span>
             <div className='flex items-center gap-2'>
                 <Button variant="outline" size="icon" onClick={() => setCurrentPage(p => p - 1)} disabled={currentPage === 1}><ChevronLeft /></Button>
-                <Button variant="outline" size="icon" onClick={() => setCurrentPage(p => p + 1)} disabled={currentPage === totalPages}><ChevronRight /></Button>
+                <Button variant="outline" size="icon" onClick={goToNextPage} disabled={recordsLoading || (currentPage === totalPages && !hasMore)}><ChevronRight /></Button>
             </div>
         </div>
     </div>
@@ -501,7 +724,10 @@ const RecordsTable = ({ records }: { records: FinancialRecord[] }) => {
       <Card>
         <CardHeader>
           <CardTitle>Historial de Registros</CardTitle>
-          <CardDescription>Consulta y filtra todos los movimientos financieros.</CardDescription>
+          <CardDescription>
+            Consulta y filtra todos los movimientos financieros.
+            {filter && !filterDate && hasMore && ' La búsqueda cubre los registros cargados; avanza de página para buscar en más.'}
+          </CardDescription>
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 pt-4">
              <div className="flex flex-col sm:flex-row gap-2 flex-1">
                 <Select value={filterField} onValueChange={setFilterField}>
@@ -518,23 +744,37 @@ const RecordsTable = ({ records }: { records: FinancialRecord[] }) => {
                 <Input placeholder="Buscar..." value={filter} onChange={(e) => setFilter(e.target.value)} className="w-full" />
             </div>
             <div className="grid grid-cols-2 gap-2 sm:flex sm:w-auto">
+              {can('write') && (
               <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
                 <DialogTrigger asChild>
                     <Button variant="outline" className="w-full"><Upload className="mr-2 h-4 w-4"/>Importar</Button>
                 </DialogTrigger>
                 <DialogContent>
                     <DialogHeader>
-                        <DialogTitle>Importar Registros desde CSV</DialogTitle>
+                        <DialogTitle>Importar Registros desde CSV o Excel</DialogTitle>
                          <DialogDescription>
-                              El archivo CSV debe contener las columnas: fecha, integranteNombre, movimiento, razonDescripcion, descripcion, monto.
+                              El archivo CSV o .xlsx debe contener las columnas: fecha, integranteNombre, movimiento, razonDescripcion, descripcion, monto. La columna moneda es opcional. También puedes importar estados de cuenta bancarios en OFX, QIF o CAMT.053.
                           </DialogDescription>
                     </DialogHeader>
                     <div className="space-y-4 py-4">
                         <div className="grid w-full max-w-sm items-center gap-1.5">
-                            <Label htmlFor="csv-file">Archivo CSV</Label>
-                            <Input id="csv-file" type="file" accept=".csv" onChange={handleFileSelected} ref={importFileInputRef} />
+                            <Label htmlFor="csv-file">Archivo</Label>
+                            <Input id="csv-file" type="file" accept={importSource === 'statement' ? STATEMENT_FILE_TYPES : '.csv,.xlsx'} onChange={handleFileSelected} ref={importFileInputRef} />
                             {importFile && <p className="text-sm text-muted-foreground">Archivo seleccionado: {importFile.name}</p>}
                         </div>
+                        <div>
+                           <Label>Formato del archivo</Label>
+                           <Select value={importSource} onValueChange={(v) => setImportSource(v as 'template' | 'mapped' | 'statement')}>
+                               <SelectTrigger className="mt-2">
+                                   <SelectValue />
+                               </SelectTrigger>
+                               <SelectContent>
+                                   <SelectItem value="template">Plantilla de esta aplicación</SelectItem>
+                                   <SelectItem value="mapped">Otro archivo (asignar columnas)</SelectItem>
+                                   <SelectItem value="statement">Estado de cuenta bancario (OFX, QIF, CAMT.053)</SelectItem>
+                               </SelectContent>
+                           </Select>
+                        </div>
                         <div>
                            <Label>Modo de Importación</Label>
                            <Select value={importMode} onValueChange={(v) => setImportMode(v as 'add' | 'replace')}>
@@ -547,18 +787,27 @@ const RecordsTable = ({ records }: { records: FinancialRecord[] }) => {
                                </SelectContent>
                            </Select>
                         </div>
+                        <div className="flex items-start gap-2">
+                           <Checkbox id="create-missing" checked={createMissing} onCheckedChange={(checked) => setCreateMissing(checked === true)} className="mt-0.5" />
+                           <Label htmlFor="create-missing" className="font-normal leading-snug">
+                               Crear los integrantes y razones que no existan. Los nombres se comparan sin distinguir mayúsculas ni acentos.
+                           </Label>
+                        </div>
                     </div>
+                    <ImportStatus collectionName="financialRecords" />
                     <DialogFooter>
                         <Button variant="outline" onClick={() => setIsImportDialogOpen(false)}>Cancelar</Button>
-                        <Button onClick={processImport} disabled={!importFile}>Importar</Button>
+                        <Button onClick={processImport} disabled={!importFile || !!importActivity}>Revisar</Button>
                     </DialogFooter>
                 </DialogContent>
               </Dialog>
-              <Button onClick={exportToCSV} variant="outline" className="w-full"><Download className="mr-2 h-4 w-4"/>Exportar</Button>
+              )}
+              <ExportMenu onExport={handleExport} />
             </div>
           </div>
         </CardHeader>
         <CardContent>
+            <ImportStatus collectionName="financialRecords" className="mb-4" />
             <PaginationControls />
             {/* Mobile View: Cards */}
             <div className="md:hidden mt-4">
@@ -567,7 +816,7 @@ const RecordsTable = ({ records }: { records: FinancialRecord[] }) => {
                       <RecordCard key={record.id} record={record} getIntegranteName={getIntegranteName} getRazonDesc={getRazonDesc} />
                   ))
               ) : (
-                  <div className="text-center py-8 text-muted-foreground">No hay registros que mostrar.</div>
+                  <div className="text-center py-8 text-muted-foreground">{recordsLoading ? 'Cargando registros...' : 'No hay registros que mostrar.'}</div>
               )}
             </div>
 
@@ -589,8 +838,7 @@ const RecordsTable = ({ records }: { records: FinancialRecord[] }) => {
                         <TableBody>
                         {paginatedRecords.length > 0 ? (
                             paginatedRecords.map((record) => {
-                                const recordDate = record.fecha ? parseDate(record.fecha) : null;
-                                const formattedDate = recordDate && isValid(recordDate) ? format(recordDate, 'dd MMM yyyy', { locale: es }) : 'Fecha inválida';
+                                const formattedDate = formatRecordDate(record.fecha);
                                 const monto = typeof record.monto === 'number' ? record.monto : 0;
                                 return (
                                 <TableRow key={record.id}>
@@ -600,7 +848,7 @@ const RecordsTable = ({ records }: { records: FinancialRecord[] }) => {
                                     <TableCell>{getRazonDesc(record.razonId)}</TableCell>
                                     <TableCell>{record.descripcion || '-'}</TableCell>
                                     <TableCell className={cn('text-right font-mono', monto >= 0 ? 'text-green-500' : 'text-red-500')}>
-                                    {monto.toLocaleString('es-MX', { style: 'currency', currency: 'MXN' })}
+                                    {formatAmount(monto, record.moneda)}
                                     </TableCell>
                                     <TableCell className="text-right">
                                         <div className="flex justify-end items-center">
@@ -612,7 +860,7 @@ const RecordsTable = ({ records }: { records: FinancialRecord[] }) => {
                                 );
                             })
                         ) : (
-                            <TableRow><TableCell colSpan={7} className="text-center">No hay registros que mostrar.</TableCell></TableRow>
+                            <TableRow><TableCell colSpan={7} className="text-center">{recordsLoading ? 'Cargando registros...' : 'No hay registros que mostrar.'}</TableCell></TableRow>
                         )}
                         </TableBody>
                     </Table>
@@ -621,13 +869,24 @@ const RecordsTable = ({ records }: { records: FinancialRecord[] }) => {
              <PaginationControls />
         </CardContent>
       </Card>
+      <ColumnMappingDialog table={mappingTable} onCancel={() => setMappingTable(null)} onConfirm={continueToPreview} />
+      <StatementImportDialog text={statementText} onCancel={() => setStatementText(null)} onConfirm={(rows) => continueToPreview(rows)} />
+      <ImportPreviewDialog
+        preview={importPreview}
+        title="Vista previa de registros"
+        columns={IMPORT_COLUMNS}
+        check={checkImportRows}
+        summarize={summarizeNewEntries}
+        onCancel={() => setImportPreview(null)}
+        onCommit={commitImport}
+      />
     </>
   );
 };
 
 
 export default function RecordsPage() {
-    const { financialRecords, loading } = useAppContext();
+    const { loading, can } = useAppContext();
     const { loading: authLoading } = useAppContext();
 
     if (loading || authLoading) {
@@ -639,8 +898,8 @@ export default function RecordsPage() {
       }
     return (
         <div className="space-y-6">
-            <RecordsForm />
-            <RecordsTable records={financialRecords} />
+            {can('write') && <RecordsForm />}
+            <RecordsTable />
         </div>
     );
 }
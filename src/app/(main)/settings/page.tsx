@@ -0,0 +1,178 @@
+'use client';
+
+import { useState } from 'react';
+import { useAppContext } from '@/contexts/AppProvider';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { DatePicker } from '@/components/DatePicker';
+import { CurrencySelect } from '@/components/CurrencySelect';
+import { BackupCard } from '@/components/BackupCard';
+import { AppLockCard } from '@/components/AppLockCard';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useExchangeRates } from '@/hooks/use-exchange-rates';
+import { useForeignCurrencies } from '@/hooks/use-financial-records';
+import { formatRecordDate, toRecordDate } from '@/lib/dates';
+import { SUPPORTED_CURRENCIES } from '@/lib/money';
+import type { ExchangeRate } from '@/types';
+
+export default function SettingsPage() {
+  const { loading, baseCurrency, setBaseCurrency, addExchangeRate, deleteExchangeRate, can } = useAppContext();
+  const canEdit = can('settings');
+  const { toast } = useToast();
+  const [rateDate, setRateDate] = useState<Date | undefined>(new Date());
+  const [rateCurrency, setRateCurrency] = useState(SUPPORTED_CURRENCIES.find(c => c !== baseCurrency) ?? 'USD');
+  const [rateValue, setRateValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const foreignCurrencies = useForeignCurrencies();
+  // Every rate is listed here, so this screen reads them all.
+  const { rates: exchangeRates } = useExchangeRates();
+
+  const handleBaseCurrencyChange = async (currency: string) => {
+    try {
+      await setBaseCurrency(currency);
+      toast({ title: 'Éxito', description: `Moneda base cambiada a ${currency}.` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'No se pudo cambiar la moneda base.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  const handleAddRate = async () => {
+    const tasa = parseFloat(rateValue.replace(',', '.'));
+    if (!rateDate || isNaN(tasa)) {
+      toast({ variant: 'destructive', title: 'Error', description: 'Indica la fecha y el tipo de cambio.' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await addExchangeRate({ fecha: toRecordDate(rateDate), moneda: rateCurrency, tasa });
+      toast({ title: 'Éxito', description: 'Tipo de cambio guardado.' });
+      setRateValue('');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'No se pudo guardar el tipo de cambio.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteRate = async (rate: ExchangeRate) => {
+    try {
+      await deleteExchangeRate(rate);
+      toast({ title: 'Éxito', description: 'Tipo de cambio eliminado.' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'No se pudo eliminar el tipo de cambio.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-[calc(100vh-10rem)]">
+        <Loader2 className="h-16 w-16 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl md:text-3xl font-bold tracking-tight">Configuración</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Moneda Base</CardTitle>
+          <CardDescription>Los totales del inicio, el panel financiero y las gráficas se convierten a esta moneda.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid w-full max-w-sm items-center gap-1.5">
+            <Label>Moneda base</Label>
+            {canEdit ? (
+              <CurrencySelect value={baseCurrency} onChange={handleBaseCurrencyChange} />
+            ) : (
+              <p className="font-medium">{baseCurrency}</p>
+            )}
+          </div>
+          {foreignCurrencies.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-3">
+              Hay registros en {foreignCurrencies.join(', ')}. Necesitan un tipo de cambio a {baseCurrency} para sumarse a los totales.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tipos de Cambio</CardTitle>
+          <CardDescription>
+            Cada registro usa el tipo de cambio más reciente con fecha igual o anterior a la suya. Un tipo de cambio también se aplica en sentido inverso.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {canEdit && (
+          <div className="grid gap-4 md:grid-cols-4 items-end">
+            <div className="grid gap-1.5">
+              <Label>Fecha</Label>
+              <DatePicker date={rateDate} setDate={setRateDate} />
+            </div>
+            <div className="grid gap-1.5">
+              <Label>Moneda</Label>
+              <CurrencySelect value={rateCurrency} onChange={setRateCurrency} />
+            </div>
+            <div className="grid gap-1.5">
+              <Label>{`1 ${rateCurrency} = ? ${baseCurrency}`}</Label>
+              <Input type="number" step="any" min="0" placeholder="0.0000" value={rateValue} onChange={(e) => setRateValue(e.target.value)} />
+            </div>
+            <Button onClick={handleAddRate} disabled={isSaving || !rateValue}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              Guardar
+            </Button>
+          </div>
+          )}
+
+          {exchangeRates.length > 0 ? (
+            <ul className="space-y-2">
+              {exchangeRates.map(rate => (
+                <li key={rate.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg gap-2">
+                  <div>
+                    <p className="font-medium">1 {rate.moneda} = {rate.tasa} {rate.monedaBase}</p>
+                    <p className="text-xs text-muted-foreground">Desde el {formatRecordDate(rate.fecha)}</p>
+                  </div>
+                  {canEdit && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button size="icon" variant="ghost" className="text-destructive" aria-label="Eliminar"><Trash2 className="h-4 w-4"/></Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>¿Eliminar tipo de cambio?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Los registros de esa fecha usarán el tipo de cambio anterior, si existe.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDeleteRate(rate)}>Sí, eliminar</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="text-center py-6 text-muted-foreground">No hay tipos de cambio registrados.</div>
+          )}
+        </CardContent>
+      </Card>
+
+      <BackupCard />
+
+      <AppLockCard />
+    </div>
+  );
+}
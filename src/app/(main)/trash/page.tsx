@@ -0,0 +1,209 @@
+'use client';
+
+import { useAppContext } from '@/contexts/AppProvider';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toMillis } from '@/lib/utils';
+import { formatRecordDate } from '@/lib/dates';
+import { useFormatMoney } from '@/contexts/PrivacyProvider';
+import type { TrashCollectionName } from '@/lib/repositories';
+import type { BaseEntity } from '@/types';
+
+const RETENTION_OPTIONS = [
+  { value: '7', label: '7 días' },
+  { value: '30', label: '30 días' },
+  { value: '90', label: '90 días' },
+  { value: '365', label: '1 año' },
+  { value: 'never', label: 'Nunca' },
+];
+
+type TrashRow = { id: string; title: string; subtitle?: string; deletedAt: number };
+
+const getDeletedAt = (entity: BaseEntity) => toMillis(entity.deletedAt ?? entity.updatedAt);
+
+export default function TrashPage() {
+  const { trash, integrantes, razones, loading, restoreFromTrash, purgeFromTrash, trashRetentionDays, setTrashRetentionDays, can } = useAppContext();
+  const canRestore = can('write');
+  const canPurge = can('purge');
+  const formatAmount = useFormatMoney();
+  const { toast } = useToast();
+
+  const allIntegrantes = [...integrantes, ...trash.integrantes];
+  const allRazones = [...razones, ...trash.razones];
+  const getIntegranteName = (id: string) => allIntegrantes.find(i => i.id === id)?.nombre || 'N/A';
+  const getRazonDesc = (id: string) => allRazones.find(r => r.id === id)?.descripcion || 'N/A';
+
+  const sections: { key: TrashCollectionName; label: string; rows: TrashRow[] }[] = [
+    {
+      key: 'financialRecords',
+      label: 'Registros',
+      rows: trash.financialRecords.map(r => ({
+        id: r.id,
+        title: r.descripcion || `${getRazonDesc(r.razonId)} (${r.movimiento})`,
+        subtitle: `${formatRecordDate(r.fecha)} · ${getIntegranteName(r.integranteId)} · ${formatAmount(r.monto, r.moneda)}`,
+        deletedAt: getDeletedAt(r),
+      })),
+    },
+    {
+      key: 'integrantes',
+      label: 'Integrantes',
+      rows: trash.integrantes.map(i => ({ id: i.id, title: i.nombre, deletedAt: getDeletedAt(i) })),
+    },
+    {
+      key: 'razones',
+      label: 'Razones',
+      rows: trash.razones.map(r => ({ id: r.id, title: r.descripcion, deletedAt: getDeletedAt(r) })),
+    },
+  ];
+
+  const handleRestore = async (collectionName: TrashCollectionName, id: string) => {
+    try {
+      await restoreFromTrash(collectionName, id);
+      toast({ title: 'Éxito', description: 'Elemento restaurado.' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'No se pudo restaurar el elemento.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  const handlePurge = async (collectionName: TrashCollectionName, ids: string[]) => {
+    try {
+      await purgeFromTrash(collectionName, ids);
+      toast({ title: 'Éxito', description: ids.length === 1 ? 'Elemento eliminado definitivamente.' : 'Papelera vaciada.' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'No se pudo eliminar definitivamente.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  const handleRetentionChange = (value: string) => {
+    setTrashRetentionDays(value === 'never' ? null : parseInt(value, 10));
+    toast({ title: 'Éxito', description: 'Política de vaciado actualizada.' });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-[calc(100vh-10rem)]">
+        <Loader2 className="h-16 w-16 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl md:text-3xl font-bold tracking-tight">Papelera</h1>
+
+      {canPurge && (
+      <Card>
+        <CardHeader>
+          <CardTitle>Vaciado Automático</CardTitle>
+          <CardDescription>Los elementos que lleven más tiempo en la papelera se eliminan definitivamente.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid w-full max-w-sm items-center gap-1.5">
+            <Label>Eliminar después de</Label>
+            <Select value={trashRetentionDays === null ? 'never' : String(trashRetentionDays)} onValueChange={handleRetentionChange}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {RETENTION_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Elementos Eliminados</CardTitle>
+          <CardDescription>Restaura o elimina definitivamente registros, integrantes y razones.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="financialRecords">
+            <TabsList className="grid w-full grid-cols-3">
+              {sections.map(section => (
+                <TabsTrigger key={section.key} value={section.key}>{section.label} ({section.rows.length})</TabsTrigger>
+              ))}
+            </TabsList>
+            {sections.map(section => (
+              <TabsContent key={section.key} value={section.key} className="space-y-4 pt-2">
+                {section.rows.length > 0 ? (
+                  <>
+                    {canPurge && (
+                    <div className="flex justify-end">
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" className="text-destructive"><Trash2 className="mr-2 h-4 w-4"/>Vaciar {section.label.toLowerCase()}</Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>¿Vaciar la papelera?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Esta acción no se puede deshacer. Se eliminarán definitivamente {section.rows.length} elementos de {section.label.toLowerCase()}.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handlePurge(section.key, section.rows.map(row => row.id))}>Sí, vaciar</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                    )}
+                    <ul className="space-y-2">
+                      {section.rows.map(row => (
+                        <li key={row.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg gap-2">
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">{row.title}</p>
+                            {row.subtitle && <p className="text-xs text-muted-foreground truncate">{row.subtitle}</p>}
+                            <p className="text-xs text-muted-foreground">
+                              Eliminado el {row.deletedAt ? format(new Date(row.deletedAt), "dd MMM yyyy, HH:mm", { locale: es }) : 'fecha desconocida'}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {canRestore && <Button size="icon" variant="ghost" onClick={() => handleRestore(section.key, row.id)} aria-label="Restaurar"><RotateCcw className="h-4 w-4"/></Button>}
+                            {canPurge && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button size="icon" variant="ghost" className="text-destructive" aria-label="Eliminar definitivamente"><Trash2 className="h-4 w-4"/></Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>¿Eliminar definitivamente?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Esta acción no se puede deshacer. Se eliminará permanentemente "{row.title}".
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handlePurge(section.key, [row.id])}>Sí, eliminar</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">La papelera está vacía.</div>
+                )}
+              </TabsContent>
+            ))}
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
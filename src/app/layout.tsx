@@ -3,9 +3,11 @@ import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
 import './globals.css';
 import { ThemeProvider } from '@/components/ThemeProvider';
+import { PrivacyProvider } from '@/contexts/PrivacyProvider';
 import { AppProvider } from '@/contexts/AppProvider';
 import { Toaster } from '@/components/ui/toaster';
 import { AuthProvider } from '@/contexts/AuthProvider';
+import { AppLockProvider } from '@/contexts/AppLockProvider';
 
 const inter = Inter({ subsets: ['latin'], variable: '--font-inter' });
 
@@ -24,12 +26,16 @@ export default function RootLayout({
     <html lang="es" suppressHydrationWarning>
       <body className={`${inter.variable} font-body antialiased`}>
         <ThemeProvider>
-          <AuthProvider>
-            <AppProvider>
-              {children}
-              <Toaster />
-            </AppProvider>
-          </AuthProvider>
+          <PrivacyProvider>
+            <AuthProvider>
+              <AppLockProvider>
+                <AppProvider>
+                  {children}
+                  <Toaster />
+                </AppProvider>
+              </AppLockProvider>
+            </AuthProvider>
+          </PrivacyProvider>
         </ThemeProvider>
       </body>
     </html>
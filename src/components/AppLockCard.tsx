@@ -0,0 +1,165 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { KeyRound, Loader2, Lock, LockOpen } from 'lucide-react';
+import { useAppLock } from '@/contexts/AppLockProvider';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_LOCK_OPTIONS, IDLE_TIMEOUT_OPTIONS, isValidPin, MAX_PIN_LENGTH, MIN_PIN_LENGTH } from '@/lib/app-lock';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+
+type PinAction = 'enable' | 'change' | 'disable';
+
+const PIN_DIALOG_TEXT: Record<PinAction, { title: string; description: string; confirm: string }> = {
+  enable: { title: 'Activar bloqueo', description: 'Elige el PIN que se pedirá para desbloquear la aplicación en este dispositivo.', confirm: 'Activar' },
+  change: { title: 'Cambiar PIN', description: 'Escribe el PIN actual y el nuevo.', confirm: 'Cambiar' },
+  disable: { title: 'Desactivar bloqueo', description: 'Escribe el PIN actual para quitar el bloqueo.', confirm: 'Desactivar' },
+};
+
+const PinInput = ({ id, label, value, onChange, autoFocus }: { id: string; label: string; value: string; onChange: (value: string) => void; autoFocus?: boolean }) => (
+  <div className="space-y-2">
+    <Label htmlFor={id}>{label}</Label>
+    <Input
+      id={id}
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      maxLength={MAX_PIN_LENGTH}
+      value={value}
+      onChange={(e) => onChange(e.target.value.replace(/\D/g, ''))}
+      autoFocus={autoFocus}
+    />
+  </div>
+);
+
+// Asks for the PINs an action needs. Errors, like a wrong current PIN, are shown in the dialog.
+const PinDialog = ({ action, onCancel, onConfirm }: { action: PinAction | null; onCancel: () => void; onConfirm: (currentPin: string, newPin: string) => Promise<void> }) => {
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    setCurrentPin('');
+    setNewPin('');
+    setConfirmation('');
+    setError(null);
+  }, [action]);
+
+  const asksCurrent = action === 'change' || action === 'disable';
+  const asksNew = action === 'enable' || action === 'change';
+  const problem = asksNew && newPin && !isValidPin(newPin)
+    ? `El PIN debe tener entre ${MIN_PIN_LENGTH} y ${MAX_PIN_LENGTH} dígitos.`
+    : asksNew && confirmation && confirmation !== newPin
+      ? 'Los PIN no coinciden.'
+      : null;
+  const canConfirm = (!asksCurrent || !!currentPin) && (!asksNew || (isValidPin(newPin) && confirmation === newPin));
+
+  const confirm = async () => {
+    if (!canConfirm) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      await onConfirm(currentPin, newPin);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo completar la operación.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const text = action ? PIN_DIALOG_TEXT[action] : null;
+
+  return (
+    <Dialog open={!!action} onOpenChange={(open) => { if (!open && !isWorking) onCancel(); }}>
+      {text && (
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{text.title}</DialogTitle>
+            <DialogDescription>{text.description}</DialogDescription>
+          </DialogHeader>
+          <form className="space-y-4 py-2" onSubmit={(e) => { e.preventDefault(); confirm(); }}>
+            {asksCurrent && <PinInput id="current-pin" label="PIN actual" value={currentPin} onChange={setCurrentPin} autoFocus />}
+            {asksNew && <PinInput id="new-pin" label={action === 'change' ? 'PIN nuevo' : 'PIN'} value={newPin} onChange={setNewPin} autoFocus={!asksCurrent} />}
+            {asksNew && <PinInput id="pin-confirmation" label="Repite el PIN" value={confirmation} onChange={setConfirmation} />}
+            {(error || problem) && <p className="text-sm text-destructive">{error ?? problem}</p>}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onCancel} disabled={isWorking}>Cancelar</Button>
+              <Button type="submit" disabled={!canConfirm || isWorking}>
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {text.confirm}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+};
+
+// Settings of the PIN lock. They belong to this device and account, not to the ledger.
+export function AppLockCard() {
+  const { isEnabled, options, enable, changePin, disable, setOptions, lock } = useAppLock();
+  const { toast } = useToast();
+  const [action, setAction] = useState<PinAction | null>(null);
+
+  const handleConfirm = async (currentPin: string, newPin: string) => {
+    if (action === 'enable') await enable(newPin, DEFAULT_LOCK_OPTIONS);
+    if (action === 'change') await changePin(currentPin, newPin);
+    if (action === 'disable') await disable(currentPin);
+    toast({ title: 'Éxito', description: action === 'disable' ? 'Bloqueo desactivado.' : action === 'change' ? 'PIN cambiado.' : 'Bloqueo activado.' });
+    setAction(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bloqueo con PIN</CardTitle>
+        <CardDescription>
+          Oculta la aplicación tras un tiempo sin uso en este dispositivo, sin cerrar la sesión. Útil en equipos compartidos.
+          La aplicación también se bloquea al abrirla de nuevo.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isEnabled ? (
+          <>
+            <div className="space-y-2">
+              <Label>Bloquear tras un tiempo sin uso</Label>
+              <Select
+                value={options.idleMinutes === null ? 'never' : String(options.idleMinutes)}
+                onValueChange={(value) => setOptions({ ...options, idleMinutes: value === 'never' ? null : Number(value) })}
+              >
+                <SelectTrigger className="w-full sm:w-60"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {IDLE_TIMEOUT_OPTIONS.map(option => (
+                    <SelectItem key={option.label} value={option.value === null ? 'never' : String(option.value)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="lock-on-hide" className="font-normal leading-snug">
+                Bloquear al cambiar de pestaña o de aplicación
+              </Label>
+              <Switch id="lock-on-hide" checked={options.lockOnHide} onCheckedChange={(checked) => setOptions({ ...options, lockOnHide: checked })} />
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button variant="outline" onClick={lock}><Lock className="mr-2 h-4 w-4" />Bloquear ahora</Button>
+              <Button variant="outline" onClick={() => setAction('change')}><KeyRound className="mr-2 h-4 w-4" />Cambiar PIN</Button>
+              <Button variant="outline" onClick={() => setAction('disable')}><LockOpen className="mr-2 h-4 w-4" />Desactivar</Button>
+            </div>
+          </>
+        ) : (
+          <Button variant="outline" onClick={() => setAction('enable')}><Lock className="mr-2 h-4 w-4" />Activar bloqueo</Button>
+        )}
+      </CardContent>
+      <PinDialog action={action} onCancel={() => setAction(null)} onConfirm={handleConfirm} />
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import * as AlertDialogPrimitive from '@radix-ui/react-alert-dialog';
+import { Loader2, Lock } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthProvider';
+import { useAppLock } from '@/contexts/AppLockProvider';
+import { MAX_PIN_LENGTH } from '@/lib/app-lock';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+// Covers the whole app while it is locked. The overlay blurs whatever is below it, open dialogs
+// and toasts included, and as a modal it keeps the keyboard and screen readers away from the page.
+export function AppLockScreen() {
+  const { user, isAuthEnabled } = useAuth();
+  const { isLocked, retryAt, unlock, forgetPin } = useAppLock();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!isLocked) return;
+    setPin('');
+    setError(null);
+  }, [isLocked]);
+
+  // Counts down the wait after too many wrong PINs.
+  useEffect(() => {
+    if (!retryAt) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [retryAt]);
+
+  const waitSeconds = retryAt && retryAt > now ? Math.ceil((retryAt - now) / 1000) : 0;
+
+  const handleUnlock = async () => {
+    if (!pin || waitSeconds > 0) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlock(pin);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo desbloquear.');
+      setPin('');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <AlertDialogPrimitive.Root open={isLocked}>
+      <AlertDialogPrimitive.Portal>
+        <AlertDialogPrimitive.Overlay className="fixed inset-0 z-[200] bg-background/60 backdrop-blur-2xl" />
+        <AlertDialogPrimitive.Content
+          className="fixed left-[50%] top-[50%] z-[201] w-[calc(100%-2rem)] max-w-xs translate-x-[-50%] translate-y-[-50%] rounded-lg border bg-card p-6 shadow-lg"
+          onEscapeKeyDown={(e) => e.preventDefault()}
+        >
+          <div className="flex flex-col items-center gap-2 text-center">
+            <div className="rounded-full bg-primary/10 p-3"><Lock className="h-6 w-6 text-primary" /></div>
+            <AlertDialogPrimitive.Title className="text-lg font-semibold">Aplicación bloqueada</AlertDialogPrimitive.Title>
+            <AlertDialogPrimitive.Description className="text-sm text-muted-foreground">
+              Escribe tu PIN para continuar{user?.email ? ` como ${user.email}` : ''}.
+            </AlertDialogPrimitive.Description>
+          </div>
+          <form className="mt-4 space-y-3" onSubmit={(e) => { e.preventDefault(); handleUnlock(); }}>
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              aria-label="PIN"
+              maxLength={MAX_PIN_LENGTH}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              className="text-center text-lg tracking-[0.5em]"
+              autoFocus
+            />
+            {(error || waitSeconds > 0) && (
+              <p className="text-sm text-center text-destructive">
+                {waitSeconds > 0 ? `Demasiados intentos. Espera ${waitSeconds} segundos.` : error}
+              </p>
+            )}
+            <Button type="submit" className="w-full" disabled={!pin || isUnlocking || waitSeconds > 0}>
+              {isUnlocking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Desbloquear
+            </Button>
+          </form>
+          {isAuthEnabled && (
+            <Button variant="link" className="mt-2 w-full text-xs text-muted-foreground" onClick={forgetPin}>
+              ¿Olvidaste el PIN? Cierra sesión y vuelve a entrar
+            </Button>
+          )}
+        </AlertDialogPrimitive.Content>
+      </AlertDialogPrimitive.Portal>
+    </AlertDialogPrimitive.Root>
+  );
+}
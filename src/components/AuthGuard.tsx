@@ -0,0 +1,47 @@
+'use client';
+import { useEffect } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthProvider';
+import { afterSignInPath, signInPath } from '@/lib/auth';
+import { Skeleton } from '@/components/ui/skeleton';
+
+// Stands in for the app while the session is being checked, with the shape of the real layout
+// so nothing jumps when it appears.
+const LoadingShell = () => (
+  <div className="min-h-screen bg-background" aria-busy="true" aria-label="Cargando">
+    <div className="h-16 border-b bg-card/80 flex items-center justify-between px-4">
+      <Skeleton className="h-6 w-20" />
+      <Skeleton className="h-8 w-8 rounded-full" />
+    </div>
+    <div className="flex">
+      <div className="hidden md:block w-64 lg:w-72 border-r p-4 space-y-3">
+        {Array.from({ length: 6 }, (_, i) => <Skeleton key={i} className="h-9 w-full" />)}
+      </div>
+      <div className="flex-1 container mx-auto p-4 sm:p-6 lg:p-8 space-y-4">
+        <Skeleton className="h-8 w-48" />
+        <div className="grid gap-4 md:grid-cols-3">
+          {Array.from({ length: 3 }, (_, i) => <Skeleton key={i} className="h-28" />)}
+        </div>
+        <Skeleton className="h-64" />
+      </div>
+    </div>
+  </div>
+);
+
+// Renders the app only for a signed-in user with a verified email. Anyone else is sent to the
+// sign-in page, which brings them back here afterwards.
+export function AuthGuard({ children }: { children: React.ReactNode }) {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const isAllowed = !!user && user.emailVerified;
+
+  useEffect(() => {
+    if (loading || isAllowed) return;
+    const current = `${pathname}${window.location.search}`;
+    router.replace(user ? afterSignInPath(user, current) : signInPath(current));
+  }, [loading, isAllowed, user, pathname, router]);
+
+  return isAllowed && !loading ? <>{children}</> : <LoadingShell />;
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { AlertTriangle, Download, KeyRound, Loader2, Upload } from 'lucide-react';
+import { useAppContext } from '@/contexts/AppProvider';
+import { useToast } from '@/hooks/use-toast';
+import type { BaseEntity } from '@/types';
+import { downloadBackup, parseBackup, type LedgerBackup, type RestoreChanges, type RestoreMode, type RestorePlan } from '@/lib/backup';
+import { decryptFile, ENCRYPTED_EXTENSION, isEncryptedFile } from '@/lib/encryption';
+import { downloadBlob } from '@/lib/files';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PassphraseDialog } from '@/components/PassphraseDialog';
+
+const countWithTrash = (items: { isDeleted?: boolean }[], noun: string) => {
+  const deleted = items.filter(item => item.isDeleted).length;
+  return `${items.length} ${noun}${deleted > 0 ? ` (${deleted} en la papelera)` : ''}`;
+};
+
+const describePlan = (plan: RestorePlan) => {
+  const collections: RestoreChanges<BaseEntity>[] = [plan.integrantes, plan.razones, plan.financialRecords];
+  const total = (pick: (changes: RestoreChanges<BaseEntity>) => number) =>
+    collections.reduce((sum, changes) => sum + pick(changes), 0);
+  const parts = [
+    `${total(c => c.added.length)} elemento(s) agregado(s)`,
+    `${total(c => c.replaced.length)} sobrescrito(s)`,
+    `${total(c => c.skipped)} ya existían`,
+  ];
+  const trashed = total(c => c.trashed.length);
+  if (trashed > 0) parts.push(`${trashed} movido(s) a la papelera`);
+  return `${parts.join(', ')}.`;
+};
+
+// Saves the whole ledger, trash included, as a JSON file and brings such a file back. Files
+// can be encrypted with a passphrase; encrypted exports from other pages are decrypted here too.
+export function BackupCard() {
+  const { activeLedger, can, createBackup, restoreBackup, importActivity } = useAppContext();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const decryptInputRef = useRef<HTMLInputElement>(null);
+  const [encrypt, setEncrypt] = useState(false);
+  const [isAskingPassphrase, setIsAskingPassphrase] = useState(false);
+  // An encrypted file waiting for its passphrase: a backup to restore, or any file to save decrypted.
+  const [encrypted, setEncrypted] = useState<{ text: string; purpose: 'restore' | 'save' } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [backup, setBackup] = useState<LedgerBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [remapIds, setRemapIds] = useState(false);
+
+  const fromOtherLedger = !!backup && backup.ledger.id !== activeLedger?.ledgerId;
+
+  const handleDownload = async (passphrase?: string) => {
+    setIsExporting(true);
+    try {
+      const created = await createBackup();
+      await downloadBackup(created, { passphrase });
+      toast({ title: 'Éxito', description: `Copia de seguridad${passphrase ? ' cifrada' : ''} descargada con ${created.financialRecords.length} registro(s).` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'No se pudo crear la copia de seguridad.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const openBackup = (text: string) => {
+    const parsed = parseBackup(text);
+    setBackup(parsed);
+    setMode('merge');
+    setRemapIds(parsed.ledger.id !== activeLedger?.ledgerId);
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const text = await file.text();
+      if (isEncryptedFile(text)) setEncrypted({ text, purpose: 'restore' });
+      else openBackup(text);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'No se pudo leer el archivo.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDecryptSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    if (decryptInputRef.current) decryptInputRef.current.value = '';
+    if (isEncryptedFile(text)) setEncrypted({ text, purpose: 'save' });
+    else toast({ variant: 'destructive', title: 'Error', description: 'El archivo no está cifrado.' });
+  };
+
+  // Errors are shown by the passphrase dialog, which stays open to try again.
+  const handleDecrypt = async (passphrase: string) => {
+    if (!encrypted) return;
+    const { blob, filename } = await decryptFile(encrypted.text, passphrase);
+    if (encrypted.purpose === 'restore') {
+      openBackup(await blob.text());
+    } else {
+      downloadBlob(filename, blob);
+      toast({ title: 'Éxito', description: `Archivo "${filename}" descifrado.` });
+    }
+    setEncrypted(null);
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setIsRestoring(true);
+    try {
+      const plan = await restoreBackup(backup, { mode, remapIds });
+      toast({ title: 'Éxito', description: `Copia de seguridad restaurada: ${describePlan(plan)}` });
+      setBackup(null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'No se pudo restaurar la copia de seguridad.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Copia de Seguridad</CardTitle>
+        <CardDescription>
+          Guarda en un archivo JSON todos los integrantes, razones y registros del libro, incluida la papelera, con sus identificadores y fechas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => encrypt ? setIsAskingPassphrase(true) : handleDownload()} disabled={isExporting}>
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Descargar copia
+          </Button>
+          {can('write') && (
+            <>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={!!importActivity}>
+                <Upload className="mr-2 h-4 w-4" />Restaurar copia
+              </Button>
+              <Input type="file" accept={`.json,${ENCRYPTED_EXTENSION},application/json`} className="hidden" ref={fileInputRef} onChange={handleFileSelected} />
+            </>
+          )}
+          <Button variant="outline" onClick={() => decryptInputRef.current?.click()}>
+            <KeyRound className="mr-2 h-4 w-4" />Descifrar archivo
+          </Button>
+          <Input type="file" accept={ENCRYPTED_EXTENSION} className="hidden" ref={decryptInputRef} onChange={handleDecryptSelected} />
+        </div>
+        <div className="flex items-start gap-2">
+          <Checkbox id="encrypt-backup" checked={encrypt} onCheckedChange={(checked) => setEncrypt(checked === true)} className="mt-0.5" />
+          <Label htmlFor="encrypt-backup" className="font-normal leading-snug">
+            Cifrar la copia con una contraseña. Se cifra en este dispositivo con AES-GCM; sin la contraseña no se puede leer ni restaurar.
+          </Label>
+        </div>
+      </CardContent>
+
+      <PassphraseDialog
+        open={isAskingPassphrase}
+        mode="encrypt"
+        title="Cifrar copia de seguridad"
+        description="Elige la contraseña que se pedirá para restaurar la copia."
+        onCancel={() => setIsAskingPassphrase(false)}
+        onConfirm={async (passphrase) => {
+          setIsAskingPassphrase(false);
+          await handleDownload(passphrase);
+        }}
+      />
+      <PassphraseDialog
+        open={!!encrypted}
+        mode="decrypt"
+        title="Archivo cifrado"
+        description={encrypted?.purpose === 'restore' ? 'Escribe la contraseña con la que se cifró la copia de seguridad.' : 'Escribe la contraseña con la que se cifró el archivo. Se guardará descifrado en este dispositivo.'}
+        onCancel={() => setEncrypted(null)}
+        onConfirm={handleDecrypt}
+      />
+
+      <Dialog open={!!backup} onOpenChange={(open) => { if (!open && !isRestoring) setBackup(null); }}>
+        {backup && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Restaurar copia de seguridad</DialogTitle>
+              <DialogDescription>
+                Copia del libro "{backup.ledger.nombre}" creada el {format(new Date(backup.createdAt), "dd MMM yyyy 'a las' HH:mm", { locale: es })}:
+                {' '}{countWithTrash(backup.integrantes, 'integrante(s)')}, {countWithTrash(backup.razones, 'razón(es)')} y {countWithTrash(backup.financialRecords, 'registro(s)')}.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-2">
+              <div className="space-y-2">
+                <Label>Modo de restauración</Label>
+                <Select value={mode} onValueChange={(v) => setMode(v as RestoreMode)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="merge">Combinar: agregar lo que falta en el libro</SelectItem>
+                    <SelectItem value="replace">Reemplazar: dejar el libro como en la copia</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-start gap-2">
+                <Checkbox id="remap-ids" checked={remapIds} disabled={fromOtherLedger} onCheckedChange={(checked) => setRemapIds(checked === true)} className="mt-0.5" />
+                <Label htmlFor="remap-ids" className="font-normal leading-snug">
+                  Asignar identificadores nuevos. Los integrantes y razones se reconocen por nombre y los registros por su contenido.
+                  {fromOtherLedger && ' Es obligatorio porque la copia es de otro libro.'}
+                </Label>
+              </div>
+              {mode === 'replace' && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Modo reemplazar</AlertTitle>
+                  <AlertDescription>
+                    {remapIds
+                      ? 'Todos los registros actuales y los integrantes y razones que no estén en la copia se moverán a la papelera.'
+                      : 'Los elementos de la copia sobrescribirán a los actuales y lo que no esté en la copia se moverá a la papelera.'}
+                    {' '}Los integrantes y razones protegidos se conservan.
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setBackup(null)} disabled={isRestoring}>Cancelar</Button>
+              <Button onClick={handleRestore} disabled={isRestoring}>
+                {isRestoring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Restaurar
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </Card>
+  );
+}
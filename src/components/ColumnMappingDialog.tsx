@@ -0,0 +1,252 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { useFormatMoney } from '@/contexts/PrivacyProvider';
+import { useToast } from '@/hooks/use-toast';
+import { useImportProfiles } from '@/hooks/use-import-profiles';
+import { formatRecordDate } from '@/lib/dates';
+import {
+  applyMapping,
+  DATE_FORMATS,
+  findProfileFor,
+  mappingProblems,
+  parseAmountWith,
+  parseDateWith,
+  suggestMapping,
+  type ColumnMapping,
+  type FixedField,
+  type MappedField,
+  type ValueFormat,
+} from '@/lib/import-mapping';
+import type { CsvTable, ImportRow } from '@/lib/import-preview';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// Radix selects cannot have an empty value.
+const NONE = '__none__';
+// Rows shown with the mapping applied, to check the formats before the full preview.
+const SAMPLE_ROWS = 3;
+
+const FIELDS: { field: MappedField; label: string; fixed?: boolean }[] = [
+  { field: 'fecha', label: 'Fecha' },
+  { field: 'monto', label: 'Monto' },
+  { field: 'descripcion', label: 'Descripción' },
+  { field: 'movimiento', label: 'Movimiento' },
+  { field: 'integrantenombre', label: 'Integrante', fixed: true },
+  { field: 'razondescripcion', label: 'Razón', fixed: true },
+  { field: 'moneda', label: 'Moneda', fixed: true },
+];
+
+type ColumnMappingDialogProps = {
+  table: CsvTable | null;
+  onCancel: () => void;
+  onConfirm: (rows: ImportRow[], format: ValueFormat) => void;
+};
+
+// Lets the user say which column of a foreign file holds each field of a record and how
+// its dates and amounts are written.
+export function ColumnMappingDialog({ table, onCancel, onConfirm }: ColumnMappingDialogProps) {
+  const { toast } = useToast();
+  const formatAmount = useFormatMoney();
+  const { profiles, saveProfile, deleteProfile } = useImportProfiles();
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [profileId, setProfileId] = useState<string>(NONE);
+  const [profileName, setProfileName] = useState('');
+
+  useEffect(() => {
+    if (!table) return;
+    const profile = findProfileFor(profiles, table.headers);
+    setMapping(profile?.mapping ?? suggestMapping(table.headers));
+    setProfileId(profile?.id ?? NONE);
+    setProfileName(profile?.nombre ?? '');
+  }, [table]);
+
+  const sample = useMemo(() => table && mapping
+    ? applyMapping({ ...table, rows: table.rows.slice(0, SAMPLE_ROWS) }, mapping)
+    : [], [table, mapping]);
+
+  if (!table || !mapping) return null;
+
+  const problems = mappingProblems(mapping);
+  const update = (changes: Partial<ColumnMapping>) => setMapping({ ...mapping, ...changes });
+  const setColumn = (field: MappedField, header: string) =>
+    update({ columns: { ...mapping.columns, [field]: header === NONE ? undefined : header } });
+  const setFixedValue = (field: FixedField, value: string) =>
+    update({ fixedValues: { ...mapping.fixedValues, [field]: value } });
+
+  const selectProfile = (id: string) => {
+    setProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (profile) {
+      setMapping(profile.mapping);
+      setProfileName(profile.nombre);
+    }
+  };
+
+  const handleSaveProfile = () => {
+    if (!profileName.trim()) {
+      toast({ variant: 'destructive', title: 'Error', description: 'Escribe un nombre para el perfil.' });
+      return;
+    }
+    const profile = saveProfile(profileName, mapping);
+    setProfileId(profile.id);
+    toast({ title: 'Éxito', description: `Perfil "${profile.nombre}" guardado.` });
+  };
+
+  const handleDeleteProfile = () => {
+    deleteProfile(profileId);
+    setProfileId(NONE);
+    setProfileName('');
+  };
+
+  const confirm = () => {
+    const { dateFormat, decimalSeparator, thousandsSeparator } = mapping;
+    onConfirm(applyMapping(table, mapping), { dateFormat, decimalSeparator, thousandsSeparator });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onCancel(); }}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Asignar columnas</DialogTitle>
+          <DialogDescription>
+            Indica qué columna del archivo corresponde a cada dato del registro y cómo están escritas las fechas y los montos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label>Perfil guardado</Label>
+              <Select value={profileId} onValueChange={selectProfile}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Sin perfil</SelectItem>
+                  {profiles.map(profile => <SelectItem key={profile.id} value={profile.id}>{profile.nombre}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="ghost" size="icon" onClick={handleDeleteProfile} disabled={profileId === NONE} aria-label="Eliminar perfil">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {FIELDS.map(({ field, label, fixed }) => (
+              <div key={field} className="space-y-2">
+                <Label>{label}</Label>
+                <Select value={mapping.columns[field] ?? NONE} onValueChange={(v) => setColumn(field, v)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Sin columna</SelectItem>
+                    {table.headers.filter(Boolean).map(header => <SelectItem key={header} value={header}>{header}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                {fixed && !mapping.columns[field] && (
+                  <Input
+                    placeholder="Valor para todas las filas"
+                    value={mapping.fixedValues[field as FixedField] ?? ''}
+                    onChange={(e) => setFixedValue(field as FixedField, e.target.value)}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Formato de fecha</Label>
+              <Select value={mapping.dateFormat} onValueChange={(v) => update({ dateFormat: v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {DATE_FORMATS.map(dateFormat => <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Separador decimal</Label>
+              <Select value={mapping.decimalSeparator} onValueChange={(v) => update({ decimalSeparator: v as ColumnMapping['decimalSeparator'] })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=".">Punto (1234.56)</SelectItem>
+                  <SelectItem value=",">Coma (1234,56)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Separador de miles</Label>
+              <Select value={mapping.thousandsSeparator || NONE} onValueChange={(v) => update({ thousandsSeparator: (v === NONE ? '' : v) as ColumnMapping['thousandsSeparator'] })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Ninguno</SelectItem>
+                  <SelectItem value=",">Coma (1,234)</SelectItem>
+                  <SelectItem value=".">Punto (1.234)</SelectItem>
+                  <SelectItem value=" ">Espacio (1 234)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Movimiento</Label>
+            <Select value={mapping.movement} onValueChange={(v) => update({ movement: v as ColumnMapping['movement'] })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="column">Columna con INGRESOS, GASTOS o INVERSION</SelectItem>
+                <SelectItem value="sign">Signo del monto (negativo es gasto)</SelectItem>
+                <SelectItem value="indicator">Columna de cargo/abono</SelectItem>
+              </SelectContent>
+            </Select>
+            {mapping.movement === 'indicator' && (
+              <Input
+                placeholder="Valores que indican un cargo, separados por comas"
+                value={mapping.debitValues}
+                onChange={(e) => update({ debitValues: e.target.value })}
+              />
+            )}
+          </div>
+
+          <div className="space-y-1 rounded-md border p-3 text-sm">
+            <p className="font-medium">Primeras filas</p>
+            {sample.map(({ line, values }) => {
+              const fecha = parseDateWith(values.fecha, mapping);
+              const monto = parseAmountWith(values.monto, mapping);
+              return (
+                <p key={line} className="text-muted-foreground">
+                  Línea {line}: {fecha ? formatRecordDate(fecha) : `fecha inválida ("${values.fecha}")`}
+                  {' · '}{monto !== null ? formatAmount(monto, /^[A-Za-z]{3}$/.test(values.moneda) ? values.moneda.toUpperCase() : undefined) : `monto inválido ("${values.monto}")`}
+                  {' · '}{values.movimiento || 'sin movimiento'}
+                </p>
+              );
+            })}
+          </div>
+
+          {problems.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-destructive">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="profile-name">Guardar como perfil</Label>
+              <Input id="profile-name" placeholder="p. ej. Banco, cuenta de cheques" value={profileName} onChange={(e) => setProfileName(e.target.value)} />
+            </div>
+            <Button variant="outline" onClick={handleSaveProfile} disabled={problems.length > 0}>
+              <Save className="mr-2 h-4 w-4" />Guardar
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancelar</Button>
+          <Button onClick={confirm} disabled={problems.length > 0}>Continuar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
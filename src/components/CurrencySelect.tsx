@@ -0,0 +1,26 @@
+'use client';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SUPPORTED_CURRENCIES } from '@/lib/money';
+
+interface CurrencySelectProps {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+export function CurrencySelect({ value, onChange, className }: CurrencySelectProps) {
+  // Keep codes that are not in the default list (e.g. from an import) selectable.
+  const currencies = SUPPORTED_CURRENCIES.includes(value) || !value ? SUPPORTED_CURRENCIES : [...SUPPORTED_CURRENCIES, value];
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Moneda" />
+      </SelectTrigger>
+      <SelectContent>
+        {currencies.map(currency => (
+          <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
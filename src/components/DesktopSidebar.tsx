@@ -3,7 +3,7 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Home, Zap, PieChart, BookCopy, Users, HelpCircle, X } from 'lucide-react';
+import { Home, Zap, PieChart, BookCopy, Users, HelpCircle, Trash2, Settings, BookUser, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from './ui/button';
 import { useTheme } from './ThemeProvider';
@@ -16,6 +16,9 @@ const navItems = [
   { href: '/records', label: 'Gestión de Registros', icon: BookCopy },
   { href: '/members', label: 'Gestión de Integrantes', icon: Users },
   { href: '/reasons', label: 'Razones', icon: HelpCircle },
+  { href: '/ledger', label: 'Libro y Miembros', icon: BookUser },
+  { href: '/trash', label: 'Papelera', icon: Trash2 },
+  { href: '/settings', label: 'Configuración', icon: Settings },
 ];
 
 type DesktopSidebarProps = {
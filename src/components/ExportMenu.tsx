@@ -0,0 +1,61 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { PassphraseDialog } from '@/components/PassphraseDialog';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+type ExportMenuProps = {
+  // Expected to report its own errors; the passphrase is set when the file must be encrypted.
+  onExport: (format: ExportFormat, passphrase?: string) => Promise<void>;
+};
+
+// The "Exportar" button of the list pages, with the option to encrypt the file.
+export function ExportMenu({ onExport }: ExportMenuProps) {
+  const [encrypt, setEncrypt] = useState(false);
+  const [pendingFormat, setPendingFormat] = useState<ExportFormat | null>(null);
+
+  const choose = (format: ExportFormat) => {
+    if (encrypt) setPendingFormat(format);
+    else onExport(format);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="w-full"><Download className="mr-2 h-4 w-4"/>Exportar</Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => choose('csv')}>CSV</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => choose('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuCheckboxItem checked={encrypt} onCheckedChange={setEncrypt} onSelect={(e) => e.preventDefault()}>
+            Cifrar con contraseña
+          </DropdownMenuCheckboxItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <PassphraseDialog
+        open={pendingFormat !== null}
+        mode="encrypt"
+        title="Cifrar archivo"
+        description="El archivo solo podrá abrirse con esta contraseña, descifrándolo desde Configuración › Copia de seguridad."
+        onCancel={() => setPendingFormat(null)}
+        onConfirm={async (passphrase) => {
+          if (pendingFormat) await onExport(pendingFormat, passphrase);
+          setPendingFormat(null);
+        }}
+      />
+    </>
+  );
+}
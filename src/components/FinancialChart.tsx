@@ -15,10 +15,13 @@ import {
   YAxis,
   Cell,
 } from 'recharts';
+import { DEFAULT_CURRENCY, MASKED_AMOUNT } from '@/lib/money';
+import { usePrivacy } from '@/contexts/PrivacyProvider';
 
 type ChartProps = {
   chartType: 'line' | 'bar' | 'pie';
   data: { name: string; ingresos: number; gastos: number; inversion: number }[];
+  currency?: string;
 };
 
 const COLORS = {
@@ -27,7 +30,12 @@ const COLORS = {
   inversion: '#f59e0b', // amber-500
 };
 
-export function FinancialChart({ chartType, data }: ChartProps) {
+export function FinancialChart({ chartType, data, currency = DEFAULT_CURRENCY }: ChartProps) {
+  const { privacyMode } = usePrivacy();
+  const formatValue = (value: number) => privacyMode ? MASKED_AMOUNT : new Intl.NumberFormat('es-MX', { style: 'currency', currency }).format(value);
+  // In privacy mode the axis keeps its gridlines but not its figures.
+  const formatTick = (value: number) => privacyMode ? '' : `$${value}`;
+
   const pieData = [
     { name: 'Ingresos', value: data.reduce((sum, item) => sum + item.ingresos, 0) },
     { name: 'Gastos', value: data.reduce((sum, item) => sum + item.gastos, 0) },
@@ -42,8 +50,8 @@ export function FinancialChart({ chartType, data }: ChartProps) {
           <BarChart data={data}>
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis dataKey="name" fontSize={12} tickLine={false} axisLine={false} />
-            <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `$${value}`} />
-            <Tooltip formatter={(value: number) => new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value)} />
+            <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={formatTick} />
+            <Tooltip formatter={(value: number) => formatValue(value)} />
             <Legend />
             <Bar dataKey="ingresos" fill={COLORS.ingresos} name="Ingresos" radius={[4, 4, 0, 0]} />
             <Bar dataKey="gastos" fill={COLORS.gastos} name="Gastos" radius={[4, 4, 0, 0]} />
@@ -55,8 +63,8 @@ export function FinancialChart({ chartType, data }: ChartProps) {
           <LineChart data={data}>
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis dataKey="name" fontSize={12} tickLine={false} axisLine={false} />
-            <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `$${value}`} />
-            <Tooltip formatter={(value: number) => new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value)} />
+            <YAxis fontSize={12} tickLine={false} axisLine={false} tickFormatter={formatTick} />
+            <Tooltip formatter={(value: number) => formatValue(value)} />
             <Legend />
             <Line type="monotone" dataKey="ingresos" stroke={COLORS.ingresos} name="Ingresos" />
             <Line type="monotone" dataKey="gastos" stroke={COLORS.gastos} name="Gastos" />
@@ -66,9 +74,9 @@ export function FinancialChart({ chartType, data }: ChartProps) {
       case 'pie':
         return (
           <RechartsPieChart>
-            <Tooltip formatter={(value: number, name) => [new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value), name]}/>
+            <Tooltip formatter={(value: number, name) => [formatValue(value), name]}/>
             <Legend />
-            <Pie data={pieData} dataKey="value" nameKey="name" cx="50%" cy="50%" outerRadius={120} label>
+            <Pie data={pieData} dataKey="value" nameKey="name" cx="50%" cy="50%" outerRadius={120} label={!privacyMode}>
                  {pieData.map((entry, index) => (
                     <Cell key={`cell-${index}`} fill={COLORS[entry.name.toLowerCase() as keyof typeof COLORS]} />
                  ))}
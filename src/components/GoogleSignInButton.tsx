@@ -0,0 +1,31 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+
+export function GoogleSignInButton({ disabled }: { disabled?: boolean }) {
+  const { signInWithGoogle } = useAuth();
+  const { toast } = useToast();
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleClick = async () => {
+    setIsSigningIn(true);
+    try {
+      await signInWithGoogle();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: (error as Error).message });
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <Button type="button" variant="outline" className="w-full" onClick={handleClick} disabled={disabled || isSigningIn}>
+      {isSigningIn && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+      Continuar con Google
+    </Button>
+  );
+}
@@ -4,11 +4,17 @@
 import { useTheme } from '@/components/ThemeProvider';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription, SheetTrigger } from '@/components/ui/sheet';
-import { Menu, Moon, Sun } from 'lucide-react';
+import { Eye, EyeOff, Lock, Menu, Moon, Sun } from 'lucide-react';
+import { useAppLock } from '@/contexts/AppLockProvider';
+import { usePrivacy } from '@/contexts/PrivacyProvider';
 import { DesktopSidebar } from './DesktopSidebar';
+import { LedgerSwitcher } from './LedgerSwitcher';
+import { UserMenu } from './UserMenu';
 
 export function Header() {
   const { theme, toggleTheme } = useTheme();
+  const { isEnabled: isLockEnabled, lock } = useAppLock();
+  const { privacyMode, togglePrivacyMode } = usePrivacy();
 
   return (
     <header className="sticky top-0 left-0 right-0 z-50 bg-card/80 backdrop-blur-lg border-b">
@@ -41,9 +47,19 @@ export function Header() {
             </h1>
         </div>
         <div className="flex items-center gap-2">
+            <LedgerSwitcher />
+            <Button variant="ghost" size="icon" onClick={togglePrivacyMode} aria-label={privacyMode ? 'Mostrar montos' : 'Ocultar montos'} aria-pressed={privacyMode}>
+              {privacyMode ? <Eye className="h-5 w-5" /> : <EyeOff className="h-5 w-5" />}
+            </Button>
             <Button variant="ghost" size="icon" onClick={toggleTheme} aria-label="Toggle theme">
             {theme === 'dark' ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
             </Button>
+            {isLockEnabled && (
+              <Button variant="ghost" size="icon" onClick={lock} aria-label="Bloquear">
+                <Lock className="h-5 w-5" />
+              </Button>
+            )}
+            <UserMenu />
         </div>
       </div>
     </header>
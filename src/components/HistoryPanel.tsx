@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { History, Loader2 } from 'lucide-react';
+import { useAppContext } from '@/contexts/AppProvider';
+import { subscribeToHistory } from '@/lib/data';
+import { AUDIT_ACTION_LABELS } from '@/lib/audit';
+import { toMillis } from '@/lib/utils';
+import type { AuditEntry } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+
+const FIELD_LABELS: Record<string, string> = {
+  fecha: 'Fecha',
+  integranteId: 'Integrante',
+  razonId: 'Razón',
+  movimiento: 'Movimiento',
+  monto: 'Monto',
+  descripcion: 'Descripción',
+  moneda: 'Moneda',
+  monedaBase: 'Moneda base',
+  tasa: 'Tipo de cambio',
+  baseCurrency: 'Moneda base',
+  nombre: 'Nombre',
+  isProtected: 'Protegido',
+  isQuickReason: 'Razón rápida',
+  isDeleted: 'En papelera',
+  role: 'Rol',
+  email: 'Correo electrónico',
+  status: 'Estado',
+  ledgerNombre: 'Libro',
+};
+
+export type HistoryValueFormatter = (field: string, value: unknown) => string | undefined;
+
+const defaultFormatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  return String(value);
+};
+
+type HistoryPanelProps = {
+  entityId: string;
+  // Lets callers render ids and amounts in a human-friendly way.
+  formatValue?: HistoryValueFormatter;
+};
+
+export function HistoryPanel({ entityId, formatValue }: HistoryPanelProps) {
+  const { activeLedger } = useAppContext();
+  const ledgerId = activeLedger?.ledgerId;
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!ledgerId) return;
+    return subscribeToHistory(ledgerId, entityId, setEntries, (err) => {
+      console.error('Error al cargar el historial:', err);
+      setError('No se pudo cargar el historial.');
+    });
+  }, [ledgerId, entityId]);
+
+  const renderValue = (field: string, value: unknown) => formatValue?.(field, value) ?? defaultFormatValue(value);
+
+  if (error) {
+    return <p className="text-sm text-destructive text-center py-4">{error}</p>;
+  }
+
+  if (entries === null) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No hay cambios registrados.</p>;
+  }
+
+  return (
+    <div className="max-h-[400px] overflow-y-auto pr-1">
+      <ol className="space-y-3">
+        {entries.map(entry => (
+          <li key={entry.id} className="p-3 bg-muted/30 rounded-lg text-sm">
+            <div className="flex justify-between items-start gap-2">
+              <span className="font-semibold">{AUDIT_ACTION_LABELS[entry.action]}</span>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {format(new Date(toMillis(entry.createdAt)), 'dd MMM yyyy, HH:mm', { locale: es })}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">Por {entry.actorEmail || entry.actorId}</p>
+            {entry.action === 'update' && entry.changes.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {entry.changes.map(change => (
+                  <li key={change.field} className="text-xs">
+                    <span className="font-medium">{FIELD_LABELS[change.field] || change.field}:</span>{' '}
+                    <span className="line-through text-red-500/80">{renderValue(change.field, change.before)}</span>{' → '}
+                    <span className="text-green-600">{renderValue(change.field, change.after)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export function HistoryDialog({ entityId, title, formatValue }: HistoryPanelProps & { title: string }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" size="icon" variant="ghost" aria-label="Ver historial"><History className="h-4 w-4"/></Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Historial de Cambios</DialogTitle>
+          <DialogDescription>{title}</DialogDescription>
+        </DialogHeader>
+        {open && <HistoryPanel entityId={entityId} formatValue={formatValue} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,271 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Info, Loader2, Pencil, Save, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { ImportColumn, ImportRow, ImportRowStatus, RowCheck } from '@/lib/import-preview';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+// Rows rendered at a time; large files are revealed with "Mostrar más".
+const VISIBLE_STEP = 100;
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  valid: 'Válida',
+  create: 'Se creará',
+  duplicate: 'Duplicada',
+  error: 'Error',
+};
+
+const STATUS_VARIANTS: Record<ImportRowStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  valid: 'secondary',
+  create: 'default',
+  duplicate: 'outline',
+  error: 'destructive',
+};
+
+export type ImportPreviewState = {
+  rows: ImportRow[];
+  mode: 'add' | 'replace';
+  // What "replace" mode moves to the trash, shown before anything is written.
+  replaceSummary?: string;
+};
+
+type ImportPreviewProps<T> = {
+  preview: ImportPreviewState | null;
+  title: string;
+  columns: ImportColumn[];
+  // Called again with every row whenever one is edited, since a fix can change other rows' status.
+  check: (rows: ImportRow[]) => Promise<RowCheck<T>[]>;
+  // Side effects of importing the accepted rows that deserve a look first, if any.
+  summarize?: (items: T[]) => string | null;
+  onCancel: () => void;
+  onCommit: (items: T[]) => Promise<void>;
+};
+
+export function ImportPreviewDialog<T>({ preview, title, columns, check, summarize, onCancel, onCommit }: ImportPreviewProps<T>) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [checks, setChecks] = useState<RowCheck<T>[] | null>(null);
+  const [included, setIncluded] = useState<Set<number>>(new Set());
+  const [checking, setChecking] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [statusFilter, setStatusFilter] = useState<ImportRowStatus | 'all'>('all');
+  const [visibleCount, setVisibleCount] = useState(VISIBLE_STEP);
+
+  // Rows that were edited, or that just became importable, get the default choice again:
+  // included unless they are duplicates. Every other row keeps what the user chose.
+  const runCheck = async (nextRows: ImportRow[], edited: number | null, previous: RowCheck<T>[] | null) => {
+    setChecking(true);
+    try {
+      const result = await check(nextRows);
+      setChecks(result);
+      setIncluded(current => {
+        const next = new Set<number>();
+        result.forEach((rowCheck, index) => {
+          if (!rowCheck.importable) return;
+          const useDefault = !previous || index === edited || !previous[index]?.importable;
+          if (useDefault ? rowCheck.status !== 'duplicate' : current.has(index)) next.add(index);
+        });
+        return next;
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Un error desconocido ocurrió.';
+      toast({ variant: 'destructive', title: 'Error', description: `No se pudieron revisar las filas. ${message}` });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!preview) return;
+    setRows(preview.rows);
+    setChecks(null);
+    setIncluded(new Set());
+    setEditingIndex(null);
+    setStatusFilter('all');
+    setVisibleCount(VISIBLE_STEP);
+    runCheck(preview.rows, null, null);
+  }, [preview]);
+
+  const counts = useMemo(() => {
+    const result: Record<ImportRowStatus, number> = { valid: 0, create: 0, duplicate: 0, error: 0 };
+    checks?.forEach(rowCheck => { result[rowCheck.status]++; });
+    return result;
+  }, [checks]);
+
+  const filteredIndexes = useMemo(() => rows
+    .map((_, index) => index)
+    .filter(index => statusFilter === 'all' || checks?.[index]?.status === statusFilter), [rows, checks, statusFilter]);
+
+  const toggle = (index: number, checked: boolean) => {
+    const next = new Set(included);
+    if (checked) next.add(index); else next.delete(index);
+    setIncluded(next);
+  };
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setDraft({ ...rows[index].values });
+  };
+
+  const saveEdit = async () => {
+    if (editingIndex === null) return;
+    const nextRows = rows.map((row, index) => index === editingIndex ? { ...row, values: { ...row.values, ...draft } } : row);
+    const edited = editingIndex;
+    setRows(nextRows);
+    setEditingIndex(null);
+    await runCheck(nextRows, edited, checks);
+  };
+
+  const acceptedItems = useMemo(() => (checks ?? [])
+    .filter((rowCheck, index) => included.has(index) && rowCheck.importable && rowCheck.item !== null)
+    .map(rowCheck => rowCheck.item as T), [checks, included]);
+
+  const summary = useMemo(() => summarize?.(acceptedItems) ?? null, [summarize, acceptedItems]);
+
+  const commit = async () => {
+    if (!checks) return;
+    setCommitting(true);
+    try {
+      await onCommit(acceptedItems);
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!preview} onOpenChange={(open) => { if (!open && !committing) onCancel(); }}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Revisa cada fila antes de importar. Corrige las que tienen errores o desmárcalas para dejarlas fuera.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview?.mode === 'replace' && preview.replaceSummary && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Modo reemplazar</AlertTitle>
+            <AlertDescription>{preview.replaceSummary}</AlertDescription>
+          </Alert>
+        )}
+
+        {summary && (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>{summary}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            {rows.length} fila(s): {counts.valid} válida(s), {counts.create} nueva(s), {counts.duplicate} duplicada(s), {counts.error} con errores.
+          </p>
+          <Select value={statusFilter} onValueChange={(v) => { setStatusFilter(v as ImportRowStatus | 'all'); setVisibleCount(VISIBLE_STEP); }}>
+            <SelectTrigger className="w-full sm:w-[180px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas las filas</SelectItem>
+              <SelectItem value="valid">Válidas</SelectItem>
+              <SelectItem value="create">Nuevas</SelectItem>
+              <SelectItem value="duplicate">Duplicadas</SelectItem>
+              <SelectItem value="error">Con errores</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="max-h-[50vh] overflow-auto">
+          {!checks ? (
+            <div className="flex justify-center py-8"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Línea</TableHead>
+                  {columns.map(column => <TableHead key={column.key}>{column.label}</TableHead>)}
+                  <TableHead>Estado</TableHead>
+                  <TableHead className="text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredIndexes.slice(0, visibleCount).map(index => {
+                  const row = rows[index];
+                  const rowCheck = checks[index];
+                  const isEditing = editingIndex === index;
+                  return (
+                    <TableRow key={row.line}>
+                      <TableCell>
+                        <Checkbox
+                          checked={included.has(index)}
+                          disabled={!rowCheck?.importable || checking}
+                          onCheckedChange={(checked) => toggle(index, checked === true)}
+                          aria-label={`Importar la línea ${row.line}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      {columns.map(column => (
+                        <TableCell key={column.key} className="whitespace-nowrap">
+                          {isEditing ? (
+                            <Input
+                              value={draft[column.key] ?? ''}
+                              onChange={(e) => setDraft({ ...draft, [column.key]: e.target.value })}
+                              className="h-8 min-w-[120px]"
+                            />
+                          ) : (row.values[column.key] || '—')}
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        {rowCheck && <Badge variant={STATUS_VARIANTS[rowCheck.status]}>{STATUS_LABELS[rowCheck.status]}</Badge>}
+                        {rowCheck?.messages.map((message, messageIndex) => (
+                          <p key={messageIndex} className="text-xs text-muted-foreground mt-1">{message}</p>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {isEditing ? (
+                          <>
+                            <Button size="icon" variant="ghost" onClick={saveEdit} aria-label="Guardar"><Save className="h-4 w-4" /></Button>
+                            <Button size="icon" variant="ghost" onClick={() => setEditingIndex(null)} aria-label="Cancelar"><X className="h-4 w-4" /></Button>
+                          </>
+                        ) : (
+                          <Button size="icon" variant="ghost" onClick={() => startEditing(index)} disabled={checking || editingIndex !== null} aria-label="Editar">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {filteredIndexes.length === 0 && (
+                  <TableRow><TableCell colSpan={columns.length + 4} className="text-center">No hay filas que mostrar.</TableCell></TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+          {filteredIndexes.length > visibleCount && (
+            <div className="flex justify-center py-2">
+              <Button variant="outline" size="sm" onClick={() => setVisibleCount(count => count + VISIBLE_STEP)}>Mostrar más</Button>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={committing}>Cancelar</Button>
+          <Button onClick={commit} disabled={!checks || checking || committing || editingIndex !== null || acceptedItems.length === 0}>
+            {committing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Importar {acceptedItems.length} fila(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
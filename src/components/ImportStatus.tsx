@@ -0,0 +1,85 @@
+'use client';
+import { useState } from 'react';
+import { useAppContext } from '@/contexts/AppProvider';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { importChunkCount } from '@/lib/data';
+import { cn } from '@/lib/utils';
+import type { TrashCollectionName } from '@/lib/repositories';
+import { AlertCircle, Loader2, RotateCcw, Undo2 } from 'lucide-react';
+
+// Progress of the running import and, when one stopped part-way, the choice to resume or undo it.
+export function ImportStatus({ collectionName, className }: { collectionName: TrashCollectionName; className?: string }) {
+  const { pendingImport, importActivity, resumeImport, undoImport, can } = useAppContext();
+  const { toast } = useToast();
+  const [confirmUndo, setConfirmUndo] = useState(false);
+
+  if (!pendingImport || pendingImport.collectionName !== collectionName) return null;
+
+  const chunkCount = importChunkCount(pendingImport);
+  const written = pendingImport.nextChunk;
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setConfirmUndo(false);
+    try {
+      await action();
+      toast({ title: 'Éxito', description: success });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'La importación no pudo completarse.';
+      toast({ variant: 'destructive', title: 'Error de importación', description: message, duration: 8000 });
+    }
+  };
+
+  if (importActivity === 'undo') {
+    return (
+      <p className={cn('text-sm text-muted-foreground flex items-center gap-2', className)}>
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Deshaciendo la importación: quedan {written} bloque(s) por revertir.
+      </p>
+    );
+  }
+
+  if (importActivity === 'import') {
+    return (
+      <div className={cn('space-y-2', className)}>
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Importando: bloque {Math.min(written + 1, chunkCount)} de {chunkCount}
+        </p>
+        <Progress value={chunkCount > 0 ? written / chunkCount * 100 : 100} />
+      </div>
+    );
+  }
+
+  return (
+    <Alert variant="destructive" className={className}>
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>Importación incompleta</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          Se escribieron {written} de {chunkCount} bloques
+          {pendingImport.failedChunk !== undefined && ` y falló el bloque ${pendingImport.failedChunk + 1}`}.
+          Reanúdala para terminarla o deshazla para dejar los datos como estaban.
+        </p>
+        {can('write') && (
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" onClick={() => run(resumeImport, 'Importación completa.')}>
+              <RotateCcw className="mr-2 h-4 w-4" />Reanudar
+            </Button>
+            {confirmUndo ? (
+              <Button size="sm" variant="outline" onClick={() => run(undoImport, 'Importación deshecha.')}>
+                <Undo2 className="mr-2 h-4 w-4" />Confirmar: deshacer
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" onClick={() => setConfirmUndo(true)}>
+                <Undo2 className="mr-2 h-4 w-4" />Deshacer
+              </Button>
+            )}
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
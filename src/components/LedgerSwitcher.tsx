@@ -0,0 +1,30 @@
+'use client';
+import { useAppContext } from '@/contexts/AppProvider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ROLE_LABELS } from '@/lib/permissions';
+
+export function LedgerSwitcher() {
+  const { ledgers, activeLedger, setActiveLedgerId } = useAppContext();
+
+  if (!activeLedger) return null;
+
+  // A single ledger needs no picker; just show which one is open.
+  if (ledgers.length < 2) {
+    return <span className="text-sm text-muted-foreground truncate max-w-[10rem]">{activeLedger.ledgerNombre}</span>;
+  }
+
+  return (
+    <Select value={activeLedger.ledgerId} onValueChange={setActiveLedgerId}>
+      <SelectTrigger className="w-[180px]" aria-label="Libro activo">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ledgers.map(member => (
+          <SelectItem key={member.ledgerId} value={member.ledgerId}>
+            {member.ledgerNombre} · {ROLE_LABELS[member.role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
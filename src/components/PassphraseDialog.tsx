@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/encryption';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+type PassphraseDialogProps = {
+  open: boolean;
+  // "encrypt" asks for the passphrase twice; "decrypt" once.
+  mode: 'encrypt' | 'decrypt';
+  title: string;
+  description: string;
+  onCancel: () => void;
+  // The dialog stays open and shows the error when this throws, e.g. on a wrong passphrase.
+  onConfirm: (passphrase: string) => Promise<void>;
+};
+
+export function PassphraseDialog({ open, mode, title, description, onCancel, onConfirm }: PassphraseDialogProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+  }, [open]);
+
+  const problem = mode === 'encrypt' && passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `Usa al menos ${MIN_PASSPHRASE_LENGTH} caracteres.`
+    : mode === 'encrypt' && confirmation && confirmation !== passphrase
+      ? 'Las contraseñas no coinciden.'
+      : null;
+  const canConfirm = !!passphrase && !problem && (mode === 'decrypt' || confirmation === passphrase);
+
+  const confirm = async () => {
+    if (!canConfirm) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      await onConfirm(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo completar la operación.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next && !isWorking) onCancel(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <form className="space-y-4 py-2" onSubmit={(e) => { e.preventDefault(); confirm(); }}>
+          <div className="space-y-2">
+            <Label htmlFor="passphrase">Contraseña</Label>
+            <Input id="passphrase" type="password" autoComplete={mode === 'encrypt' ? 'new-password' : 'current-password'} value={passphrase} onChange={(e) => setPassphrase(e.target.value)} autoFocus />
+          </div>
+          {mode === 'encrypt' && (
+            <div className="space-y-2">
+              <Label htmlFor="passphrase-confirmation">Repite la contraseña</Label>
+              <Input id="passphrase-confirmation" type="password" autoComplete="new-password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} />
+            </div>
+          )}
+          {mode === 'encrypt' && (
+            <p className="text-xs text-muted-foreground">Si olvidas la contraseña no hay forma de recuperar el contenido del archivo.</p>
+          )}
+          {(error || (passphrase && problem)) && <p className="text-sm text-destructive">{error ?? problem}</p>}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel} disabled={isWorking}>Cancelar</Button>
+            <Button type="submit" disabled={!canConfirm || isWorking}>
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === 'encrypt' ? 'Cifrar' : 'Descifrar'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
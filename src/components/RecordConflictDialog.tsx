@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useAppContext } from '@/contexts/AppProvider';
+import { useFormatMoney } from '@/contexts/PrivacyProvider';
+import { formatRecordDate, normalizeRecordDate } from '@/lib/dates';
+import type { FinancialRecord } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+
+// The editable part of a record as the form handles it: ISO date and the amount in positive cents.
+export type RecordValues = Pick<FinancialRecord, 'fecha' | 'integranteId' | 'razonId' | 'movimiento' | 'monto' | 'moneda' | 'descripcion'>;
+
+type ConflictField = keyof RecordValues;
+type Side = 'mine' | 'server';
+
+const FIELDS: { field: ConflictField; label: string }[] = [
+  { field: 'fecha', label: 'Fecha' },
+  { field: 'integranteId', label: 'Integrante' },
+  { field: 'razonId', label: 'Razón' },
+  { field: 'movimiento', label: 'Movimiento' },
+  { field: 'monto', label: 'Monto' },
+  { field: 'moneda', label: 'Moneda' },
+  { field: 'descripcion', label: 'Descripción' },
+];
+
+export const recordValues = (record: FinancialRecord, baseCurrency: string): RecordValues => ({
+  fecha: normalizeRecordDate(record.fecha) ?? record.fecha,
+  integranteId: record.integranteId,
+  razonId: record.razonId,
+  movimiento: record.movimiento,
+  monto: Math.abs(record.monto),
+  moneda: record.moneda || baseCurrency,
+  descripcion: record.descripcion || '',
+});
+
+type RecordConflictDialogProps = {
+  // The record as the form loaded it, what the user tried to save, and what is saved now.
+  base: FinancialRecord;
+  mine: RecordValues;
+  server: FinancialRecord;
+  onTakeServer: () => void;
+  // Saves the chosen values over the server's version.
+  onResolve: (values: RecordValues) => Promise<void>;
+};
+
+// Shown when a record changed while it was being edited. Lists the fields where the two versions
+// differ and lets the user keep theirs, take the saved one, or pick field by field.
+export function RecordConflictDialog({ base, mine, server, onTakeServer, onResolve }: RecordConflictDialogProps) {
+  const { integrantes, razones, trash, baseCurrency } = useAppContext();
+  const formatAmount = useFormatMoney();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const theirs = useMemo(() => recordValues(server, baseCurrency), [server, baseCurrency]);
+  const original = useMemo(() => recordValues(base, baseCurrency), [base, baseCurrency]);
+  const differences = FIELDS.filter(({ field }) => mine[field] !== theirs[field]);
+
+  // Fields the user did not touch take the saved value; the rest keep the user's.
+  const defaultChoices = () => Object.fromEntries(
+    differences.map(({ field }) => [field, mine[field] === original[field] ? 'server' : 'mine'])
+  ) as Partial<Record<ConflictField, Side>>;
+  const [choices, setChoices] = useState(defaultChoices);
+  useEffect(() => setChoices(defaultChoices()), [mine, theirs, original]);
+
+  const display = (field: ConflictField, values: RecordValues) => {
+    const value = values[field];
+    if (field === 'integranteId') return [...integrantes, ...trash.integrantes].find(i => i.id === value)?.nombre ?? 'Integrante eliminado';
+    if (field === 'razonId') return [...razones, ...trash.razones].find(r => r.id === value)?.descripcion ?? 'Razón eliminada';
+    if (field === 'fecha') return formatRecordDate(values.fecha);
+    if (field === 'monto') return formatAmount(values.monto, values.moneda);
+    return value === '' ? 'Sin descripción' : String(value);
+  };
+
+  const resolve = async (pick: (field: ConflictField) => Side) => {
+    const values = { ...mine };
+    differences.forEach(({ field }) => {
+      if (pick(field) === 'server') (values as Record<ConflictField, unknown>)[field] = theirs[field];
+    });
+    setIsSaving(true);
+    try {
+      await onResolve(values);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open && !isSaving) onTakeServer(); }}>
+      <DialogContent className="sm:max-w-[625px]">
+        <DialogHeader>
+          <DialogTitle>El registro cambió mientras lo editabas</DialogTitle>
+          <DialogDescription>
+            Otra persona guardó cambios en este registro. Elige qué versión conservar en cada campo.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2 max-h-[50vh] overflow-y-auto">
+          {differences.length === 0 && (
+            <p className="text-sm text-muted-foreground">Los dos cambios coinciden; puedes guardar sin perder nada.</p>
+          )}
+          {differences.map(({ field, label }) => (
+            <div key={field} className="space-y-2">
+              <Label>{label}</Label>
+              <RadioGroup
+                value={choices[field]}
+                onValueChange={(side) => setChoices(current => ({ ...current, [field]: side as Side }))}
+                className="grid grid-cols-1 sm:grid-cols-2 gap-2"
+              >
+                {(['mine', 'server'] as Side[]).map(side => (
+                  <Label key={side} htmlFor={`${field}-${side}`} className="flex items-start gap-2 rounded-md border p-3 font-normal cursor-pointer">
+                    <RadioGroupItem value={side} id={`${field}-${side}`} className="mt-0.5" />
+                    <span className="space-y-1">
+                      <span className="block text-xs text-muted-foreground">{side === 'mine' ? 'Tu versión' : 'Versión guardada'}</span>
+                      <span className="block break-words">{display(field, side === 'mine' ? mine : theirs)}</span>
+                    </span>
+                  </Label>
+                ))}
+              </RadioGroup>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onTakeServer} disabled={isSaving}>Usar la versión guardada</Button>
+          <Button variant="outline" onClick={() => resolve(() => 'mine')} disabled={isSaving}>Conservar mis cambios</Button>
+          <Button onClick={() => resolve(field => choices[field] ?? 'mine')} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Guardar combinación
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
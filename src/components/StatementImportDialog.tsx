@@ -0,0 +1,104 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAppContext } from '@/contexts/AppProvider';
+import { detectQifDateOrder, parseStatement, statementRows, type QifDateOrder } from '@/lib/bank-statements';
+import { formatRecordDate, isValidRecordDate } from '@/lib/dates';
+import type { ImportRow } from '@/lib/import-preview';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+type StatementImportDialogProps = {
+  // Decoded text of the statement file; the dialog is closed while null.
+  text: string | null;
+  onCancel: () => void;
+  onConfirm: (rows: ImportRow[]) => void;
+};
+
+// Statements do not say who spent the money or why, so the member and reason are chosen
+// here for every movement; single rows can still be changed in the preview.
+export function StatementImportDialog({ text, onCancel, onConfirm }: StatementImportDialogProps) {
+  const { integrantes, razones } = useAppContext();
+  const [integranteId, setIntegranteId] = useState('');
+  const [razonId, setRazonId] = useState('');
+  const [dateOrder, setDateOrder] = useState<QifDateOrder>('MDY');
+
+  useEffect(() => {
+    if (text) setDateOrder(detectQifDateOrder(text));
+  }, [text]);
+
+  const statement = useMemo(() => {
+    if (!text) return null;
+    try {
+      return parseStatement(text, dateOrder);
+    } catch {
+      return null;
+    }
+  }, [text, dateOrder]);
+
+  if (!text || !statement) return null;
+
+  const dates = statement.entries.map(entry => entry.fecha).filter(isValidRecordDate).sort();
+  const debits = statement.entries.filter(entry => entry.monto.startsWith('-')).length;
+  const integrante = integrantes.find(i => i.id === integranteId);
+  const razon = razones.find(r => r.id === razonId);
+
+  const confirm = () => {
+    if (!integrante || !razon) return;
+    onConfirm(statementRows(statement, { integrantenombre: integrante.nombre, razondescripcion: razon.descripcion }));
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onCancel(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Importar estado de cuenta</DialogTitle>
+          <DialogDescription>
+            Archivo {statement.format} con {statement.entries.length} movimiento(s): {debits} cargo(s) como gastos y {statement.entries.length - debits} abono(s) como ingresos
+            {dates.length > 0 && `, del ${formatRecordDate(dates[0])} al ${formatRecordDate(dates[dates.length - 1])}`}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>Integrante</Label>
+            <Select value={integranteId} onValueChange={setIntegranteId}>
+              <SelectTrigger><SelectValue placeholder="Selecciona un integrante" /></SelectTrigger>
+              <SelectContent>
+                {integrantes.map(i => <SelectItem key={i.id} value={i.id}>{i.nombre}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Razón</Label>
+            <Select value={razonId} onValueChange={setRazonId}>
+              <SelectTrigger><SelectValue placeholder="Selecciona una razón" /></SelectTrigger>
+              <SelectContent>
+                {razones.map(r => <SelectItem key={r.id} value={r.id}>{r.descripcion}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          {statement.format === 'QIF' && (
+            <div className="space-y-2">
+              <Label>Orden de las fechas</Label>
+              <Select value={dateOrder} onValueChange={(v) => setDateOrder(v as QifDateOrder)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="MDY">Mes/día/año</SelectItem>
+                  <SelectItem value="DMY">Día/mes/año</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancelar</Button>
+          <Button onClick={confirm} disabled={!integrante || !razon}>Continuar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
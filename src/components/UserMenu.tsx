@@ -0,0 +1,46 @@
+'use client';
+import { useRouter } from 'next/navigation';
+import { LogOut, UserCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthProvider';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+export function UserMenu() {
+  const { user, isAuthEnabled, logout } = useAuth();
+  const router = useRouter();
+
+  // In offline mode there is only the local user and no session to end.
+  if (!isAuthEnabled || !user) return null;
+
+  const handleLogout = async () => {
+    await logout();
+    router.replace('/login');
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Cuenta">
+          <UserCircle className="h-5 w-5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="font-normal">
+          {user.displayName && <div className="font-medium">{user.displayName}</div>}
+          <div className="text-xs text-muted-foreground">{user.email}</div>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={handleLogout}>
+          <LogOut className="mr-2 h-4 w-4" />Cerrar sesión
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useLayoutEffect, useRef, useState, ReactNode } from 'react';
+import { useAuth } from './AuthProvider';
+import {
+  createLockConfig,
+  DEFAULT_LOCK_OPTIONS,
+  MAX_PIN_ATTEMPTS,
+  PIN_RETRY_DELAY_MS,
+  readLockConfig,
+  readPinAttempts,
+  saveLockConfig,
+  savePinAttempts,
+  verifyPin,
+  type AppLockConfig,
+  type AppLockOptions,
+  type PinAttempts,
+} from '@/lib/app-lock';
+
+// How often the idle time is checked. Timers stop while a laptop sleeps, so the lock compares
+// timestamps instead of waiting for a single long timeout.
+const IDLE_CHECK_INTERVAL_MS = 15_000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+
+// Runs before the browser paints, so a locked app never shows a frame of its content. The
+// server has no layout to wait for.
+const useBeforePaintEffect = typeof window === 'undefined' ? useEffect : useLayoutEffect;
+
+interface AppLockContextType {
+  isEnabled: boolean;
+  isLocked: boolean;
+  options: AppLockOptions;
+  // While set, unlocking is refused until this time (ms) after too many wrong PINs.
+  retryAt: number | null;
+  enable: (pin: string, options: AppLockOptions) => Promise<void>;
+  changePin: (currentPin: string, newPin: string) => Promise<void>;
+  disable: (pin: string) => Promise<void>;
+  setOptions: (options: AppLockOptions) => void;
+  lock: () => void;
+  // Rejects with a message to show when the PIN is wrong.
+  unlock: (pin: string) => Promise<void>;
+  // For a forgotten PIN: removes the lock and ends the session, so signing in again proves who it is.
+  forgetPin: () => Promise<void>;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+export function AppLockProvider({ children }: { children: ReactNode }) {
+  const { user, loading: authLoading, isAuthEnabled, logout } = useAuth();
+  const [config, setConfig] = useState<AppLockConfig | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const lastActivity = useRef(Date.now());
+  // undefined until the session is first known, then the uid (or null) seen last.
+  const previousUid = useRef<string | null | undefined>(undefined);
+
+  const uid = user?.uid ?? null;
+
+  // A session restored when the app opens starts locked, or reloading the page would unlock it.
+  // Signing in with the password is proof enough, so a fresh sign-in starts unlocked.
+  useBeforePaintEffect(() => {
+    if (authLoading) return;
+    const stored = uid ? readLockConfig(uid) : null;
+    setConfig(stored);
+    setIsLocked(!!stored && previousUid.current === undefined);
+    setRetryAt(uid ? readPinAttempts(uid).retryAt : null);
+    lastActivity.current = Date.now();
+    previousUid.current = uid;
+  }, [uid, authLoading]);
+
+  const persist = useCallback((next: AppLockConfig | null) => {
+    if (!uid) throw new Error('Inicia sesión para configurar el bloqueo.');
+    saveLockConfig(uid, next);
+    setConfig(next);
+  }, [uid]);
+
+  const lock = useCallback(() => {
+    if (config) setIsLocked(true);
+  }, [config]);
+
+  const idleMinutes = config?.idleMinutes ?? null;
+  const lockOnHide = config?.lockOnHide ?? false;
+
+  useEffect(() => {
+    if (!config || isLocked) return;
+    lastActivity.current = Date.now();
+    const markActivity = () => { lastActivity.current = Date.now(); };
+    const checkIdle = () => {
+      if (idleMinutes !== null && Date.now() - lastActivity.current >= idleMinutes * 60_000) setIsLocked(true);
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') {
+        if (lockOnHide) setIsLocked(true);
+      } else {
+        checkIdle();
+      }
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    const interval = window.setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActivity));
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.clearInterval(interval);
+    };
+  }, [config, isLocked, idleMinutes, lockOnHide]);
+
+  const saveAttempts = (userId: string, attempts: PinAttempts) => {
+    savePinAttempts(userId, attempts);
+    setRetryAt(attempts.retryAt);
+  };
+
+  // Attempts are read from storage every time, so reloading the page or opening another tab
+  // does not start the count again.
+  const checkPin = async (pin: string) => {
+    if (!config || !uid) return;
+    const attempts = readPinAttempts(uid);
+    if (attempts.retryAt && Date.now() < attempts.retryAt) {
+      setRetryAt(attempts.retryAt);
+      throw new Error(`Demasiados intentos. Espera ${Math.ceil((attempts.retryAt - Date.now()) / 1000)} segundos.`);
+    }
+    if (await verifyPin(pin, config)) {
+      saveAttempts(uid, { failed: 0, retryAt: null });
+      return;
+    }
+    const failed = attempts.failed + 1;
+    saveAttempts(uid, { failed, retryAt: failed >= MAX_PIN_ATTEMPTS ? Date.now() + PIN_RETRY_DELAY_MS : null });
+    throw new Error('El PIN no es correcto.');
+  };
+
+  const enable = async (pin: string, options: AppLockOptions) => {
+    persist(await createLockConfig(pin, options));
+  };
+
+  const changePin = async (currentPin: string, newPin: string) => {
+    if (!config) return;
+    await checkPin(currentPin);
+    persist(await createLockConfig(newPin, { idleMinutes: config.idleMinutes, lockOnHide: config.lockOnHide }));
+  };
+
+  const disable = async (pin: string) => {
+    await checkPin(pin);
+    persist(null);
+    setIsLocked(false);
+  };
+
+  const setOptions = (options: AppLockOptions) => {
+    if (config) persist({ ...config, ...options });
+  };
+
+  const unlock = async (pin: string) => {
+    await checkPin(pin);
+    lastActivity.current = Date.now();
+    setIsLocked(false);
+  };
+
+  const forgetPin = async () => {
+    // Without accounts there is no other way to prove who is at the device.
+    if (!isAuthEnabled) throw new Error('Sin inicio de sesión, el PIN no se puede restablecer.');
+    persist(null);
+    setIsLocked(false);
+    await logout();
+  };
+
+  const value = {
+    isEnabled: !!config,
+    isLocked,
+    options: config ? { idleMinutes: config.idleMinutes, lockOnHide: config.lockOnHide } : DEFAULT_LOCK_OPTIONS,
+    retryAt,
+    enable,
+    changePin,
+    disable,
+    setOptions,
+    lock,
+    unlock,
+    forgetPin,
+  };
+
+  return <AppLockContext.Provider value={value}>{children}</AppLockContext.Provider>;
+}
+
+export const useAppLock = () => {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+};
@@ -1,190 +1,666 @@
 
 'use client';
-import React, { createContext, useContext, useState, useEffect, ReactNode, useMemo } from 'react';
-import type { FinancialRecord, Integrante, Razon } from '@/types';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useMemo, useRef } from 'react';
+import type { ExchangeRate, FinancialRecord, Integrante, LedgerInvitation, LedgerMember, LedgerRole, LedgerSettings, Razon } from '@/types';
 import * as api from '@/lib/data';
-import { isFirebaseConfigured, db } from '@/lib/firebase';
-import { parse, isValid, startOfDay } from 'date-fns';
+import type { ImportJob } from '@/lib/data';
+import { getRepositories, type EntityInput, type EntityUpdate, type TrashCollectionName, type Unsubscribe } from '@/lib/repositories';
+import { normalizeName, toMillis } from '@/lib/utils';
+import { assignableRoles, can as roleCan, PERMISSION_DENIED_MESSAGE, type Permission } from '@/lib/permissions';
+import { normalizeRecordDate } from '@/lib/dates';
+import { DEFAULT_CURRENCY, isValidCents, signedCents } from '@/lib/money';
+import { duplicateSearchRange, findDuplicates, recordFingerprint, type DuplicateReport } from '@/lib/duplicates';
+import type { ImportedRecord } from '@/lib/import-preview';
+import { createBackup as buildBackup, planRestore, type LedgerBackup, type RestoreMode, type RestorePlan } from '@/lib/backup';
+import { CURRENT_RECORD_SCHEMA_VERSION, migrateFinancialRecords, upgradeRecords } from '@/lib/migrations';
+import { subDays } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from './AuthProvider';
-import { onSnapshot, collection, query, where, Unsubscribe } from 'firebase/firestore';
 
-interface AppContextType {
+export interface TrashContents {
   integrantes: Integrante[];
   razones: Razon[];
   financialRecords: FinancialRecord[];
-  recordDates: Set<number>;
+}
+
+interface AppContextType {
+  // Ledgers the user belongs to (one membership each) and the one currently shown.
+  ledgers: LedgerMember[];
+  activeLedger: LedgerMember | null;
+  setActiveLedgerId: (ledgerId: string) => void;
+  role: LedgerRole | null;
+  can: (permission: Permission) => boolean;
+  createLedger: (nombre: string) => Promise<void>;
+  renameLedger: (nombre: string, members: LedgerMember[]) => Promise<void>;
+  inviteMember: (email: string, role: LedgerRole) => Promise<void>;
+  revokeInvitation: (invitation: LedgerInvitation) => Promise<void>;
+  acceptInvitation: (invitation: LedgerInvitation) => Promise<void>;
+  declineInvitation: (invitation: LedgerInvitation) => Promise<void>;
+  changeMemberRole: (member: LedgerMember, role: LedgerRole) => Promise<void>;
+  removeMember: (member: LedgerMember) => Promise<void>;
+  integrantes: Integrante[];
+  razones: Razon[];
+  // Records are not kept here: screens query the slice they show (see hooks/use-financial-records).
+  // This counter changes after every record write made from this device so those queries can refresh.
+  recordsRevision: number;
+  trash: TrashContents;
+  trashRetentionDays: number | null;
+  setTrashRetentionDays: (days: number | null) => void;
+  restoreFromTrash: (collectionName: TrashCollectionName, id: string) => Promise<void>;
+  purgeFromTrash: (collectionName: TrashCollectionName, ids: string[]) => Promise<void>;
+  baseCurrency: string;
+  setBaseCurrency: (currency: string) => Promise<void>;
+  addExchangeRate: (rate: Pick<ExchangeRate, 'fecha' | 'moneda' | 'tasa'>) => Promise<void>;
+  deleteExchangeRate: (rate: ExchangeRate) => Promise<void>;
   loading: boolean;
   error: Error | null;
-  addFinancialRecord: (record: Omit<FinancialRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => Promise<void>;
-  updateFinancialRecord: (id: string, record: Partial<Omit<FinancialRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>) => Promise<void>;
+  addFinancialRecord: (record: EntityInput<FinancialRecord>) => Promise<void>;
+  // Pass the updatedAt (in milliseconds) the record had when the form loaded it to refuse
+  // overwriting someone else's changes; the promise then rejects with an UpdateConflictError.
+  updateFinancialRecord: (id: string, record: EntityUpdate<FinancialRecord>, expectedUpdatedAt?: number) => Promise<void>;
   deleteFinancialRecord: (id: string) => Promise<void>;
   addIntegrante: (nombre: string, isProtected?: boolean) => Promise<void>;
   updateIntegrante: (id: string, nombre: string) => Promise<void>;
   deleteIntegrante: (id: string) => Promise<void>;
   addRazon: (descripcion: string, isQuickReason?: boolean, isProtected?: boolean) => Promise<void>;
-  updateRazon: (id: string, updates: Partial<Omit<Razon, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>) => Promise<void>;
+  updateRazon: (id: string, updates: EntityUpdate<Razon>) => Promise<void>;
   deleteRazon: (id: string) => Promise<void>;
-  importRazones: (razones: Omit<Razon, 'id'| 'userId' | 'createdAt' | 'updatedAt'>[], mode: 'add' | 'replace') => Promise<void>;
-  importIntegrantes: (integrantes: Omit<Integrante, 'id'| 'userId' | 'createdAt' | 'updatedAt'>[], mode: 'add' | 'replace') => Promise<void>;
-  importFinancialRecords: (records: Omit<FinancialRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>[], mode: 'add' | 'replace') => Promise<void>;
+  importRazones: (razones: EntityInput<Razon>[], mode: 'add' | 'replace') => Promise<void>;
+  importIntegrantes: (integrantes: EntityInput<Integrante>[], mode: 'add' | 'replace') => Promise<void>;
+  // In "add" mode records identical to existing ones are skipped; near-duplicates are imported,
+  // so callers should confirm them first with findImportDuplicates. Members and reasons named
+  // by the records are created first.
+  importFinancialRecords: (records: ImportedRecord[], mode: 'add' | 'replace') => Promise<void>;
+  findImportDuplicates: (records: EntityInput<FinancialRecord>[]) => Promise<DuplicateReport<EntityInput<FinancialRecord>>>;
+  // The import being written, or one that stopped part-way and must be resumed or undone.
+  pendingImport: ImportJob | null;
+  importActivity: 'import' | 'undo' | null;
+  resumeImport: () => Promise<void>;
+  undoImport: () => Promise<void>;
+  // Everything in the active ledger, trash included, ready to be saved as a file.
+  createBackup: () => Promise<LedgerBackup>;
+  // Writes the backup into the active ledger and resolves with what was changed.
+  restoreBackup: (backup: LedgerBackup, options: { mode: RestoreMode; remapIds: boolean }) => Promise<RestorePlan>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
-const parseDate = (dateStr: string) => parse(dateStr, 'dd/MM/yyyy', new Date());
+const TRASH_RETENTION_KEY = 'trashRetentionDays';
+const ACTIVE_LEDGER_KEY = 'activeLedgerId';
+const MIGRATED_RECORDS_KEY = 'migratedRecords';
+const PENDING_IMPORT_KEY = 'pendingImport';
+const PERSONAL_LEDGER_NAME = 'Mis finanzas';
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Items in the trash that have no deletedAt (deleted before the trash existed) age from their last update.
+const getDeletedAt = (item: Integrante | Razon | FinancialRecord) => toMillis(item.deletedAt ?? item.updatedAt);
 
 export function AppProvider({ children }: { children: ReactNode }) {
   const { user, loading: authLoading } = useAuth();
-  const [integrantes, setIntegrantes] = useState<Integrante[]>([]);
-  const [razones, setRazones] = useState<Razon[]>([]);
-  const [financialRecords, setFinancialRecords] = useState<FinancialRecord[]>([]);
+  const [memberships, setMemberships] = useState<LedgerMember[] | null>(null);
+  const [activeLedgerId, setActiveLedgerIdState] = useState<string | null>(null);
+  const isCreatingLedger = useRef(false);
+  const [allIntegrantes, setIntegrantes] = useState<Integrante[]>([]);
+  const [allRazones, setRazones] = useState<Razon[]>([]);
+  const [deletedRecords, setDeletedRecords] = useState<FinancialRecord[]>([]);
+  const [recordsRevision, setRecordsRevision] = useState(0);
+  const [ledgerSettings, setLedgerSettings] = useState<LedgerSettings[]>([]);
+  const [trashRetentionDays, setTrashRetentionDaysState] = useState<number | null>(DEFAULT_TRASH_RETENTION_DAYS);
+  const isPurging = useRef(false);
+  const isMigrating = useRef(false);
+  const [pendingImport, setPendingImport] = useState<ImportJob | null>(null);
+  const [importActivity, setImportActivity] = useState<'import' | 'undo' | null>(null);
   
   const [error, setError] = useState<Error | null>(null);
   const { toast } = useToast();
+
+  const ledgers = useMemo(
+    () => (memberships ?? []).filter(member => !member.isDeleted).sort((a, b) => a.ledgerNombre.localeCompare(b.ledgerNombre)),
+    [memberships]
+  );
+  const activeLedger = ledgers.find(member => member.ledgerId === activeLedgerId) ?? null;
+  const role = activeLedger?.role ?? null;
+  const can = (permission: Permission) => roleCan(role, permission);
+
+  const integrantes = useMemo(() => allIntegrantes.filter(item => !item.isDeleted), [allIntegrantes]);
+  const razones = useMemo(() => allRazones.filter(item => !item.isDeleted), [allRazones]);
+
+  const currentSettings = ledgerSettings.find(settings => !settings.isDeleted) ?? null;
+  const baseCurrency = currentSettings?.baseCurrency || DEFAULT_CURRENCY;
+
+  const trash = useMemo<TrashContents>(() => {
+    const byDeletionDate = <T extends Integrante | Razon | FinancialRecord>(items: T[]) =>
+      items.filter(item => item.isDeleted).sort((a, b) => getDeletedAt(b) - getDeletedAt(a));
+    return {
+      integrantes: byDeletionDate(allIntegrantes),
+      razones: byDeletionDate(allRazones),
+      financialRecords: byDeletionDate(upgradeRecords(deletedRecords)),
+    };
+  }, [allIntegrantes, allRazones, deletedRecords]);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(TRASH_RETENTION_KEY);
+    if (stored !== null) {
+      const days = parseInt(stored, 10);
+      setTrashRetentionDaysState(stored === 'never' || isNaN(days) ? null : days);
+    }
+  }, []);
+
+  const setTrashRetentionDays = (days: number | null) => {
+    setTrashRetentionDaysState(days);
+    localStorage.setItem(TRASH_RETENTION_KEY, days === null ? 'never' : String(days));
+  };
   
   useEffect(() => {
-    if (!isFirebaseConfigured || !db) {
-        return;
+    if (!user) {
+      setMemberships(null);
+      return;
+    }
+    return api.subscribeToMemberships(user.uid, setMemberships, (err) => {
+      console.error('Error escuchando a ledgerMembers:', err);
+      setError(err);
+    });
+  }, [user]);
+
+  // First sign-in after ledgers were introduced: move everything the user owned into the
+  // personal ledger (id = uid) and create it. Access rules only let users list their legacy
+  // documents until that ledger exists.
+  useEffect(() => {
+    if (!user || memberships === null || isCreatingLedger.current) return;
+    if (memberships.some(member => !member.isDeleted)) return;
+    isCreatingLedger.current = true;
+    const actor = { uid: user.uid, email: user.email };
+    api.adoptLegacyData(user.uid, user.uid)
+      .then(() => api.createLedger(PERSONAL_LEDGER_NAME, actor, user.uid))
+      .catch(err => {
+        console.error('Error al crear el libro personal:', err);
+        setError(err);
+      })
+      .finally(() => { isCreatingLedger.current = false; });
+  }, [user, memberships]);
+
+  // Keep the selected ledger valid: the last one chosen, else the personal ledger, else the first.
+  // The stored choice wins as soon as its membership shows up (e.g. right after accepting an invitation).
+  useEffect(() => {
+    if (!user || ledgers.length === 0) {
+      setActiveLedgerIdState(null);
+      return;
     }
+    const stored = localStorage.getItem(ACTIVE_LEDGER_KEY);
+    const next = ledgers.find(member => member.ledgerId === stored)
+      ?? ledgers.find(member => member.ledgerId === activeLedgerId)
+      ?? ledgers.find(member => member.ledgerId === user.uid)
+      ?? ledgers[0];
+    if (next.ledgerId !== activeLedgerId) setActiveLedgerIdState(next.ledgerId);
+  }, [user, ledgers, activeLedgerId]);
+
+  const setActiveLedgerId = (ledgerId: string) => {
+    setActiveLedgerIdState(ledgerId);
+    localStorage.setItem(ACTIVE_LEDGER_KEY, ledgerId);
+  };
 
+  useEffect(() => {
     let unsubscribers: Unsubscribe[] = [];
 
-    if (user) {
+    if (user && activeLedgerId) {
         // User is logged in, set up listeners.
-        const collections = {
-            integrantes: setIntegrantes,
-            razones: setRazones,
-            financialRecords: setFinancialRecords,
+        const handleError = (collName: string) => (err: Error) => {
+            console.error(`Error escuchando a ${collName}:`, err);
+            setError(err);
+            toast({ variant: 'destructive', title: 'Error de conexión', description: `No se pudo obtener datos de ${collName}.` });
         };
 
-        unsubscribers = Object.entries(collections).map(([collName, setter]) => {
-            const q = query(collection(db, collName), where("userId", "==", user.uid));
-            
-            return onSnapshot(q, (snapshot) => {
-                const data = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as any[];
-                setter(data.filter(item => !item.isDeleted));
-            }, (err) => {
-                console.error(`Error escuchando a ${collName}:`, err);
-                setError(err);
-                toast({ variant: 'destructive', title: 'Error de conexión', description: `No se pudo obtener datos de ${collName}.` });
-            });
-        });
-    } else {
-        // User is logged out, clear all data.
-        setIntegrantes([]);
-        setRazones([]);
-        setFinancialRecords([]);
+        const repositories = getRepositories();
+        const scope = { ledgerId: activeLedgerId };
+        unsubscribers = [
+            repositories.integrantes.subscribe(scope, setIntegrantes, handleError('integrantes')),
+            repositories.razones.subscribe(scope, setRazones, handleError('razones')),
+            api.subscribeToDeletedRecords(activeLedgerId, setDeletedRecords, handleError('financialRecords')),
+            repositories.ledgerSettings.subscribe(scope, setLedgerSettings, handleError('ledgerSettings')),
+        ];
     }
 
-    // Cleanup listeners on unmount or when user changes.
+    // Logged out or switching ledgers: never show the previous ledger's data.
     return () => {
         unsubscribers.forEach(unsub => unsub());
+        setIntegrantes([]);
+        setRazones([]);
+        setDeletedRecords([]);
+        setLedgerSettings([]);
     };
 
-  }, [user, toast]);
-
-  const recordDates = useMemo(() => {
-    const dates = new Set<number>();
-    financialRecords.forEach(record => {
-        if(record.fecha) {
-            const date = parseDate(record.fecha);
-            if (isValid(date)) {
-                dates.add(startOfDay(date).getTime());
-            }
-        }
-    });
-    return dates;
-  }, [financialRecords]);
+  }, [user, activeLedgerId, toast]);
+
+  // Upgrades the ledger's old records once; later visits from this device skip the scan.
+  useEffect(() => {
+    if (!user || !activeLedgerId || !can('write') || isMigrating.current) return;
+    const migratedKey = `${MIGRATED_RECORDS_KEY}:${activeLedgerId}`;
+    if (Number(localStorage.getItem(migratedKey)) >= CURRENT_RECORD_SCHEMA_VERSION) return;
+    isMigrating.current = true;
+    migrateFinancialRecords(activeLedgerId)
+      .then(migrated => {
+        localStorage.setItem(migratedKey, String(CURRENT_RECORD_SCHEMA_VERSION));
+        if (migrated > 0) touchRecords();
+      })
+      .catch(err => console.error('Error al migrar los registros:', err))
+      .finally(() => { isMigrating.current = false; });
+  }, [user, activeLedgerId, role]);
+
+  const touchRecords = () => setRecordsRevision(revision => revision + 1);
+
+  // Every write names the active ledger and the acting user, and is checked against the user's role.
+  // Pass null for actions any member may take on their own membership.
+  const getWriteContext = (permission: Permission | null = 'write'): api.WriteContext => {
+    if (!user) throw new Error("Usuario no autenticado.");
+    if (!activeLedgerId) throw new Error("No hay un libro seleccionado.");
+    if (permission && !can(permission)) throw new Error(PERMISSION_DENIED_MESSAGE);
+    return { ledgerId: activeLedgerId, actor: { uid: user.uid, email: user.email } };
+  };
+
+  // Members and reasons still referenced by any record (active or in the trash) must not be purged,
+  // otherwise restoring those records would leave them pointing at nothing.
+  const unreferenced = async <T extends Integrante | Razon>(ledgerId: string, field: 'integranteId' | 'razonId', items: T[]) => {
+    const counts = await Promise.all(items.map(item => api.countRecordReferences(ledgerId, field, item.id)));
+    return items.filter((_, index) => counts[index] === 0);
+  };
+
+  // Automatic purge policy: permanently remove trash older than the retention period.
+  useEffect(() => {
+    if (!user || !activeLedgerId || !can('purge') || trashRetentionDays === null || isPurging.current) return;
+    const cutoff = subDays(new Date(), trashRetentionDays).getTime();
+    const expired = <T extends Integrante | Razon | FinancialRecord>(items: T[]) =>
+      items.filter(item => getDeletedAt(item) < cutoff);
+
+    const expiredRecords = expired(trash.financialRecords);
+    const expiredIntegrantes = expired(trash.integrantes);
+    const expiredRazones = expired(trash.razones);
+    if (expiredRecords.length + expiredIntegrantes.length + expiredRazones.length === 0) return;
+
+    const ctx = getWriteContext('purge');
+    // Records go first so the members and reasons only they referenced can go in the same pass.
+    const purgeExpired = async () => {
+      if (expiredRecords.length > 0) await api.purgeEntities('financialRecords', expiredRecords, ctx);
+      const integrantesToPurge = await unreferenced(ctx.ledgerId, 'integranteId', expiredIntegrantes);
+      const razonesToPurge = await unreferenced(ctx.ledgerId, 'razonId', expiredRazones);
+      if (integrantesToPurge.length > 0) await api.purgeEntities('integrantes', integrantesToPurge, ctx);
+      if (razonesToPurge.length > 0) await api.purgeEntities('razones', razonesToPurge, ctx);
+    };
+
+    isPurging.current = true;
+    purgeExpired()
+      .catch(err => console.error('Error al vaciar la papelera automáticamente:', err))
+      .finally(() => { isPurging.current = false; });
+  }, [user, activeLedgerId, role, trash, trashRetentionDays]);
+
+  // An unfinished import survives reloads so it can still be resumed or undone.
+  useEffect(() => {
+    if (!activeLedgerId) {
+      setPendingImport(null);
+      return;
+    }
+    const stored = localStorage.getItem(`${PENDING_IMPORT_KEY}:${activeLedgerId}`);
+    try {
+      setPendingImport(stored ? JSON.parse(stored) : null);
+    } catch {
+      setPendingImport(null);
+    }
+  }, [activeLedgerId]);
+
+  const keepImport = (ledgerId: string, job: ImportJob | null) => {
+    setPendingImport(job);
+    const key = `${PENDING_IMPORT_KEY}:${ledgerId}`;
+    try {
+      if (job) localStorage.setItem(key, JSON.stringify(job));
+      else localStorage.removeItem(key);
+    } catch (err) {
+      // Too large for localStorage: it can still be resumed until the page is closed.
+      console.error('No se pudo guardar el estado de la importación:', err);
+    }
+  };
+
+  const executeImport = async (job: ImportJob, activity: 'import' | 'undo') => {
+    const ctx = getWriteContext();
+    const write = activity === 'import' ? api.runImport : api.rollbackImport;
+    setImportActivity(activity);
+    try {
+      await write(job, ctx, next => keepImport(ctx.ledgerId, next));
+      keepImport(ctx.ledgerId, null);
+    } finally {
+      setImportActivity(null);
+      if (job.collectionName === 'financialRecords') touchRecords();
+    }
+  };
+
+  const startImport = async (job: ImportJob) => {
+    if (pendingImport) throw new Error("Termina o deshaz la importación pendiente antes de iniciar otra.");
+    await executeImport(job, 'import');
+  };
+
+  const resumeImport = async () => {
+    if (!pendingImport) return;
+    await executeImport(pendingImport, 'import');
+  };
+
+  const undoImport = async () => {
+    if (!pendingImport) return;
+    await executeImport(pendingImport, 'undo');
+  };
 
   // --- CRUD Functions ---
 
-  const addFinancialRecord = async (record: Omit<FinancialRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => {
-    if(!user) throw new Error("Usuario no autenticado.");
-    let monto = record.monto;
-    if ((record.movimiento === 'GASTOS' || record.movimiento === 'INVERSION') && monto > 0) monto = -monto;
-    if (record.movimiento === 'INGRESOS' && monto < 0) monto = Math.abs(monto);
+  const addFinancialRecord = async (record: EntityInput<FinancialRecord>) => {
+    if (!isValidCents(record.monto)) throw new Error("El monto debe estar expresado en centavos.");
+    const monto = signedCents(record.movimiento, record.monto);
+    const fecha = normalizeRecordDate(record.fecha);
+    if (!fecha) throw new Error("La fecha del registro no es válida.");
     
-    await api.addFinancialRecord({ ...record, monto }, user.uid);
+    await api.addFinancialRecord({ ...record, fecha, monto, schemaVersion: CURRENT_RECORD_SCHEMA_VERSION }, getWriteContext());
+    touchRecords();
   };
   
-  const updateFinancialRecord = async (id: string, updates: Partial<Omit<FinancialRecord, 'id' | 'userId'>>) => {
-      await api.updateFinancialRecord(id, updates);
+  const updateFinancialRecord = async (id: string, updates: EntityUpdate<FinancialRecord>, expectedUpdatedAt?: number) => {
+      if (updates.fecha !== undefined) {
+          const fecha = normalizeRecordDate(updates.fecha);
+          if (!fecha) throw new Error("La fecha del registro no es válida.");
+          updates = { ...updates, fecha };
+      }
+      if (updates.monto !== undefined || updates.movimiento !== undefined) {
+          const current = await getRepositories().financialRecords.get(id);
+          const monto = updates.monto ?? current?.monto;
+          const movimiento = updates.movimiento ?? current?.movimiento;
+          if (!isValidCents(monto) || !movimiento) throw new Error("El monto debe estar expresado en centavos.");
+          updates = { ...updates, monto: signedCents(movimiento, monto) };
+      }
+      await api.updateFinancialRecord(id, updates, getWriteContext(), expectedUpdatedAt);
+      touchRecords();
   };
 
   const deleteFinancialRecord = async (id: string) => {
-      await api.deleteFinancialRecord(id);
+      await api.deleteFinancialRecord(id, getWriteContext());
+      touchRecords();
   };
   
   const addIntegrante = async (nombre: string, isProtected = false) => {
-    if(!user) throw new Error("Usuario no autenticado.");
-    await api.addIntegrante({ nombre, isProtected }, user.uid);
+    await api.addIntegrante({ nombre, isProtected }, getWriteContext());
   };
 
   const updateIntegrante = async (id: string, nombre: string) => {
-      await api.updateIntegrante(id, { nombre });
+      await api.updateIntegrante(id, { nombre }, getWriteContext());
   };
 
   const deleteIntegrante = async (id: string) => {
-      await api.deleteIntegrante(id);
+      const ctx = getWriteContext();
+      if (await api.countRecordReferences(ctx.ledgerId, 'integranteId', id, true) > 0) {
+          throw new Error("No se puede eliminar un integrante que tiene registros financieros asociados.");
+      }
+      await api.deleteIntegrante(id, ctx);
   };
 
   const addRazon = async (descripcion: string, isQuickReason = false, isProtected = false) => {
-      if(!user) throw new Error("Usuario no autenticado.");
-      await api.addRazon({ descripcion, isQuickReason, isProtected }, user.uid);
+      await api.addRazon({ descripcion, isQuickReason, isProtected }, getWriteContext());
   };
 
-  const updateRazon = async (id: string, updates: Partial<Omit<Razon, 'id' | 'userId'>>) => {
-      await api.updateRazon(id, updates);
+  const updateRazon = async (id: string, updates: EntityUpdate<Razon>) => {
+      await api.updateRazon(id, updates, getWriteContext());
   };
   
   const deleteRazon = async (id: string) => {
-      await api.deleteRazon(id);
+      const ctx = getWriteContext();
+      if (await api.countRecordReferences(ctx.ledgerId, 'razonId', id, true) > 0) {
+          throw new Error("No se puede eliminar una razón que tiene registros financieros asociados.");
+      }
+      await api.deleteRazon(id, ctx);
   };
 
-  const importIntegrantes = async (integrantesToImport: Omit<Integrante, 'id' | 'userId' | 'createdAt' | 'updatedAt'>[], mode: 'add' | 'replace') => {
-      if(!user) throw new Error("Usuario no autenticado.");
-      await api.importData(
+  const restoreFromTrash = async (collectionName: TrashCollectionName, id: string) => {
+      if (collectionName === 'integrantes') {
+          const item = trash.integrantes.find(i => i.id === id);
+          if (item && integrantes.some(i => i.nombre.toLowerCase() === item.nombre.toLowerCase())) {
+              throw new Error(`Ya existe un integrante activo llamado "${item.nombre}".`);
+          }
+      }
+      if (collectionName === 'razones') {
+          const item = trash.razones.find(r => r.id === id);
+          if (item && razones.some(r => r.descripcion.toLowerCase() === item.descripcion.toLowerCase())) {
+              throw new Error(`Ya existe una razón activa llamada "${item.descripcion}".`);
+          }
+      }
+      if (collectionName === 'financialRecords') {
+          const record = trash.financialRecords.find(r => r.id === id);
+          const deletedIntegrante = record && trash.integrantes.find(i => i.id === record.integranteId);
+          const deletedRazon = record && trash.razones.find(r => r.id === record.razonId);
+          if (deletedIntegrante) throw new Error(`Restaura primero el integrante "${deletedIntegrante.nombre}".`);
+          if (deletedRazon) throw new Error(`Restaura primero la razón "${deletedRazon.descripcion}".`);
+      }
+      await api.restoreEntity(collectionName, id, getWriteContext());
+      if (collectionName === 'financialRecords') touchRecords();
+  };
+
+  const purgeFromTrash = async (collectionName: TrashCollectionName, ids: string[]) => {
+      const ctx = getWriteContext('purge');
+      if (collectionName !== 'financialRecords') {
+          const field = collectionName === 'integrantes' ? 'integranteId' : 'razonId';
+          const counts = await Promise.all(ids.map(id => api.countRecordReferences(ctx.ledgerId, field, id)));
+          if (counts.some(count => count > 0)) {
+              throw new Error('No se puede eliminar definitivamente un elemento que tiene registros financieros asociados.');
+          }
+      }
+      const trashed: (Integrante | Razon | FinancialRecord)[] = trash[collectionName];
+      await api.purgeEntities(collectionName, trashed.filter(item => ids.includes(item.id)), ctx);
+  };
+
+  const setBaseCurrency = async (currency: string) => {
+      await api.saveLedgerSettings(currentSettings, { baseCurrency: currency }, getWriteContext());
+  };
+
+  const addExchangeRate = async ({ fecha, moneda, tasa }: Pick<ExchangeRate, 'fecha' | 'moneda' | 'tasa'>) => {
+      const normalizedFecha = normalizeRecordDate(fecha);
+      if (!normalizedFecha) throw new Error("La fecha del tipo de cambio no es válida.");
+      if (!(tasa > 0)) throw new Error("El tipo de cambio debe ser mayor que cero.");
+      if (moneda.toUpperCase() === baseCurrency) throw new Error("La moneda debe ser distinta de la moneda base.");
+      const ctx = getWriteContext();
+      const existing = await api.findExchangeRate(ctx.ledgerId, normalizedFecha, moneda.toUpperCase(), baseCurrency);
+      if (existing) {
+          await api.updateExchangeRate(existing.id, { tasa }, ctx);
+      } else {
+          await api.addExchangeRate({ fecha: normalizedFecha, moneda, monedaBase: baseCurrency, tasa }, ctx);
+      }
+  };
+
+  const deleteExchangeRate = async (rate: ExchangeRate) => {
+      await api.deleteExchangeRate(rate, getWriteContext());
+  };
+
+  const importIntegrantes = async (integrantesToImport: EntityInput<Integrante>[], mode: 'add' | 'replace') => {
+      await startImport(api.planImport(
           'integrantes',
           integrantesToImport,
           integrantes, // current data
           (item) => item.nombre,
           mode,
-          user.uid
-      );
+          getWriteContext()
+      ));
   };
   
-  const importRazones = async (razonesToImport: Omit<Razon, 'id' | 'userId' | 'createdAt' | 'updatedAt'>[], mode: 'add' | 'replace') => {
-      if(!user) throw new Error("Usuario no autenticado.");
-      await api.importData(
+  const importRazones = async (razonesToImport: EntityInput<Razon>[], mode: 'add' | 'replace') => {
+      await startImport(api.planImport(
           'razones',
           razonesToImport,
           razones, // current data
           (item) => item.descripcion,
           mode,
-          user.uid
-      );
+          getWriteContext()
+      ));
   };
 
-   const importFinancialRecords = async (records: Omit<FinancialRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>[], mode: 'add' | 'replace') => {
-      if(!user) throw new Error("Usuario no autenticado.");
-      await api.importData(
+  // Compares the records with those already in the ledger around the same dates.
+  const findImportDuplicates = async (records: EntityInput<FinancialRecord>[]) => {
+      const ctx = getWriteContext();
+      const range = duplicateSearchRange(records);
+      const existing = range ? await api.fetchAllRecords(ctx.ledgerId, range) : [];
+      return findDuplicates(records, existing);
+  };
+
+  // Plans the members and reasons named by imported records and returns the records with their
+  // ids. Names matching an entry that already exists, ignoring case and accents, reuse it. The new
+  // ones are written by the import job, so undoing the import removes them too.
+  const resolveNewEntries = (records: ImportedRecord[]) => {
+      const integranteIds = new Map(integrantes.map(i => [normalizeName(i.nombre), i.id]));
+      const razonIds = new Map(razones.map(r => [normalizeName(r.descripcion), r.id]));
+      const newEntries: api.ImportEntry[] = [];
+      const planEntry = (ids: Map<string, string>, collectionName: api.ImportEntry['collectionName'], name: string) => {
+          if (ids.has(normalizeName(name))) return;
+          const entry = api.planImportEntry(collectionName, name);
+          ids.set(normalizeName(name), entry.id);
+          newEntries.push(entry);
+      };
+      for (const { newIntegrante, newRazon } of records) {
+          if (newIntegrante) planEntry(integranteIds, 'integrantes', newIntegrante);
+          if (newRazon) planEntry(razonIds, 'razones', newRazon);
+      }
+      const resolved: EntityInput<FinancialRecord>[] = records.map(({ newIntegrante, newRazon, ...record }) => ({
+          ...record,
+          integranteId: newIntegrante ? integranteIds.get(normalizeName(newIntegrante))! : record.integranteId,
+          razonId: newRazon ? razonIds.get(normalizeName(newRazon))! : record.razonId,
+      }));
+      return { records: resolved, newEntries };
+  };
+
+   const importFinancialRecords = async (importedRecords: ImportedRecord[], mode: 'add' | 'replace') => {
+      const ctx = getWriteContext();
+      if (pendingImport) throw new Error("Termina o deshaz la importación pendiente antes de iniciar otra.");
+      const { records, newEntries } = resolveNewEntries(importedRecords);
+      let toImport = records;
+      let existing: FinancialRecord[] = [];
+      if (mode === 'add') {
+          const { unique, near } = await findImportDuplicates(records);
+          toImport = [...unique, ...near.map(({ record }) => record)];
+      } else {
+          // Only "replace" needs every current record, to move them to the trash.
+          existing = await api.fetchAllRecords(ctx.ledgerId);
+      }
+      await startImport(api.planImport(
           'financialRecords',
-          records,
-          financialRecords,
-          // Financial records don't have a unique key for "add" mode check, so we rely on replace
-          () => Math.random().toString(), 
+          toImport.map(record => ({ ...record, monto: signedCents(record.movimiento, record.monto), schemaVersion: CURRENT_RECORD_SCHEMA_VERSION })),
+          existing,
+          // Duplicates were already left out above.
+          recordFingerprint,
           mode,
-          user.uid
+          ctx,
+          newEntries
+      ));
+  };
+
+  // --- Backups ---
+
+  const createBackup = async () => {
+      if (!activeLedger) throw new Error("No hay un libro activo.");
+      const financialRecords = upgradeRecords(await api.fetchLedgerRecords(activeLedger.ledgerId));
+      return buildBackup(
+          { id: activeLedger.ledgerId, nombre: activeLedger.ledgerNombre },
+          { integrantes: allIntegrantes, razones: allRazones, financialRecords }
+      );
+  };
+
+  const restoreBackup = async (backup: LedgerBackup, { mode, remapIds }: { mode: RestoreMode; remapIds: boolean }) => {
+      const ctx = getWriteContext();
+      if (pendingImport) throw new Error("Termina o deshaz la importación pendiente antes de restaurar una copia de seguridad.");
+      const financialRecords = upgradeRecords(await api.fetchLedgerRecords(ctx.ledgerId));
+      const plan = planRestore(
+          backup,
+          { integrantes: allIntegrantes, razones: allRazones, financialRecords },
+          { mode, remapIds, ledgerId: ctx.ledgerId, userId: ctx.actor.uid }
       );
+      setImportActivity('import');
+      try {
+          await api.restoreBackup(plan, ctx);
+      } finally {
+          setImportActivity(null);
+          touchRecords();
+      }
+      return plan;
+  };
+
+  // --- Ledger Functions ---
+
+  const createLedger = async (nombre: string) => {
+    if (!user) throw new Error("Usuario no autenticado.");
+    if (!nombre.trim()) throw new Error("El nombre del libro es obligatorio.");
+    const ledgerId = await api.createLedger(nombre.trim(), { uid: user.uid, email: user.email });
+    setActiveLedgerId(ledgerId);
+  };
+
+  const renameLedger = async (nombre: string, members: LedgerMember[]) => {
+      if (!nombre.trim()) throw new Error("El nombre del libro es obligatorio.");
+      await api.renameLedger(nombre.trim(), members, getWriteContext('manageMembers'));
+  };
+
+  const inviteMember = async (email: string, memberRole: LedgerRole) => {
+      const ctx = getWriteContext('manageMembers');
+      if (!assignableRoles(role).includes(memberRole)) throw new Error(PERMISSION_DENIED_MESSAGE);
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) throw new Error("El correo electrónico no es válido.");
+      await api.inviteMember(email, memberRole, activeLedger?.ledgerNombre ?? '', ctx);
+  };
+
+  const revokeInvitation = async (invitation: LedgerInvitation) => {
+      await api.revokeInvitation(invitation, getWriteContext('manageMembers'));
+  };
+
+  const acceptInvitation = async (invitation: LedgerInvitation) => {
+      if (!user) throw new Error("Usuario no autenticado.");
+      const ledgerId = await api.acceptInvitation(invitation, { uid: user.uid, email: user.email });
+      setActiveLedgerId(ledgerId);
+  };
+
+  const declineInvitation = async (invitation: LedgerInvitation) => {
+      await api.declineInvitation(invitation);
+  };
+
+  const changeMemberRole = async (member: LedgerMember, memberRole: LedgerRole) => {
+      const ctx = getWriteContext('manageMembers');
+      const assignable = assignableRoles(role);
+      if (!assignable.includes(member.role) || !assignable.includes(memberRole)) throw new Error(PERMISSION_DENIED_MESSAGE);
+      if (member.memberId === user?.uid) throw new Error("No puedes cambiar tu propio rol.");
+      await api.changeMemberRole(member, memberRole, ctx);
+  };
+
+  // Removing yourself means leaving the ledger, which any role except the owner may do.
+  const removeMember = async (member: LedgerMember) => {
+      const isSelf = member.memberId === user?.uid;
+      if (isSelf && member.role === 'owner') throw new Error("El propietario no puede abandonar su libro.");
+      const ctx = getWriteContext(isSelf ? null : 'manageMembers');
+      if (!isSelf && !assignableRoles(role).includes(member.role)) throw new Error(PERMISSION_DENIED_MESSAGE);
+      await api.removeMember(member, ctx);
   };
 
   const value: AppContextType = {
+    ledgers,
+    activeLedger,
+    setActiveLedgerId,
+    role,
+    can,
+    createLedger,
+    renameLedger,
+    inviteMember,
+    revokeInvitation,
+    acceptInvitation,
+    declineInvitation,
+    changeMemberRole,
+    removeMember,
     integrantes,
     razones,
-    financialRecords,
-    recordDates,
-    loading: authLoading,
+    recordsRevision,
+    trash,
+    trashRetentionDays,
+    setTrashRetentionDays,
+    restoreFromTrash,
+    purgeFromTrash,
+    baseCurrency,
+    setBaseCurrency,
+    addExchangeRate,
+    deleteExchangeRate,
+    // Data is only meaningful once the active ledger is known.
+    loading: authLoading || (!!user && (memberships === null || !activeLedgerId)),
     error,
     addFinancialRecord,
     updateFinancialRecord,
@@ -198,6 +674,13 @@ export function AppProvider({ children }: { children: ReactNode }) {
     importIntegrantes,
     importRazones,
     importFinancialRecords,
+    findImportDuplicates,
+    pendingImport,
+    importActivity,
+    resumeImport,
+    undoImport,
+    createBackup,
+    restoreBackup,
   };
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
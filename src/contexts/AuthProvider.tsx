@@ -1,15 +1,39 @@
 
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { getAuth, onAuthStateChanged, type User } from 'firebase/auth';
-import { useRouter } from 'next/navigation';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import {
+  createUserWithEmailAndPassword,
+  GoogleAuthProvider,
+  onAuthStateChanged,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  signInWithEmailAndPassword,
+  signInWithPopup,
+  updateProfile,
+  type User,
+} from 'firebase/auth';
 import { auth as firebaseAuth, isFirebaseConfigured } from '@/lib/firebase';
+import { authErrorMessage, isCancelledSignIn, isSessionInvalid } from '@/lib/auth';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
   error: string | null;
+  // Set when the session ended without the user signing out, e.g. the account was disabled
+  // or its password changed on another device. Cleared on the next sign-in.
+  sessionExpired: boolean;
+  // False in offline mode, where everyone is the local user and there is nothing to sign in to.
+  isAuthEnabled: boolean;
+  // The actions below reject with a message ready to show to the user.
+  signIn: (email: string, password: string) => Promise<User>;
+  signUp: (email: string, password: string, displayName: string) => Promise<User>;
+  // Resolves with null when the user closes the Google window.
+  signInWithGoogle: () => Promise<User | null>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  sendVerificationEmail: () => Promise<void>;
+  // Fetches the account again, e.g. after the user opened the verification link, and tells whether the email is verified.
+  refreshEmailVerification: () => Promise<boolean>;
   logout: () => Promise<void>;
 }
 
@@ -49,6 +73,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const signedInUid = useRef<string | null>(null);
+  const isLoggingOut = useRef(false);
 
   useEffect(() => {
     if (!isFirebaseConfigured || !firebaseAuth) {
@@ -59,6 +86,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     const unsubscribe = onAuthStateChanged(firebaseAuth, (user) => {
+      if (user) setSessionExpired(false);
+      else if (signedInUid.current && !isLoggingOut.current) setSessionExpired(true);
+      signedInUid.current = user?.uid ?? null;
+      isLoggingOut.current = false;
       setUser(user);
       setLoading(false);
     }, (error) => {
@@ -70,9 +101,90 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => unsubscribe();
   }, []);
 
+  // Tokens are refreshed in the background, but a tab left asleep for hours only finds out that
+  // its session was revoked on the next request. Check when the user comes back to it instead.
+  useEffect(() => {
+    const auth = firebaseAuth;
+    if (!auth) return;
+    const checkSession = () => {
+      if (document.visibilityState !== 'visible' || !auth.currentUser) return;
+      auth.currentUser.getIdToken().catch((error) => {
+        // Offline is not an expired session: the token is refreshed once the connection is back.
+        if (isSessionInvalid(error)) auth.signOut();
+      });
+    };
+    document.addEventListener('visibilitychange', checkSession);
+    window.addEventListener('focus', checkSession);
+    return () => {
+      document.removeEventListener('visibilitychange', checkSession);
+      window.removeEventListener('focus', checkSession);
+    };
+  }, []);
+
+
+  const requireAuth = () => {
+    if (!firebaseAuth) throw new Error('La autenticación no está configurada.');
+    return firebaseAuth;
+  };
+
+  const withAuthErrors = async <T,>(action: () => Promise<T>): Promise<T> => {
+    try {
+      return await action();
+    } catch (error) {
+      throw new Error(authErrorMessage(error));
+    }
+  };
+
+  // Links in the emails bring the user back to the sign-in page of this deployment.
+  const actionCodeSettings = () => ({ url: `${window.location.origin}/login` });
+
+  const signIn = (email: string, password: string) => withAuthErrors(async () =>
+    (await signInWithEmailAndPassword(requireAuth(), email.trim(), password)).user
+  );
+
+  const signUp = (email: string, password: string, displayName: string) => withAuthErrors(async () => {
+    const { user: created } = await createUserWithEmailAndPassword(requireAuth(), email.trim(), password);
+    if (displayName.trim()) await updateProfile(created, { displayName: displayName.trim() });
+    await sendEmailVerification(created, actionCodeSettings());
+    return created;
+  });
+
+  const signInWithGoogle = () => withAuthErrors(async () => {
+    try {
+      return (await signInWithPopup(requireAuth(), new GoogleAuthProvider())).user;
+    } catch (error) {
+      if (isCancelledSignIn(error)) return null;
+      throw error;
+    }
+  });
+
+  const sendPasswordReset = (email: string) => withAuthErrors(async () => {
+    try {
+      await sendPasswordResetEmail(requireAuth(), email.trim(), actionCodeSettings());
+    } catch (error) {
+      // Saying that no account exists would reveal which emails are registered.
+      if ((error as { code?: string }).code !== 'auth/user-not-found') throw error;
+    }
+  });
+
+  const sendVerificationEmail = () => withAuthErrors(async () => {
+    const current = requireAuth().currentUser;
+    if (!current) throw new Error('Inicia sesión para verificar tu correo.');
+    await sendEmailVerification(current, actionCodeSettings());
+  });
+
+  const refreshEmailVerification = () => withAuthErrors(async () => {
+    const current = requireAuth().currentUser;
+    if (!current) return false;
+    await current.reload();
+    // The token carries the email_verified claim the security rules require before accepting an invitation.
+    if (current.emailVerified) await current.getIdToken(true);
+    return current.emailVerified;
+  });
 
   const logout = async () => {
     if(firebaseAuth) {
+      isLoggingOut.current = true;
       await firebaseAuth.signOut();
       setUser(null);
     } else {
@@ -84,6 +196,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     user,
     loading,
     error,
+    sessionExpired,
+    isAuthEnabled: !!firebaseAuth,
+    signIn,
+    signUp,
+    signInWithGoogle,
+    sendPasswordReset,
+    sendVerificationEmail,
+    refreshEmailVerification,
     logout,
   };
 
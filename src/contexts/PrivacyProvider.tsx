@@ -0,0 +1,51 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { formatMoney, MASKED_AMOUNT } from '@/lib/money';
+
+const PRIVACY_MODE_KEY = 'privacy-mode';
+
+type PrivacyContextType = {
+  // Hides every amount in the app, e.g. while projecting it in a meeting. Kept per browser.
+  privacyMode: boolean;
+  setPrivacyMode: (enabled: boolean) => void;
+  togglePrivacyMode: () => void;
+};
+
+const PrivacyContext = createContext<PrivacyContextType | undefined>(undefined);
+
+export function PrivacyProvider({ children }: { children: React.ReactNode }) {
+  const [privacyMode, setPrivacyModeState] = useState(false);
+
+  useEffect(() => {
+    setPrivacyModeState(localStorage.getItem(PRIVACY_MODE_KEY) === 'true');
+  }, []);
+
+  const setPrivacyMode = useCallback((enabled: boolean) => {
+    setPrivacyModeState(enabled);
+    localStorage.setItem(PRIVACY_MODE_KEY, String(enabled));
+  }, []);
+
+  const togglePrivacyMode = useCallback(() => setPrivacyMode(!privacyMode), [privacyMode, setPrivacyMode]);
+
+  const value = useMemo(() => ({ privacyMode, setPrivacyMode, togglePrivacyMode }), [privacyMode, setPrivacyMode, togglePrivacyMode]);
+
+  return <PrivacyContext.Provider value={value}>{children}</PrivacyContext.Provider>;
+}
+
+export const usePrivacy = () => {
+  const context = useContext(PrivacyContext);
+  if (context === undefined) {
+    throw new Error('usePrivacy must be used within a PrivacyProvider');
+  }
+  return context;
+};
+
+// formatMoney for amounts on screen: masked while privacy mode is on.
+export const useFormatMoney = () => {
+  const { privacyMode } = usePrivacy();
+  return useCallback(
+    (cents: number, currency?: string) => privacyMode ? MASKED_AMOUNT : formatMoney(cents, currency),
+    [privacyMode]
+  );
+};
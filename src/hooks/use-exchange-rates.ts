@@ -0,0 +1,83 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAppContext } from '@/contexts/AppProvider';
+import { useToast } from '@/hooks/use-toast';
+import * as api from '@/lib/data';
+import { createCurrencyConverter } from '@/lib/exchange';
+import { SUPPORTED_CURRENCIES } from '@/lib/money';
+import type { DateRange } from '@/lib/repositories';
+import type { ExchangeRate } from '@/types';
+
+// Screens read only the rates that apply to the dates they show: those dated in the range and,
+// for each currency, the newest one before it. Without a range every rate is read.
+
+const useLoadError = () => {
+  const { toast } = useToast();
+  return (err: Error) => {
+    console.error('Error al obtener los tipos de cambio:', err);
+    toast({ variant: 'destructive', title: 'Error de conexión', description: 'No se pudo obtener datos de exchangeRates.' });
+  };
+};
+
+// Active rates, newest first.
+export function useExchangeRates(range?: DateRange, { enabled = true }: { enabled?: boolean } = {}) {
+  const { activeLedger, baseCurrency } = useAppContext();
+  const ledgerId = activeLedger?.ledgerId;
+  const onError = useLoadError();
+  const from = range?.from;
+  const to = range?.to;
+  const [ratesInRange, setRatesInRange] = useState<ExchangeRate[] | null>(null);
+  const [earlierRates, setEarlierRates] = useState<Map<string, ExchangeRate | null>>(new Map());
+
+  useEffect(() => {
+    setRatesInRange(null);
+    if (!ledgerId || !enabled) return;
+    return api.subscribeToRateWindow(ledgerId, { from, to }, setRatesInRange, onError);
+  }, [ledgerId, from, to, enabled]);
+
+  // Rates may have been entered towards an earlier base currency, so both directions are looked up.
+  const currenciesKey = useMemo(() => {
+    const currencies = new Set(SUPPORTED_CURRENCIES);
+    (ratesInRange ?? []).forEach(rate => {
+      currencies.add(rate.moneda);
+      currencies.add(rate.monedaBase);
+    });
+    currencies.delete(baseCurrency);
+    return Array.from(currencies).sort().join(',');
+  }, [ratesInRange, baseCurrency]);
+  const pairs = useMemo(
+    () => from ? currenciesKey.split(',').flatMap(moneda => [[moneda, baseCurrency], [baseCurrency, moneda]]) : [],
+    [from, currenciesKey, baseCurrency]
+  );
+
+  useEffect(() => {
+    setEarlierRates(new Map());
+    if (!ledgerId || !enabled || !from) return;
+    const unsubscribers = pairs.map(([moneda, monedaBase]) =>
+      api.subscribeToLatestRate(ledgerId, moneda, monedaBase, from, rate => {
+        setEarlierRates(previous => new Map(previous).set(`${moneda}->${monedaBase}`, rate));
+      }, onError)
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [ledgerId, from, pairs, enabled]);
+
+  const rates = useMemo(() => {
+    const byId = new Map<string, ExchangeRate>();
+    [...(ratesInRange ?? []), ...earlierRates.values()].forEach(rate => {
+      if (rate && !rate.isDeleted) byId.set(rate.id, rate);
+    });
+    return Array.from(byId.values()).sort((a, b) => b.fecha.localeCompare(a.fecha));
+  }, [ratesInRange, earlierRates]);
+
+  const loading = enabled && (ratesInRange === null || earlierRates.size < pairs.length);
+  return { rates, loading };
+}
+
+// Converts records dated in the range to base-currency cents, or null when there is no rate for them.
+export function useCurrencyConverter(range?: DateRange) {
+  const { baseCurrency } = useAppContext();
+  const { rates, loading } = useExchangeRates(range);
+  const toBaseCents = useMemo(() => createCurrencyConverter(rates, baseCurrency), [rates, baseCurrency]);
+  return { toBaseCents, loading };
+}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { startOfDay, subDays } from 'date-fns';
+import { useAppContext } from '@/contexts/AppProvider';
+import { useExchangeRates } from '@/hooks/use-exchange-rates';
+import { useToast } from '@/hooks/use-toast';
+import * as api from '@/lib/data';
+import { recordDayTimestamp, toRecordDate } from '@/lib/dates';
+import { convertibleCurrencies, rateSpans } from '@/lib/exchange';
+import { upgradeRecords } from '@/lib/migrations';
+import { SUPPORTED_CURRENCIES } from '@/lib/money';
+import type { DateRange, RepositoryQuery } from '@/lib/repositories';
+import type { ExchangeRate, FinancialRecord, Movimiento } from '@/types';
+
+// Screens read records through these hooks so only the slice they display leaves the server.
+
+const RECENT_DAYS = 365;
+
+const useLoadError = () => {
+  const { toast } = useToast();
+  return (err: Error) => {
+    console.error('Error al obtener los registros:', err);
+    toast({ variant: 'destructive', title: 'Error de conexión', description: 'No se pudo obtener datos de financialRecords.' });
+  };
+};
+
+// Live view of the active records in a date range, newest first unless `order` is 'asc'.
+export function useRecordWindow(
+  range?: DateRange,
+  { limit = null, order, enabled = true }: { limit?: number | null; order?: 'asc' | 'desc'; enabled?: boolean } = {}
+) {
+  const { activeLedger } = useAppContext();
+  const ledgerId = activeLedger?.ledgerId;
+  const onError = useLoadError();
+  const [records, setRecords] = useState<FinancialRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const from = range?.from;
+  const to = range?.to;
+
+  useEffect(() => {
+    if (!ledgerId || !enabled) {
+      setRecords([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    const unsubscribe = api.subscribeToRecordWindow(
+      ledgerId,
+      { from, to },
+      limit,
+      items => {
+        setRecords(upgradeRecords(items));
+        setLoading(false);
+      },
+      err => {
+        onError(err);
+        setLoading(false);
+      },
+      order
+    );
+    return () => unsubscribe();
+  }, [ledgerId, from, to, limit, order, enabled]);
+
+  return { records, loading };
+}
+
+// Cursor pagination over the active records in a range, newest first. Pages accumulate as
+// `loadMore` is called; after a write everything loaded so far is fetched again.
+export function useRecordPages(range: DateRange | undefined, pageSize: number) {
+  const { activeLedger, recordsRevision } = useAppContext();
+  const ledgerId = activeLedger?.ledgerId;
+  const onError = useLoadError();
+  const [records, setRecords] = useState<FinancialRecord[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const from = range?.from;
+  const to = range?.to;
+  // Ignores responses that arrive after a newer request was made.
+  const latestRequest = useRef(0);
+  const loadedCount = useRef(0);
+  const loadedKey = useRef('');
+
+  useEffect(() => {
+    if (!ledgerId) {
+      setRecords([]);
+      setHasMore(false);
+      return;
+    }
+    const key = `${ledgerId}|${from ?? ''}|${to ?? ''}`;
+    if (key !== loadedKey.current) {
+      loadedKey.current = key;
+      loadedCount.current = 0;
+    }
+    const requestId = ++latestRequest.current;
+    setLoading(true);
+    api.fetchRecordPage(ledgerId, { from, to }, { size: Math.max(loadedCount.current, pageSize) })
+      .then(page => {
+        if (requestId !== latestRequest.current) return;
+        loadedCount.current = page.items.length;
+        setRecords(upgradeRecords(page.items));
+        setHasMore(page.hasMore);
+      })
+      .catch(onError)
+      .finally(() => {
+        if (requestId === latestRequest.current) setLoading(false);
+      });
+  }, [ledgerId, from, to, pageSize, recordsRevision]);
+
+  const loadMore = async () => {
+    if (!ledgerId || !hasMore || loading || records.length === 0) return;
+    const requestId = ++latestRequest.current;
+    setLoading(true);
+    try {
+      const page = await api.fetchRecordPage(ledgerId, { from, to }, { size: pageSize, after: records[records.length - 1] });
+      if (requestId !== latestRequest.current) return;
+      loadedCount.current = records.length + page.items.length;
+      setRecords([...records, ...upgradeRecords(page.items)]);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      onError(err as Error);
+    } finally {
+      if (requestId === latestRequest.current) setLoading(false);
+    }
+  };
+
+  return { records, hasMore, loading, loadMore };
+}
+
+// Span totals requested at the same time, so a currency with many rates does not flood the backend.
+const SPAN_AGGREGATE_BATCH = 4;
+
+// Count and base-currency total of the records in one foreign currency: each exchange-rate span is
+// summed by the backend and converted with its rate, a few spans at a time.
+const fetchConvertedCurrency = async (
+  ledgerId: string,
+  filters: RepositoryQuery,
+  range: DateRange | undefined,
+  moneda: string,
+  rates: ExchangeRate[],
+  baseCurrency: string
+) => {
+  const spans = rateSpans(rates, moneda, baseCurrency)
+    .map(span => ({
+      tasa: span.tasa,
+      from: range?.from && range.from > span.from ? range.from : span.from,
+      to: range?.to && (!span.to || range.to < span.to) ? range.to : span.to,
+    }))
+    .filter(span => !span.to || span.from <= span.to);
+  let sum = { count: 0, total: 0 };
+  for (let start = 0; start < spans.length; start += SPAN_AGGREGATE_BATCH) {
+    const parts = await Promise.all(spans.slice(start, start + SPAN_AGGREGATE_BATCH).map(async ({ from, to, tasa }) => {
+      const { count, total } = await api.sumRecords(ledgerId, { ...filters, moneda }, { from, to });
+      return { count, total: Math.round(total * tasa) };
+    }));
+    sum = parts.reduce((acc, part) => ({ count: acc.count + part.count, total: acc.total + part.total }), sum);
+  }
+  return sum;
+};
+
+// Sum in base-currency cents of the records matching the filters: the base currency and the total
+// count come from server-side aggregates, and every currency with a rate is converted on its own.
+// Records in a currency or period without a rate are counted as unconverted.
+const fetchConvertedSum = async (
+  ledgerId: string,
+  filters: RepositoryQuery,
+  range: DateRange | undefined,
+  rates: ExchangeRate[],
+  baseCurrency: string
+) => {
+  const [all, base, ...converted] = await Promise.all([
+    api.sumRecords(ledgerId, filters, range),
+    api.sumRecords(ledgerId, { ...filters, moneda: baseCurrency }, range),
+    ...convertibleCurrencies(rates, baseCurrency).map(moneda =>
+      fetchConvertedCurrency(ledgerId, filters, range, moneda, rates, baseCurrency)
+    ),
+  ]);
+  return {
+    total: converted.reduce((sum, part) => sum + part.total, base.total),
+    unconvertedCount: converted.reduce((count, part) => count - part.count, all.count - base.count),
+  };
+};
+
+export function useBalance() {
+  const { activeLedger, recordsRevision, baseCurrency } = useAppContext();
+  const ledgerId = activeLedger?.ledgerId;
+  const onError = useLoadError();
+  // The balance covers every date, so it needs every rate.
+  const { rates: exchangeRates, loading: ratesLoading } = useExchangeRates();
+  const [result, setResult] = useState({ total: 0, unconvertedCount: 0 });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!ledgerId || ratesLoading) return;
+    let cancelled = false;
+    setLoading(true);
+    fetchConvertedSum(ledgerId, {}, undefined, exchangeRates, baseCurrency)
+      .then(next => { if (!cancelled) setResult(next); })
+      .catch(onError)
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [ledgerId, recordsRevision, exchangeRates, ratesLoading, baseCurrency]);
+
+  return { balance: result.total, unconvertedCount: result.unconvertedCount, loading: loading || ratesLoading };
+}
+
+// Supported currencies other than the base one that active records are kept in.
+export function useForeignCurrencies() {
+  const { activeLedger, recordsRevision, baseCurrency } = useAppContext();
+  const ledgerId = activeLedger?.ledgerId;
+  const onError = useLoadError();
+  const [currencies, setCurrencies] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!ledgerId) return;
+    let cancelled = false;
+    const foreign = SUPPORTED_CURRENCIES.filter(moneda => moneda !== baseCurrency);
+    Promise.all(foreign.map(moneda => api.sumRecords(ledgerId, { moneda })))
+      .then(sums => { if (!cancelled) setCurrencies(foreign.filter((_, index) => sums[index].count > 0)); })
+      .catch(onError);
+    return () => { cancelled = true; };
+  }, [ledgerId, recordsRevision, baseCurrency]);
+
+  return currencies;
+}
+
+export type MovementTotals = Record<Movimiento, number>;
+
+const MOVIMIENTOS: Movimiento[] = ['INGRESOS', 'GASTOS', 'INVERSION'];
+
+// Per-year totals (absolute cents of the base currency) for each kind of movement, computed by
+// the backend so multi-year views never download the records themselves.
+export function useYearlyTotals(years: number[], enabled = true) {
+  const { activeLedger, recordsRevision, baseCurrency } = useAppContext();
+  const ledgerId = activeLedger?.ledgerId;
+  const onError = useLoadError();
+  const [totals, setTotals] = useState<Map<number, MovementTotals>>(new Map());
+  const [unconvertedCount, setUnconvertedCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const yearsKey = years.join(',');
+  const ratesRange = useMemo<DateRange>(() => {
+    const sorted = yearsKey.split(',').filter(Boolean).map(Number).sort((a, b) => a - b);
+    return sorted.length === 0 ? {} : { from: `${sorted[0]}-01-01`, to: `${sorted[sorted.length - 1]}-12-31` };
+  }, [yearsKey]);
+  const { rates: exchangeRates, loading: ratesLoading } = useExchangeRates(ratesRange, { enabled });
+
+  useEffect(() => {
+    if (!ledgerId || !enabled || ratesLoading) return;
+    let cancelled = false;
+    setLoading(true);
+    const fetchYear = async (year: number) => {
+      const range = { from: `${year}-01-01`, to: `${year}-12-31` };
+      const sums = await Promise.all(MOVIMIENTOS.map(movimiento =>
+        fetchConvertedSum(ledgerId, { movimiento }, range, exchangeRates, baseCurrency)
+      ));
+      const yearTotals = Object.fromEntries(MOVIMIENTOS.map((movimiento, index) => [movimiento, Math.abs(sums[index].total)])) as MovementTotals;
+      return { year, yearTotals, unconvertedCount: sums.reduce((count, sum) => count + sum.unconvertedCount, 0) };
+    };
+    Promise.all(years.map(fetchYear))
+      .then(results => {
+        if (cancelled) return;
+        setTotals(new Map(results.map(result => [result.year, result.yearTotals])));
+        setUnconvertedCount(results.reduce((count, result) => count + result.unconvertedCount, 0));
+      })
+      .catch(onError)
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [ledgerId, yearsKey, enabled, recordsRevision, exchangeRates, ratesLoading, baseCurrency]);
+
+  return { totals, unconvertedCount, loading: loading || ratesLoading };
+}
+
+// The last year of records, enough for form suggestions and for knowing which days have activity.
+export function useRecentRecords() {
+  const from = useMemo(() => toRecordDate(subDays(startOfDay(new Date()), RECENT_DAYS)), []);
+  const { records, loading } = useRecordWindow({ from });
+
+  const recordDates = useMemo(() => new Set(records.map(record => recordDayTimestamp(record.fecha))), [records]);
+  const descriptionOptions = useMemo(() => {
+    const descriptions = new Set(records.map(record => record.descripcion).filter(Boolean));
+    return Array.from(descriptions).map(descripcion => ({ value: descripcion, label: descripcion }));
+  }, [records]);
+
+  return { records, recordDates, descriptionOptions, loading };
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { ColumnMapping, MappingProfile } from '@/lib/import-mapping';
+import { normalizeName } from '@/lib/utils';
+
+// Column mappings are kept in this browser; they describe where files come from, not a ledger.
+const IMPORT_PROFILES_KEY = 'importProfiles';
+
+export function useImportProfiles() {
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(IMPORT_PROFILES_KEY);
+      if (stored) setProfiles(JSON.parse(stored));
+    } catch (error) {
+      console.error('No se pudieron leer los perfiles de importación:', error);
+    }
+  }, []);
+
+  const persist = (next: MappingProfile[]) => {
+    setProfiles(next);
+    localStorage.setItem(IMPORT_PROFILES_KEY, JSON.stringify(next));
+  };
+
+  // Saving under an existing name replaces that profile.
+  const saveProfile = (nombre: string, mapping: ColumnMapping) => {
+    const existing = profiles.find(profile => normalizeName(profile.nombre) === normalizeName(nombre));
+    const profile: MappingProfile = { id: existing?.id ?? uuidv4(), nombre: nombre.trim(), mapping };
+    persist(existing ? profiles.map(p => p.id === existing.id ? profile : p) : [...profiles, profile]);
+    return profile;
+  };
+
+  const deleteProfile = (id: string) => {
+    persist(profiles.filter(profile => profile.id !== id));
+  };
+
+  return { profiles, saveProfile, deleteProfile };
+}
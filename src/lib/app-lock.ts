@@ -0,0 +1,112 @@
+// The optional PIN lock of a device. It hides the screen from whoever walks up to an unattended
+// laptop or phone; it is not encryption: the data stays readable to anyone with the browser
+// profile. Settings are kept per user in this browser only, with the PIN as a salted PBKDF2 hash.
+
+const PIN_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const STORAGE_PREFIX = 'app-lock';
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 12;
+// After this many wrong PINs in a row, each new attempt has to wait.
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_RETRY_DELAY_MS = 30_000;
+
+// Minutes of inactivity before locking; null never locks on its own.
+export const IDLE_TIMEOUT_OPTIONS: { value: number | null; label: string }[] = [
+    { value: 1, label: '1 minuto' },
+    { value: 5, label: '5 minutos' },
+    { value: 15, label: '15 minutos' },
+    { value: 30, label: '30 minutos' },
+    { value: 60, label: '1 hora' },
+    { value: null, label: 'Nunca' },
+];
+
+export interface AppLockOptions {
+    idleMinutes: number | null;
+    // Lock as soon as the tab is hidden: another tab, the app switcher or a minimized window.
+    lockOnHide: boolean;
+}
+
+export interface AppLockConfig extends AppLockOptions {
+    pinHash: string;
+    salt: string;
+    iterations: number;
+}
+
+export const DEFAULT_LOCK_OPTIONS: AppLockOptions = { idleMinutes: 5, lockOnHide: false };
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) ?? []).map(pair => parseInt(pair, 16)));
+
+const hashPin = async (pin: string, salt: Uint8Array, iterations: number) => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+    return toHex(new Uint8Array(bits));
+};
+
+export const isValidPin = (pin: string) => new RegExp(`^\\d{${MIN_PIN_LENGTH},${MAX_PIN_LENGTH}}$`).test(pin);
+
+export const createLockConfig = async (pin: string, options: AppLockOptions): Promise<AppLockConfig> => {
+    if (!isValidPin(pin)) throw new Error(`El PIN debe tener entre ${MIN_PIN_LENGTH} y ${MAX_PIN_LENGTH} dígitos.`);
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    return { ...options, pinHash: await hashPin(pin, salt, PIN_ITERATIONS), salt: toHex(salt), iterations: PIN_ITERATIONS };
+};
+
+export const verifyPin = async (pin: string, config: AppLockConfig) => {
+    const hash = await hashPin(pin, fromHex(config.salt), config.iterations);
+    // Compare every character so the time taken does not depend on where they differ.
+    let difference = hash.length ^ config.pinHash.length;
+    for (let i = 0; i < Math.min(hash.length, config.pinHash.length); i++) {
+        difference |= hash.charCodeAt(i) ^ config.pinHash.charCodeAt(i);
+    }
+    return difference === 0;
+};
+
+const storageKey = (userId: string) => `${STORAGE_PREFIX}:${userId}`;
+const attemptsKey = (userId: string) => `${storageKey(userId)}:attempts`;
+
+// Wrong PINs in a row and, once there are too many, when the next attempt is allowed. Kept next to
+// the config so reloading the page does not reset the wait.
+export interface PinAttempts {
+    failed: number;
+    retryAt: number | null;
+}
+
+const NO_ATTEMPTS: PinAttempts = { failed: 0, retryAt: null };
+
+export const readLockConfig = (userId: string): AppLockConfig | null => {
+    try {
+        const config = JSON.parse(localStorage.getItem(storageKey(userId)) ?? 'null');
+        return config && typeof config.pinHash === 'string' && typeof config.salt === 'string' && Number.isInteger(config.iterations)
+            ? config
+            : null;
+    } catch {
+        return null;
+    }
+};
+
+export const saveLockConfig = (userId: string, config: AppLockConfig | null) => {
+    if (config) {
+        localStorage.setItem(storageKey(userId), JSON.stringify(config));
+    } else {
+        localStorage.removeItem(storageKey(userId));
+        localStorage.removeItem(attemptsKey(userId));
+    }
+};
+
+export const readPinAttempts = (userId: string): PinAttempts => {
+    try {
+        const attempts = JSON.parse(localStorage.getItem(attemptsKey(userId)) ?? 'null');
+        return attempts && Number.isInteger(attempts.failed) && (attempts.retryAt === null || typeof attempts.retryAt === 'number')
+            ? attempts
+            : NO_ATTEMPTS;
+    } catch {
+        return NO_ATTEMPTS;
+    }
+};
+
+export const savePinAttempts = (userId: string, attempts: PinAttempts) => {
+    if (attempts.failed > 0) localStorage.setItem(attemptsKey(userId), JSON.stringify(attempts));
+    else localStorage.removeItem(attemptsKey(userId));
+};
@@ -0,0 +1,61 @@
+import type { AuditAction, AuditChange, AuditEntry } from '@/types';
+import type { AuditEntryInput, CollectionName } from './repositories';
+
+export interface AuditActor {
+    uid: string;
+    email: string | null;
+}
+
+// Bookkeeping fields change on every write and would only add noise to the history.
+const IGNORED_FIELDS = new Set(['id', 'ledgerId', 'userId', 'createdAt', 'updatedAt', 'deletedAt']);
+
+// Firestore rejects undefined and stores Timestamps; keep only plain, comparable values.
+const toAuditValue = (value: unknown): unknown => {
+    if (value === undefined) return null;
+    if (value && typeof value === 'object' && 'toMillis' in value && typeof value.toMillis === 'function') {
+        return value.toMillis();
+    }
+    return value;
+};
+
+export const computeChanges = (before: Record<string, any> | null, after: Record<string, any> | null): AuditChange[] => {
+    const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+    const changes: AuditChange[] = [];
+    fields.forEach(field => {
+        if (IGNORED_FIELDS.has(field)) return;
+        const previous = toAuditValue(before?.[field]);
+        const next = toAuditValue(after?.[field]);
+        if (JSON.stringify(previous) !== JSON.stringify(next)) {
+            changes.push({ field, before: previous, after: next });
+        }
+    });
+    return changes.sort((a, b) => a.field.localeCompare(b.field));
+};
+
+export const createAuditEntry = (
+    collectionName: CollectionName,
+    entityId: string,
+    action: AuditAction,
+    before: Record<string, any> | null,
+    after: Record<string, any> | null,
+    ledgerId: string,
+    actor: AuditActor
+): AuditEntryInput => ({
+    ledgerId,
+    userId: actor.uid,
+    collectionName,
+    entityId,
+    action,
+    changes: computeChanges(before, after),
+    actorId: actor.uid,
+    actorEmail: actor.email,
+});
+
+export const AUDIT_ACTION_LABELS: Record<AuditEntry['action'], string> = {
+    create: 'Creado',
+    update: 'Modificado',
+    delete: 'Enviado a la papelera',
+    restore: 'Restaurado',
+    purge: 'Eliminado definitivamente',
+    import: 'Importado',
+};
@@ -0,0 +1,50 @@
+import { FirebaseError } from 'firebase/app';
+
+// Firebase accepts 6 characters; new accounts are asked for a little more.
+export const MIN_PASSWORD_LENGTH = 8;
+
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+    'auth/invalid-credential': 'El correo o la contraseña no son correctos.',
+    'auth/wrong-password': 'El correo o la contraseña no son correctos.',
+    'auth/user-not-found': 'El correo o la contraseña no son correctos.',
+    'auth/invalid-email': 'El correo electrónico no es válido.',
+    'auth/missing-email': 'Escribe tu correo electrónico.',
+    'auth/email-already-in-use': 'Ya existe una cuenta con ese correo.',
+    'auth/weak-password': `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`,
+    'auth/user-disabled': 'Esta cuenta está deshabilitada.',
+    'auth/too-many-requests': 'Demasiados intentos. Espera unos minutos y vuelve a intentarlo.',
+    'auth/network-request-failed': 'No hay conexión con el servidor de autenticación.',
+    'auth/popup-blocked': 'El navegador bloqueó la ventana de Google. Permite las ventanas emergentes y vuelve a intentarlo.',
+    'auth/account-exists-with-different-credential': 'Ese correo ya está registrado con otro método de acceso.',
+    'auth/operation-not-allowed': 'Este método de acceso no está habilitado en el proyecto de Firebase.',
+    'auth/requires-recent-login': 'Vuelve a iniciar sesión para continuar.',
+    'auth/user-token-expired': 'Tu sesión expiró. Vuelve a iniciar sesión.',
+};
+
+// Closing the Google window is not an error worth showing.
+export const isCancelledSignIn = (error: unknown) =>
+    error instanceof FirebaseError && ['auth/popup-closed-by-user', 'auth/cancelled-popup-request'].includes(error.code);
+
+// Errors refreshing the token that mean the session is over, as opposed to being offline.
+export const isSessionInvalid = (error: unknown) =>
+    error instanceof FirebaseError && ['auth/user-token-expired', 'auth/user-disabled', 'auth/user-not-found', 'auth/invalid-user-token'].includes(error.code);
+
+export const authErrorMessage = (error: unknown) => {
+    if (error instanceof FirebaseError) return AUTH_ERROR_MESSAGES[error.code] ?? 'No se pudo completar la operación. Vuelve a intentarlo.';
+    return error instanceof Error ? error.message : 'No se pudo completar la operación. Vuelve a intentarlo.';
+};
+
+// Only paths inside the app are followed after signing in; anything else could send the user to another site.
+export const safeRedirectPath = (path: string | null | undefined) =>
+    path && path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/\\') ? path : '/';
+
+// Where a signed-in user goes from the auth pages: accounts with a password must verify their email first.
+// `next` is the page the user was trying to open.
+export const afterSignInPath = (user: { emailVerified: boolean }, next?: string | null) => {
+    const destination = safeRedirectPath(next);
+    if (user.emailVerified) return destination;
+    return destination === '/' ? '/verify-email' : `/verify-email?next=${encodeURIComponent(destination)}`;
+};
+
+// The sign-in page, remembering the page to come back to.
+export const signInPath = (next: string) => next === '/' ? '/login' : `/login?next=${encodeURIComponent(next)}`;
@@ -0,0 +1,246 @@
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import type { BaseEntity, FinancialRecord, Integrante, Razon } from '@/types';
+import { recordFingerprint } from './duplicates';
+import { saveFile, type SaveOptions } from './files';
+import { CURRENT_RECORD_SCHEMA_VERSION, migrateRecord, needsMigration } from './migrations';
+import { normalizeName, toMillis } from './utils';
+
+// A full copy of a ledger: members, reasons and records, trash included, with their ids, dates
+// and protection flags. Unlike the CSV exports it can be restored as it was, into the same
+// ledger or, with new ids, into another ledger or account.
+
+const BACKUP_FORMAT = 'ledger-backup';
+// Bump when the layout of the file changes; every version up to this one can be restored.
+export const BACKUP_VERSION = 1;
+
+// Dates are saved as milliseconds so the file does not depend on the backend that wrote it.
+export type BackupItem<T extends BaseEntity> = Omit<T, 'ledgerId' | 'createdAt' | 'updatedAt' | 'deletedAt'> & {
+    createdAt: number;
+    updatedAt: number;
+    deletedAt?: number;
+};
+
+export interface LedgerBackup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    // CURRENT_RECORD_SCHEMA_VERSION of the app that wrote the file.
+    recordSchemaVersion: number;
+    createdAt: string;
+    ledger: { id: string; nombre: string };
+    integrantes: BackupItem<Integrante>[];
+    razones: BackupItem<Razon>[];
+    financialRecords: BackupItem<FinancialRecord>[];
+}
+
+// Everything in a ledger that a backup holds, trash included.
+export interface LedgerContents {
+    integrantes: Integrante[];
+    razones: Razon[];
+    financialRecords: FinancialRecord[];
+}
+
+const toBackupItem = <T extends BaseEntity>({ ledgerId, createdAt, updatedAt, deletedAt, ...item }: T) => ({
+    ...item,
+    createdAt: toMillis(createdAt),
+    updatedAt: toMillis(updatedAt),
+    ...(deletedAt !== undefined ? { deletedAt: toMillis(deletedAt) } : {}),
+}) as unknown as BackupItem<T>;
+
+export const createBackup = (ledger: { id: string; nombre: string }, contents: LedgerContents): LedgerBackup => ({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    recordSchemaVersion: CURRENT_RECORD_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    ledger,
+    integrantes: contents.integrantes.map(toBackupItem),
+    razones: contents.razones.map(toBackupItem),
+    financialRecords: contents.financialRecords.map(toBackupItem),
+});
+
+export const backupFilename = (backup: LedgerBackup) => {
+    const name = normalizeName(backup.ledger.nombre).replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'libro';
+    return `respaldo_${name}_${format(new Date(backup.createdAt), 'yyyy-MM-dd')}.json`;
+};
+
+export const downloadBackup = (backup: LedgerBackup, options: SaveOptions = {}) =>
+    saveFile(backupFilename(backup), new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }), options);
+
+// Unknown fields are dropped, so a file edited by hand cannot add fields the database rejects.
+const itemSchema = z.object({
+    id: z.string().min(1),
+    userId: z.string(),
+    createdAt: z.number(),
+    updatedAt: z.number(),
+    isDeleted: z.boolean().optional(),
+    deletedAt: z.number().optional(),
+});
+
+const backupSchema = z.object({
+    ledger: z.object({ id: z.string(), nombre: z.string() }),
+    createdAt: z.string(),
+    integrantes: z.array(itemSchema.extend({ nombre: z.string().min(1), isProtected: z.boolean().optional() })),
+    razones: z.array(itemSchema.extend({ descripcion: z.string().min(1), isQuickReason: z.boolean(), isProtected: z.boolean().optional() })),
+    // Records may be on an older schema (dates as dd/MM/yyyy, amounts in pesos, no currency).
+    financialRecords: z.array(itemSchema.extend({
+        fecha: z.string(),
+        integranteId: z.string(),
+        razonId: z.string(),
+        movimiento: z.enum(['INGRESOS', 'GASTOS', 'INVERSION']),
+        monto: z.number(),
+        descripcion: z.string(),
+        moneda: z.string().optional(),
+        schemaVersion: z.number().optional(),
+    })),
+});
+
+// Reads a backup file, refusing files written by a newer version of the app, and brings
+// its records up to the current schema.
+export const parseBackup = (text: string): LedgerBackup => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('El archivo no es una copia de seguridad válida.');
+    }
+    if (data?.format !== BACKUP_FORMAT) throw new Error('El archivo no es una copia de seguridad de esta aplicación.');
+    if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+        throw new Error('La copia de seguridad se creó con una versión más reciente de la aplicación. Actualízala para restaurarla.');
+    }
+    if (typeof data.recordSchemaVersion !== 'number' || data.recordSchemaVersion > CURRENT_RECORD_SCHEMA_VERSION) {
+        throw new Error(`La copia de seguridad usa la versión ${data.recordSchemaVersion} de los registros y esta aplicación solo conoce hasta la ${CURRENT_RECORD_SCHEMA_VERSION}.`);
+    }
+
+    const parsed = backupSchema.safeParse(data);
+    if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new Error(`La copia de seguridad está dañada (${issue.path.join('.')}: ${issue.message}).`);
+    }
+    const financialRecords = parsed.data.financialRecords.map(record => {
+        const current = record as unknown as FinancialRecord;
+        return (needsMigration(current) ? { ...current, ...migrateRecord(current) } : current) as unknown as BackupItem<FinancialRecord>;
+    });
+    return {
+        format: BACKUP_FORMAT,
+        version: data.version,
+        recordSchemaVersion: CURRENT_RECORD_SCHEMA_VERSION,
+        createdAt: parsed.data.createdAt,
+        ledger: parsed.data.ledger,
+        integrantes: parsed.data.integrantes as BackupItem<Integrante>[],
+        razones: parsed.data.razones as BackupItem<Razon>[],
+        financialRecords,
+    };
+};
+
+
+// --- Restore ---
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreOptions {
+    // "merge" adds what the ledger is missing; "replace" also moves to the trash whatever the
+    // backup does not have (protected members and reasons stay).
+    mode: RestoreMode;
+    // Gives every item a new id, as needed to restore into another ledger or account. Members and
+    // reasons are then matched by name and records by content instead of by id.
+    remapIds: boolean;
+    ledgerId: string;
+    userId: string;
+}
+
+export interface RestoreChanges<T extends BaseEntity> {
+    // New documents, written with the dates and trash state they had.
+    added: T[];
+    // Documents of the ledger overwritten with their version in the backup.
+    replaced: { before: T; after: T }[];
+    // Active documents missing from the backup, moved to the trash.
+    trashed: T[];
+    // Backup items the ledger already has.
+    skipped: number;
+}
+
+export interface RestorePlan {
+    integrantes: RestoreChanges<Integrante>;
+    razones: RestoreChanges<Razon>;
+    financialRecords: RestoreChanges<FinancialRecord>;
+}
+
+const toEntity = <T extends BaseEntity>(item: BackupItem<T>, id: string, options: RestoreOptions) => ({
+    ...item,
+    id,
+    ledgerId: options.ledgerId,
+    // The person restoring becomes the author: documents can only be created in one's own name.
+    userId: options.userId,
+    isDeleted: item.isDeleted ?? false,
+}) as unknown as T;
+
+// Decides, item by item, what restoring the backup does to the ledger. `existing` must hold
+// everything in the ledger, trash included. Returns the changes and the id each backup item got.
+const planCollection = <T extends BaseEntity & { isProtected?: boolean }>(
+    items: BackupItem<T>[],
+    existing: T[],
+    options: RestoreOptions,
+    // With remapIds, finds the active item of the ledger that a backup item stands for.
+    findMatch: (item: T) => T | undefined,
+    prepare: (item: BackupItem<T>) => BackupItem<T> = item => item
+) => {
+    const existingById = new Map(existing.map(item => [item.id, item]));
+    const ids = new Map<string, string>();
+    const changes: RestoreChanges<T> = { added: [], replaced: [], trashed: [], skipped: 0 };
+    const kept = new Set<string>();
+
+    items.map(prepare).forEach(item => {
+        const candidate = toEntity<T>(item, options.remapIds ? uuidv4() : item.id, options);
+        const current = options.remapIds ? findMatch(candidate) : existingById.get(item.id);
+        if (!current) {
+            changes.added.push(candidate);
+            ids.set(item.id, candidate.id);
+            return;
+        }
+        ids.set(item.id, current.id);
+        kept.add(current.id);
+        // Replacing overwrites items matched by id; items matched by content are only brought
+        // in or out of the trash to match the backup.
+        if (options.mode === 'replace' && (!options.remapIds || !!current.isDeleted !== !!candidate.isDeleted)) {
+            // Protection is only set when an item is created, and protected items never go to the trash.
+            const protection = 'isProtected' in current || 'isProtected' in candidate
+                ? { isProtected: current.isProtected ?? false, ...(current.isProtected ? { isDeleted: false } : {}) }
+                : {};
+            changes.replaced.push({ before: current, after: { ...candidate, id: current.id, ...protection } });
+        } else {
+            changes.skipped++;
+        }
+    });
+
+    if (options.mode === 'replace') {
+        changes.trashed = existing.filter(item => !item.isDeleted && !item.isProtected && !kept.has(item.id));
+    }
+    return { changes, ids };
+};
+
+export const planRestore = (backup: LedgerBackup, existing: LedgerContents, options: RestoreOptions): RestorePlan => {
+    // Ids are unique across ledgers, so keeping them elsewhere could overwrite the original ledger.
+    if (!options.remapIds && backup.ledger.id !== options.ledgerId) {
+        throw new Error('Para restaurar la copia en otro libro hay que asignar identificadores nuevos.');
+    }
+    // Content matches prefer active items, but an item already in the trash also counts as present.
+    const byKey = <T extends BaseEntity>(items: T[], key: (item: T) => string) =>
+        new Map([...items.filter(item => item.isDeleted), ...items.filter(item => !item.isDeleted)].map(item => [key(item), item]));
+    const integrantesByName = byKey(existing.integrantes, item => normalizeName(item.nombre));
+    const razonesByName = byKey(existing.razones, item => normalizeName(item.descripcion));
+    const integrantes = planCollection(backup.integrantes, existing.integrantes, options, item => integrantesByName.get(normalizeName(item.nombre)));
+    const razones = planCollection(backup.razones, existing.razones, options, item => razonesByName.get(normalizeName(item.descripcion)));
+
+    // In replace mode every active record is replaced, so only merging compares contents.
+    const byFingerprint = options.mode === 'merge' ? byKey(existing.financialRecords, recordFingerprint) : new Map<string, FinancialRecord>();
+    const financialRecords = planCollection(backup.financialRecords, existing.financialRecords, options,
+        record => byFingerprint.get(recordFingerprint(record)),
+        record => ({
+            ...record,
+            integranteId: integrantes.ids.get(record.integranteId) ?? record.integranteId,
+            razonId: razones.ids.get(record.razonId) ?? record.razonId,
+        }));
+
+    return { integrantes: integrantes.changes, razones: razones.changes, financialRecords: financialRecords.changes };
+};
@@ -0,0 +1,194 @@
+import { isValid } from 'date-fns';
+import type { ImportRow } from './import-preview';
+import { parseMoney } from './money';
+import { toRecordDate } from './dates';
+
+// Reads bank statements (OFX/QFX, QIF and ISO 20022 CAMT.053) into rows for the records
+// importer, so they go through the same preview, validation and duplicate checks as a CSV.
+
+export type StatementFormat = 'OFX' | 'QIF' | 'CAMT';
+// QIF does not say how its dates are written; US banks use month first.
+export type QifDateOrder = 'MDY' | 'DMY';
+
+export interface StatementEntry {
+    line: number;
+    // 'yyyy-MM-dd', or the text found when it could not be read, so the preview reports it.
+    fecha: string;
+    // Signed decimal text: negative for debits.
+    monto: string;
+    descripcion: string;
+    moneda: string;
+}
+
+export interface Statement {
+    format: StatementFormat;
+    entries: StatementEntry[];
+}
+
+export const STATEMENT_FILE_TYPES = '.ofx,.qfx,.qif,.xml';
+
+const lineAt = (text: string, index: number) => text.slice(0, index).split('\n').length;
+
+const decodeEntities = (value: string) => value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const formatDateParts = (year: number, month: number, day: number) => {
+    const date = new Date(year, month - 1, day);
+    return isValid(date) && date.getMonth() === month - 1 ? toRecordDate(date) : null;
+};
+
+// Amounts are rewritten with a dot as decimal separator; unreadable ones are kept as found.
+const normalizeAmount = (value: string, negate = false) => {
+    const cents = parseMoney(value);
+    if (cents === null) return value.trim();
+    const signed = negate ? -Math.abs(cents) : cents;
+    return (signed / 100).toFixed(2);
+};
+
+// OFX 1.x is SGML whose leaf tags are not closed; OFX 2.x is XML. Reading each value up to
+// the next tag or line break works for both.
+const ofxValue = (block: string, tag: string) => {
+    const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+    return match ? decodeEntities(match[1].trim()) : '';
+};
+
+const parseOfx = (text: string): StatementEntry[] => {
+    const moneda = ofxValue(text, 'CURDEF').toUpperCase();
+    const entries: StatementEntry[] = [];
+    const pattern = /<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>)|(?=<\/BANKTRANLIST>))/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const block = match[1];
+        const posted = ofxValue(block, 'DTPOSTED');
+        const dateMatch = /^(\d{4})(\d{2})(\d{2})/.exec(posted);
+        entries.push({
+            line: lineAt(text, match.index),
+            fecha: (dateMatch && formatDateParts(Number(dateMatch[1]), Number(dateMatch[2]), Number(dateMatch[3]))) || posted,
+            monto: normalizeAmount(ofxValue(block, 'TRNAMT')),
+            descripcion: ofxValue(block, 'MEMO') || ofxValue(block, 'NAME'),
+            moneda: ofxValue(block, 'CURRENCY') || moneda,
+        });
+    }
+    return entries;
+};
+
+// QIF dates come as "1/31/2024", "01/31'24", "31.01.2024" or "2024-01-31".
+const parseQifDate = (value: string, order: QifDateOrder) => {
+    const parts = value.replace(/'/g, '/').replace(/\s/g, '').split(/[/.-]/).map(Number);
+    if (parts.length !== 3 || parts.some(Number.isNaN)) return null;
+    if (String(value).trim().match(/^\d{4}/)) return formatDateParts(parts[0], parts[1], parts[2]);
+    const [first, second, rawYear] = parts;
+    const year = rawYear < 100 ? (rawYear < 70 ? 2000 + rawYear : 1900 + rawYear) : rawYear;
+    return order === 'MDY' ? formatDateParts(year, first, second) : formatDateParts(year, second, first);
+};
+
+const qifRecords = (text: string) => {
+    const records: { line: number; fields: Record<string, string> }[] = [];
+    let current: { line: number; fields: Record<string, string> } | null = null;
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('!')) return;
+        if (line === '^') {
+            if (current) records.push(current);
+            current = null;
+            return;
+        }
+        current ??= { line: index + 1, fields: {} };
+        const code = line[0];
+        // Split transactions repeat S/E/$ lines; only the first value of each code is kept.
+        if (current.fields[code] === undefined) current.fields[code] = line.slice(1).trim();
+    });
+    if (current) records.push(current);
+    return records;
+};
+
+// Guesses the date order from days that cannot be months; month first when nothing tells.
+export const detectQifDateOrder = (text: string): QifDateOrder => {
+    for (const { fields } of qifRecords(text)) {
+        const [first, second] = (fields.D ?? '').replace(/'/g, '/').split(/[/.-]/).map(Number);
+        if (first > 12) return 'DMY';
+        if (second > 12) return 'MDY';
+    }
+    return 'MDY';
+};
+
+const parseQif = (text: string, order: QifDateOrder): StatementEntry[] =>
+    qifRecords(text)
+        .filter(({ fields }) => fields.D !== undefined || fields.T !== undefined || fields.U !== undefined)
+        .map(({ line, fields }) => ({
+            line,
+            fecha: parseQifDate(fields.D ?? '', order) ?? fields.D ?? '',
+            monto: normalizeAmount(fields.T ?? fields.U ?? ''),
+            descripcion: fields.M || fields.P || '',
+            moneda: '',
+        }));
+
+// CAMT elements may carry a namespace prefix.
+const camtValue = (block: string, tag: string) => {
+    const match = new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([^<]*)<`, 'i').exec(block);
+    return match ? decodeEntities(match[1].trim()) : '';
+};
+
+const parseCamt = (text: string): StatementEntry[] => {
+    const entries: StatementEntry[] = [];
+    const pattern = /<(?:\w+:)?Ntry>([\s\S]*?)<\/(?:\w+:)?Ntry>/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const block = match[1];
+        const booking = /<(?:\w+:)?BookgDt>([\s\S]*?)<\/(?:\w+:)?BookgDt>/.exec(block)?.[1] ?? block;
+        const fecha = camtValue(booking, 'Dt') || camtValue(booking, 'DtTm').slice(0, 10);
+        const currency = /<(?:\w+:)?Amt\b[^>]*Ccy="([A-Z]{3})"/.exec(block)?.[1] ?? '';
+        const unstructured = Array.from(block.matchAll(/<(?:\w+:)?Ustrd>([^<]*)</g)).map(part => decodeEntities(part[1].trim()));
+        entries.push({
+            line: lineAt(text, match.index),
+            fecha,
+            monto: normalizeAmount(camtValue(block, 'Amt'), camtValue(block, 'CdtDbtInd').toUpperCase() === 'DBIT'),
+            descripcion: unstructured.join(' ') || camtValue(block, 'AddtlNtryInf'),
+            moneda: currency,
+        });
+    }
+    return entries;
+};
+
+const detectFormat = (text: string): StatementFormat | null => {
+    if (/OFXHEADER|<OFX>/i.test(text)) return 'OFX';
+    if (/camt\.053|<(?:\w+:)?BkToCstmrStmt>/.test(text)) return 'CAMT';
+    if (/^\s*!Type:/im.test(text) || /^\^\s*$/m.test(text)) return 'QIF';
+    return null;
+};
+
+export const parseStatement = (text: string, qifDateOrder: QifDateOrder = detectQifDateOrder(text)): Statement => {
+    const format = detectFormat(text);
+    if (!format) throw new Error('El archivo no es un estado de cuenta OFX, QIF o CAMT.053.');
+    const entries = format === 'OFX' ? parseOfx(text) : format === 'QIF' ? parseQif(text, qifDateOrder) : parseCamt(text);
+    if (entries.length === 0) throw new Error('El estado de cuenta no contiene movimientos.');
+    return { format, entries };
+};
+
+// OFX 1.x files from Spanish-speaking banks are often Windows-1252 rather than UTF-8.
+export const decodeStatement = (data: ArrayBuffer) => {
+    const head = new TextDecoder('ascii').decode(data.slice(0, 512));
+    const encoding = /CHARSET:\s*1252|encoding="windows-1252"/i.test(head) ? 'windows-1252' : 'utf-8';
+    return new TextDecoder(encoding).decode(data);
+};
+
+// Debits become expenses and credits income; the member and reason are chosen for the whole statement.
+export const statementRows = (
+    statement: Statement,
+    assignment: { integrantenombre: string; razondescripcion: string }
+): ImportRow[] => statement.entries.map(entry => ({
+    line: entry.line,
+    values: {
+        fecha: entry.fecha,
+        integrantenombre: assignment.integrantenombre,
+        movimiento: entry.monto.startsWith('-') ? 'GASTOS' : 'INGRESOS',
+        razondescripcion: assignment.razondescripcion,
+        descripcion: entry.descripcion,
+        monto: entry.monto,
+        moneda: entry.moneda,
+    },
+}));
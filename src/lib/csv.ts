@@ -0,0 +1,92 @@
+import { saveFile, type SaveOptions } from './files';
+
+// RFC 4180 CSV shared by every import and export: quoted fields may contain the delimiter,
+// doubled quotes and line breaks. Files are written with a UTF-8 BOM so Excel reads accents
+// correctly, and read with either ',' or ';' as delimiter, as spreadsheets in Spanish save them.
+
+export type CsvDelimiter = ',' | ';';
+export type CsvValue = string | number | boolean | null | undefined;
+
+export interface CsvRecord {
+    // Line of the file the record starts on; a quoted field can span several.
+    line: number;
+    fields: string[];
+}
+
+const BOM = '\uFEFF';
+
+// The delimiter used in the first record, ignoring anything inside quotes.
+export const detectDelimiter = (text: string): CsvDelimiter => {
+    let commas = 0;
+    let semicolons = 0;
+    let inQuotes = false;
+    for (const char of text) {
+        if (char === '"') inQuotes = !inQuotes;
+        else if (!inQuotes && (char === '\n' || char === '\r')) break;
+        else if (!inQuotes && char === ',') commas++;
+        else if (!inQuotes && char === ';') semicolons++;
+    }
+    return semicolons > commas ? ';' : ',';
+};
+
+// Splits the text into records. Blank lines are skipped; a missing closing quote throws, since
+// everything after it would otherwise end up in one field.
+export const parseCsv = (input: string, delimiter: CsvDelimiter = detectDelimiter(input.replace(BOM, ''))): CsvRecord[] => {
+    const text = input.startsWith(BOM) ? input.slice(1) : input;
+    const records: CsvRecord[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const endRecord = () => {
+        fields.push(field);
+        if (fields.length > 1 || fields[0] !== '') records.push({ line: recordLine, fields });
+        fields = [];
+        field = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                if (char === '\n') line++;
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            fields.push(field);
+            field = '';
+        } else if (char === '\r' || char === '\n') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            endRecord();
+            line++;
+            recordLine = line;
+        } else {
+            field += char;
+        }
+    }
+    if (inQuotes) throw new Error(`Hay comillas sin cerrar a partir de la línea ${recordLine}.`);
+    endRecord();
+    return records;
+};
+
+const formatField = (value: CsvValue, delimiter: CsvDelimiter) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim();
+    return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][], delimiter: CsvDelimiter = ','): string =>
+    rows.map(row => row.map(value => formatField(value, delimiter)).join(delimiter)).join('\r\n');
+
+// Saves the rows as a file in the browser.
+export const downloadCsv = (filename: string, rows: CsvValue[][], { delimiter = ',', ...options }: SaveOptions & { delimiter?: CsvDelimiter } = {}) =>
+    saveFile(filename, new Blob([BOM + toCsv(rows, delimiter)], { type: 'text/csv;charset=utf-8' }), options);
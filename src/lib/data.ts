@@ -1,7 +1,9 @@
 
-import { collection, getDocs, addDoc, doc, updateDoc, deleteDoc, writeBatch, query, where, Timestamp } from 'firebase/firestore';
-import { db } from './firebase';
-import type { FinancialRecord, Integrante, Razon, Cita, Movimiento } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+import { getRepositories, readAllPages, type AuditEntryInput, type BatchOperation, type CollectionName, type DateRange, type EntityInput, type EntityUpdate, type PageRequest, type Repository, type RepositoryQuery, type TrashCollectionName, type WindowQuery } from './repositories';
+import { createAuditEntry, type AuditActor } from './audit';
+import type { RestoreChanges, RestorePlan } from './backup';
+import type { AuditEntry, BaseEntity, ExchangeRate, FinancialRecord, Integrante, Ledger, LedgerInvitation, LedgerMember, LedgerRole, LedgerSettings, Razon, Cita } from '@/types';
 
 // Citas (Static Data)
 const CitasData: Cita[] = [
@@ -15,89 +17,532 @@ const CitasData: Cita[] = [
 
 // --- API Functions for Real-time model ---
 
-const addEntity = async (collectionName: string, data: any, userId: string) => {
-    if (!db) throw new Error("Firestore no está inicializado.");
-    const now = Timestamp.now();
-    await addDoc(collection(db, collectionName), {
-        ...data,
-        userId,
-        createdAt: now,
-        updatedAt: now,
-        isDeleted: false,
-    });
-};
-
-const updateEntity = async (collectionName: string, id: string, data: any) => {
-    if (!db) throw new Error("Firestore no está inicializado.");
-    const docRef = doc(db, collectionName, id);
-    await updateDoc(docRef, {
-        ...data,
-        updatedAt: Timestamp.now(),
-    });
-};
-
-const deleteEntity = async (collectionName: string, id: string) => {
-    if (!db) throw new Error("Firestore no está inicializado.");
+// Every write goes through the repository layer, which is backed by Firestore when
+// Firebase is configured and by the local IndexedDB store otherwise. Each change is
+// then appended to the audit log with the acting user and a field-level diff.
+
+// The ledger being written to and the user doing it.
+export interface WriteContext {
+    ledgerId: string;
+    actor: AuditActor;
+}
+
+const getRepository = (collectionName: CollectionName) => getRepositories()[collectionName] as unknown as Repository<BaseEntity>;
+
+const ownerOf = (ctx: WriteContext) => ({ ledgerId: ctx.ledgerId, userId: ctx.actor.uid });
+
+const recordAudit = async (entries: AuditEntryInput[]) => {
+    if (entries.length === 0) return;
+    try {
+        await getRepositories().auditLog.append(entries);
+    } catch (error) {
+        // The change itself was saved; a missing history entry must not make it look failed.
+        console.error("No se pudo registrar el cambio en el historial:", error);
+    }
+};
+
+const getExisting = async (collectionName: CollectionName, id: string, ledgerId: string) => {
+    const existing = await getRepository(collectionName).get(id);
+    if (!existing || existing.ledgerId !== ledgerId) throw new Error("El elemento ya no existe.");
+    return existing;
+};
+
+const addEntity = async (collectionName: CollectionName, data: Record<string, any>, ctx: WriteContext) => {
+    const id = await getRepository(collectionName).add(data, ownerOf(ctx));
+    await recordAudit([createAuditEntry(collectionName, id, 'create', null, data, ctx.ledgerId, ctx.actor)]);
+    return id;
+};
+
+// `expectedUpdatedAt` is the updatedAt (in milliseconds) of the version the caller edited; when
+// given, the update is refused with an UpdateConflictError if someone saved in the meantime.
+const updateEntity = async (collectionName: CollectionName, id: string, data: Record<string, any>, ctx: WriteContext, expectedUpdatedAt?: number) => {
+    const before = await getExisting(collectionName, id, ctx.ledgerId);
+    await getRepository(collectionName).update(id, data, expectedUpdatedAt);
+    await recordAudit([createAuditEntry(collectionName, id, 'update', before, { ...before, ...data }, ctx.ledgerId, ctx.actor)]);
+};
+
+const deleteEntity = async (collectionName: CollectionName, id: string, ctx: WriteContext) => {
+    const before = await getExisting(collectionName, id, ctx.ledgerId);
     // Soft delete
-    await updateEntity(collectionName, id, { isDeleted: true });
+    await getRepository(collectionName).softDelete(id);
+    await recordAudit([createAuditEntry(collectionName, id, 'delete', before, { ...before, isDeleted: true }, ctx.ledgerId, ctx.actor)]);
 };
 
 // Financial Records
-export const addFinancialRecord = (data: Omit<FinancialRecord, 'id' | 'userId' | 'createdAt' | 'updatedAt'>, userId: string) => addEntity('financialRecords', data, userId);
-export const updateFinancialRecord = (id: string, data: Partial<FinancialRecord>) => updateEntity('financialRecords', id, data);
-export const deleteFinancialRecord = (id: string) => deleteEntity('financialRecords', id);
+export const addFinancialRecord = (data: EntityInput<FinancialRecord>, ctx: WriteContext) => addEntity('financialRecords', data, ctx);
+export const updateFinancialRecord = (id: string, data: EntityUpdate<FinancialRecord>, ctx: WriteContext, expectedUpdatedAt?: number) =>
+    updateEntity('financialRecords', id, data, ctx, expectedUpdatedAt);
+export const deleteFinancialRecord = (id: string, ctx: WriteContext) => deleteEntity('financialRecords', id, ctx);
+
+// Financial record queries. Screens read only the slice they show instead of the whole ledger.
+
+const recordWindow = (ledgerId: string, range?: DateRange, filters: RepositoryQuery = {}, order?: WindowQuery['order']): WindowQuery => ({
+    filters: { ledgerId, isDeleted: false, ...filters },
+    dateField: 'fecha',
+    range,
+    order,
+});
+
+// Active records in the range, newest first (or oldest first with order 'asc'), at most `limit` of them.
+export const subscribeToRecordWindow = (
+    ledgerId: string,
+    range: DateRange | undefined,
+    limit: number | null,
+    onChange: (records: FinancialRecord[]) => void,
+    onError: (error: Error) => void,
+    order?: WindowQuery['order']
+) => getRepositories().financialRecords.subscribeWindow(recordWindow(ledgerId, range, {}, order), limit, onChange, onError);
+
+export const fetchRecordPage = (ledgerId: string, range: DateRange | undefined, request: PageRequest<FinancialRecord>) =>
+    getRepositories().financialRecords.page(recordWindow(ledgerId, range), request);
+
+// Reads every active record in the range. Reserved for explicit actions such as exporting or replacing.
+export const fetchAllRecords = (ledgerId: string, range?: DateRange) =>
+    readAllPages(getRepositories().financialRecords, recordWindow(ledgerId, range));
+
+// Reads every record of the ledger, trash included. Used for backups.
+export const fetchLedgerRecords = (ledgerId: string) =>
+    readAllPages(getRepositories().financialRecords, { filters: { ledgerId }, dateField: 'fecha' });
+
+// Count and sum of `monto` for the active records matching the filters, computed by the backend.
+export const sumRecords = (ledgerId: string, filters: RepositoryQuery, range?: DateRange) =>
+    getRepositories().financialRecords.aggregate(recordWindow(ledgerId, range, filters), 'monto');
+
+export const subscribeToDeletedRecords = (ledgerId: string, onChange: (records: FinancialRecord[]) => void, onError: (error: Error) => void) =>
+    getRepositories().financialRecords.subscribe({ ledgerId, isDeleted: true }, onChange, onError);
+
+// How many records point at a member or reason; records in the trash count too unless `activeOnly`.
+export const countRecordReferences = async (ledgerId: string, field: 'integranteId' | 'razonId', id: string, activeOnly = false) => {
+    const filters: RepositoryQuery = activeOnly ? { ledgerId, isDeleted: false, [field]: id } : { ledgerId, [field]: id };
+    const { count } = await getRepositories().financialRecords.aggregate({ filters, dateField: 'fecha' }, 'monto');
+    return count;
+};
 
 // Integrantes
-export const addIntegrante = (data: Omit<Integrante, 'id' | 'userId' | 'createdAt' | 'updatedAt'>, userId: string) => addEntity('integrantes', { ...data, nombre: data.nombre.toUpperCase() }, userId);
-export const updateIntegrante = (id:string, data: Partial<Integrante>) => updateEntity('integrantes', id, { ...data, nombre: data.nombre?.toUpperCase() });
-export const deleteIntegrante = (id: string) => deleteEntity('integrantes', id);
+export const addIntegrante = (data: EntityInput<Integrante>, ctx: WriteContext) => addEntity('integrantes', { ...data, nombre: data.nombre.toUpperCase() }, ctx);
+export const updateIntegrante = (id:string, data: EntityUpdate<Integrante>, ctx: WriteContext) => updateEntity('integrantes', id, data.nombre === undefined ? data : { ...data, nombre: data.nombre.toUpperCase() }, ctx);
+export const deleteIntegrante = (id: string, ctx: WriteContext) => deleteEntity('integrantes', id, ctx);
 
 // Razones
-export const addRazon = (data: Omit<Razon, 'id' | 'userId' | 'createdAt' | 'updatedAt'>, userId: string) => addEntity('razones', { ...data, descripcion: data.descripcion.toUpperCase() }, userId);
-export const updateRazon = (id: string, data: Partial<Razon>) => updateEntity('razones', id, { ...data, descripcion: data.descripcion?.toUpperCase() });
-export const deleteRazon = (id: string) => deleteEntity('razones', id);
+export const addRazon = (data: EntityInput<Razon>, ctx: WriteContext) => addEntity('razones', { ...data, descripcion: data.descripcion.toUpperCase() }, ctx);
+export const updateRazon = (id: string, data: EntityUpdate<Razon>, ctx: WriteContext) => updateEntity('razones', id, data.descripcion === undefined ? data : { ...data, descripcion: data.descripcion.toUpperCase() }, ctx);
+export const deleteRazon = (id: string, ctx: WriteContext) => deleteEntity('razones', id, ctx);
+
+// Exchange rates are reference data: deleting one removes it for good instead of using the trash.
+export const addExchangeRate = (data: EntityInput<ExchangeRate>, ctx: WriteContext) =>
+    addEntity('exchangeRates', { ...data, moneda: data.moneda.toUpperCase(), monedaBase: data.monedaBase.toUpperCase() }, ctx);
+export const updateExchangeRate = (id: string, data: EntityUpdate<ExchangeRate>, ctx: WriteContext) => updateEntity('exchangeRates', id, data, ctx);
+export const deleteExchangeRate = (rate: ExchangeRate, ctx: WriteContext) => purgeEntities('exchangeRates', [rate], ctx);
+
+// Rates never go to the trash, so unlike records they are not filtered by isDeleted.
+const rateWindow = (ledgerId: string, range?: DateRange, filters: RepositoryQuery = {}): WindowQuery => ({
+    filters: { ledgerId, ...filters },
+    dateField: 'fecha',
+    range,
+});
 
+// Rates dated in the range (every rate without one), newest first.
+export const subscribeToRateWindow = (ledgerId: string, range: DateRange | undefined, onChange: (rates: ExchangeRate[]) => void, onError: (error: Error) => void) =>
+    getRepositories().exchangeRates.subscribeWindow(rateWindow(ledgerId, range), null, onChange, onError);
 
-// Import logic
-export const importData = async <T extends { isProtected?: boolean }>(
-    collectionName: string,
-    itemsToImport: any[],
-    existingItems: T[],
+// The newest rate from `moneda` to `monedaBase` dated on or before `fecha`, or null.
+export const subscribeToLatestRate = (
+    ledgerId: string,
+    moneda: string,
+    monedaBase: string,
+    fecha: string,
+    onChange: (rate: ExchangeRate | null) => void,
+    onError: (error: Error) => void
+) => getRepositories().exchangeRates.subscribeWindow(rateWindow(ledgerId, { to: fecha }, { moneda, monedaBase }), 1, rates => onChange(rates[0] ?? null), onError);
+
+export const findExchangeRate = async (ledgerId: string, fecha: string, moneda: string, monedaBase: string) => {
+    const page = await getRepositories().exchangeRates.page(rateWindow(ledgerId, { from: fecha, to: fecha }, { moneda, monedaBase }), { size: 1, after: null });
+    return page.items[0] ?? null;
+};
+
+// Ledger settings (a single document per ledger)
+export const saveLedgerSettings = async (existing: LedgerSettings | null, data: EntityUpdate<LedgerSettings>, ctx: WriteContext) => {
+    if (existing) {
+        await updateEntity('ledgerSettings', existing.id, data, ctx);
+    } else {
+        await addEntity('ledgerSettings', data, ctx);
+    }
+};
+
+// Trash
+export const restoreEntity = async (collectionName: CollectionName, id: string, ctx: WriteContext) => {
+    const before = await getExisting(collectionName, id, ctx.ledgerId);
+    await getRepository(collectionName).restore(id);
+    await recordAudit([createAuditEntry(collectionName, id, 'restore', before, { ...before, isDeleted: false }, ctx.ledgerId, ctx.actor)]);
+};
+
+export const purgeEntities = async (collectionName: CollectionName, items: BaseEntity[], ctx: WriteContext) => {
+    await getRepository(collectionName).purge(items.map(item => item.id));
+    await recordAudit(items.map(item => createAuditEntry(collectionName, item.id, 'purge', item, null, ctx.ledgerId, ctx.actor)));
+};
+
+// History
+export const subscribeToHistory = (
+    ledgerId: string,
+    entityId: string,
+    onChange: (entries: AuditEntry[]) => void,
+    onError: (error: Error) => void
+) => getRepositories().auditLog.subscribe({ ledgerId, entityId }, onChange, onError);
+
+
+// Ledgers and memberships
+
+export const membershipId = (ledgerId: string, memberId: string) => `${ledgerId}_${memberId}`;
+
+// Creates a ledger owned by the actor. The personal ledger passes the user's uid as its id.
+export const createLedger = async (nombre: string, actor: AuditActor, id?: string) => {
+    const ledgerId = id ?? uuidv4();
+    const ctx: WriteContext = { ledgerId, actor };
+    const ledgerData: EntityInput<Ledger> = { nombre };
+    const memberData: EntityInput<LedgerMember> = { memberId: actor.uid, email: actor.email, role: 'owner', ledgerNombre: nombre };
+    // Written together: access rules only make the creator owner in the write that creates the ledger.
+    const memberId = membershipId(ledgerId, actor.uid);
+    await getRepositories().commit([
+        { collectionName: 'ledgers', operations: [{ type: 'add', id: ledgerId, data: ledgerData, owner: ownerOf(ctx) }] },
+        { collectionName: 'ledgerMembers', operations: [{ type: 'add', id: memberId, data: memberData, owner: ownerOf(ctx) }] },
+    ]);
+    await recordAudit([
+        createAuditEntry('ledgers', ledgerId, 'create', null, ledgerData, ledgerId, actor),
+        createAuditEntry('ledgerMembers', memberId, 'create', null, memberData, ledgerId, actor),
+    ]);
+    return ledgerId;
+};
+
+// Renaming also refreshes the name copied into every membership.
+export const renameLedger = async (nombre: string, members: LedgerMember[], ctx: WriteContext) => {
+    await updateEntity('ledgers', ctx.ledgerId, { nombre }, ctx);
+    await getRepositories().ledgerMembers.batch(members.map(member => ({ type: 'update', id: member.id, data: { ledgerNombre: nombre } })));
+};
+
+// Assigns everything the user created before ledgers existed to their personal ledger.
+export const adoptLegacyData = async (userId: string, ledgerId: string) => {
+    const repositories = getRepositories();
+    const adopted = await Promise.all([
+        repositories.integrantes.adoptLegacy(userId, ledgerId),
+        repositories.razones.adoptLegacy(userId, ledgerId),
+        repositories.financialRecords.adoptLegacy(userId, ledgerId),
+        repositories.exchangeRates.adoptLegacy(userId, ledgerId),
+        repositories.ledgerSettings.adoptLegacy(userId, ledgerId),
+        repositories.auditLog.adoptLegacy(userId, ledgerId),
+    ]);
+    return adopted.reduce((total, count) => total + count, 0);
+};
+
+export const subscribeToMemberships = (memberId: string, onChange: (members: LedgerMember[]) => void, onError: (error: Error) => void) =>
+    getRepositories().ledgerMembers.subscribe({ memberId }, onChange, onError);
+
+export const subscribeToLedgerMembers = (ledgerId: string, onChange: (members: LedgerMember[]) => void, onError: (error: Error) => void) =>
+    getRepositories().ledgerMembers.subscribe({ ledgerId }, onChange, onError);
+
+export const subscribeToLedgerInvitations = (ledgerId: string, onChange: (invitations: LedgerInvitation[]) => void, onError: (error: Error) => void) =>
+    getRepositories().ledgerInvitations.subscribe({ ledgerId, status: 'pending' }, onChange, onError);
+
+export const subscribeToReceivedInvitations = (email: string, onChange: (invitations: LedgerInvitation[]) => void, onError: (error: Error) => void) =>
+    getRepositories().ledgerInvitations.subscribe({ email: email.toLowerCase(), status: 'pending' }, onChange, onError);
+
+export const changeMemberRole = (member: LedgerMember, role: LedgerRole, ctx: WriteContext) => updateEntity('ledgerMembers', member.id, { role }, ctx);
+
+// Removing someone else also revokes their invitation, so it cannot be used to join again.
+export const removeMember = async (member: LedgerMember, ctx: WriteContext) => {
+    const invitation = member.memberId !== ctx.actor.uid && member.email
+        ? await getRepositories().ledgerInvitations.get(invitationId(ctx.ledgerId, member.email))
+        : null;
+    if (!invitation || invitation.status === 'revoked') return purgeEntities('ledgerMembers', [member], ctx);
+    await getRepositories().commit([
+        { collectionName: 'ledgerMembers', operations: [{ type: 'purge', id: member.id }] },
+        { collectionName: 'ledgerInvitations', operations: [{ type: 'update', id: invitation.id, data: { status: 'revoked' } }] },
+    ]);
+    await recordAudit([
+        createAuditEntry('ledgerMembers', member.id, 'purge', member, null, ctx.ledgerId, ctx.actor),
+        createAuditEntry('ledgerInvitations', invitation.id, 'update', invitation, { ...invitation, status: 'revoked' }, ctx.ledgerId, ctx.actor),
+    ]);
+};
+
+// One invitation per ledger and address, so access rules can look it up when it is accepted.
+// Inviting the same address again reopens it.
+export const invitationId = (ledgerId: string, email: string) => `${ledgerId}_${email.trim().toLowerCase()}`;
+
+export const inviteMember = async (email: string, role: LedgerRole, ledgerNombre: string, ctx: WriteContext) => {
+    const data: EntityInput<LedgerInvitation> = {
+        email: email.trim().toLowerCase(),
+        role,
+        ledgerNombre,
+        status: 'pending',
+        invitedByEmail: ctx.actor.email,
+    };
+    const id = invitationId(ctx.ledgerId, data.email);
+    await getRepositories().ledgerInvitations.batch([{ type: 'add', id, data, owner: ownerOf(ctx) }]);
+    await recordAudit([createAuditEntry('ledgerInvitations', id, 'create', null, data, ctx.ledgerId, ctx.actor)]);
+    return id;
+};
+
+export const revokeInvitation = (invitation: LedgerInvitation, ctx: WriteContext) =>
+    updateEntity('ledgerInvitations', invitation.id, { status: 'revoked' }, ctx);
+
+// The membership and the accepted status are written together: access rules only allow joining
+// when the same write moves a pending invitation to accepted.
+export const acceptInvitation = async (invitation: LedgerInvitation, actor: AuditActor) => {
+    const ctx: WriteContext = { ledgerId: invitation.ledgerId, actor };
+    const memberId = membershipId(invitation.ledgerId, actor.uid);
+    const memberData: EntityInput<LedgerMember> = { memberId: actor.uid, email: actor.email, role: invitation.role, ledgerNombre: invitation.ledgerNombre };
+    await getRepositories().commit([
+        { collectionName: 'ledgerMembers', operations: [{ type: 'add', id: memberId, data: memberData, owner: ownerOf(ctx) }] },
+        { collectionName: 'ledgerInvitations', operations: [{ type: 'update', id: invitation.id, data: { status: 'accepted' } }] },
+    ]);
+    await recordAudit([createAuditEntry('ledgerMembers', memberId, 'create', null, memberData, invitation.ledgerId, actor)]);
+    return invitation.ledgerId;
+};
+
+export const declineInvitation = (invitation: LedgerInvitation) =>
+    getRepositories().ledgerInvitations.update(invitation.id, { status: 'declined' });
+
+
+// --- Bulk import ---
+
+// Imports are written in chunks that each fit in one Firestore batch (at most 500 writes).
+// New documents get ids derived from the job id, so after a failure it can be told whether
+// a chunk was written, and the import resumed or rolled back without duplicating anything.
+export const IMPORT_CHUNK_SIZE = 400;
+
+export interface ImportJob {
+    id: string;
+    collectionName: TrashCollectionName;
+    ledgerId: string;
+    mode: 'add' | 'replace';
+    // Applied in this order: existing items moved to the trash (replace mode only), then the new items.
+    deletions: string[];
+    additions: { id: string; data: Record<string, any> }[];
+    // Members and reasons the imported records name that did not exist yet. They are created
+    // before the first chunk and go to the trash with everything else when the import is undone.
+    newEntries?: ImportEntry[];
+    // Chunks before this one have been written.
+    nextChunk: number;
+    // Set when the last attempt stopped with an error on this chunk.
+    failedChunk?: number;
+}
+
+export interface ImportEntry {
+    collectionName: 'integrantes' | 'razones';
+    id: string;
+    data: Record<string, any>;
+}
+
+// A member or reason to create for the imported records, stored like addIntegrante and addRazon would.
+export const planImportEntry = (collectionName: ImportEntry['collectionName'], name: string): ImportEntry => ({
+    collectionName,
+    id: uuidv4(),
+    data: collectionName === 'integrantes'
+        ? { nombre: name.toUpperCase(), isProtected: false }
+        : { descripcion: name.toUpperCase(), isQuickReason: false, isProtected: false },
+});
+
+// The job's new entries grouped in batches of one collection each.
+const importEntryBatches = (job: ImportJob) => (['integrantes', 'razones'] as const).flatMap(collectionName => {
+    const entries = (job.newEntries ?? []).filter(entry => entry.collectionName === collectionName);
+    const batches: ImportEntry[][] = [];
+    for (let start = 0; start < entries.length; start += IMPORT_CHUNK_SIZE) batches.push(entries.slice(start, start + IMPORT_CHUNK_SIZE));
+    return batches;
+});
+
+// As with chunks, a batch's first entry tells whether it was written by an earlier attempt.
+const isEntryBatchWritten = async ([first]: ImportEntry[]) => (await getRepository(first.collectionName).get(first.id)) !== null;
+
+const createImportEntries = async (job: ImportJob, ctx: WriteContext) => {
+    for (const entries of importEntryBatches(job)) {
+        if (await isEntryBatchWritten(entries)) continue;
+        const { collectionName } = entries[0];
+        await getRepository(collectionName).batch(entries.map(({ id, data }) => ({ type: 'add' as const, id, data, owner: ownerOf(ctx) })));
+        await recordAudit(entries.map(({ id, data }) => createAuditEntry(collectionName, id, 'import', null, data, ctx.ledgerId, ctx.actor)));
+    }
+};
+
+const trashImportEntries = async (job: ImportJob, ctx: WriteContext) => {
+    for (const entries of importEntryBatches(job)) {
+        if (!(await isEntryBatchWritten(entries))) continue;
+        const { collectionName } = entries[0];
+        await getRepository(collectionName).batch(entries.map(({ id }) => ({ type: 'softDelete' as const, id })));
+        await recordAudit(entries.map(({ id }) => createAuditEntry(collectionName, id, 'delete', { isDeleted: false }, { isDeleted: true }, ctx.ledgerId, ctx.actor)));
+    }
+};
+
+type ImportStep = { type: 'delete'; id: string } | { type: 'add'; id: string; data: Record<string, any> };
+
+export const importChunkCount = (job: ImportJob) => Math.ceil((job.deletions.length + job.additions.length) / IMPORT_CHUNK_SIZE);
+
+const importChunk = (job: ImportJob, chunk: number): ImportStep[] => {
+    const steps: ImportStep[] = [
+        ...job.deletions.map(id => ({ type: 'delete' as const, id })),
+        ...job.additions.map(({ id, data }) => ({ type: 'add' as const, id, data })),
+    ];
+    return steps.slice(chunk * IMPORT_CHUNK_SIZE, (chunk + 1) * IMPORT_CHUNK_SIZE);
+};
+
+// Batches are all-or-nothing, so the chunk's first step tells whether the whole chunk was written:
+// its new document exists, or the item it trashes (which was active when planned) is in the trash.
+const isChunkWritten = async (job: ImportJob, chunk: number) => {
+    const [first] = importChunk(job, chunk);
+    if (!first) return false;
+    const item = await getRepository(job.collectionName).get(first.id);
+    return first.type === 'add' ? item !== null : !!item?.isDeleted;
+};
+
+export const planImport = (
+    collectionName: TrashCollectionName,
+    itemsToImport: Record<string, any>[],
+    existingItems: (BaseEntity & { isProtected?: boolean })[],
     getUniqueKey: (item: any) => string,
     mode: 'add' | 'replace',
-    userId: string
-) => {
-    if (!db) throw new Error("Firestore no está inicializado.");
-    const batch = writeBatch(db);
-
-    if (mode === 'replace') {
-        existingItems.forEach(item => {
-            if (!item.isProtected) {
-                const docRef = doc(db, collectionName, (item as any).id);
-                batch.update(docRef, { isDeleted: true, updatedAt: Timestamp.now() });
-            }
-        });
-    }
+    ctx: WriteContext,
+    newEntries: ImportEntry[] = []
+): ImportJob => {
+    const itemsToDelete = (mode === 'replace')
+        ? existingItems.filter(item => !item.isProtected)
+        : [];
 
     const itemsToAdd = (mode === 'add')
         ? itemsToImport.filter(item => 
             !existingItems.some(existing => getUniqueKey(existing).toLowerCase() === getUniqueKey(item).toLowerCase())
           )
         : itemsToImport;
-        
-    itemsToAdd.forEach(item => {
-        const docRef = doc(collection(db, collectionName));
-        const now = Timestamp.now();
-        batch.set(docRef, { 
-            ...item, 
-            userId,
-            createdAt: now,
-            updatedAt: now,
-            isDeleted: false
-        });
-    });
-
-    await batch.commit();
+
+    const id = uuidv4();
+    return {
+        id,
+        collectionName,
+        ledgerId: ctx.ledgerId,
+        mode,
+        deletions: itemsToDelete.map(item => item.id),
+        additions: itemsToAdd.map((data, index) => ({ id: `${id}-${index}`, data })),
+        ...(newEntries.length > 0 && { newEntries }),
+        nextChunk: 0,
+    };
+};
+
+// Writes the remaining chunks in order. `onChange` receives the job after every chunk and
+// when a chunk fails, so the caller can keep it for resuming.
+export const runImport = async (job: ImportJob, ctx: WriteContext, onChange: (job: ImportJob) => void) => {
+    if (job.ledgerId !== ctx.ledgerId) throw new Error("La importación pertenece a otro libro.");
+    const repository = getRepository(job.collectionName);
+    const chunkCount = importChunkCount(job);
+    let current = job;
+    if (job.nextChunk === 0) {
+        try {
+            await createImportEntries(job, ctx);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new Error(`No se pudieron crear los integrantes y razones nuevos: ${reason}`);
+        }
+    }
+    for (let chunk = job.nextChunk; chunk < chunkCount; chunk++) {
+        const steps = importChunk(job, chunk);
+        try {
+            // The chunk that failed last time may have been written without the confirmation arriving.
+            if (chunk !== current.failedChunk || !(await isChunkWritten(current, chunk))) {
+                await repository.batch(steps.map(step => step.type === 'add'
+                    ? { type: 'add' as const, id: step.id, data: step.data, owner: ownerOf(ctx) }
+                    : { type: 'softDelete' as const, id: step.id }));
+                await recordAudit(steps.map(step => step.type === 'add'
+                    ? createAuditEntry(job.collectionName, step.id, 'import', null, step.data, ctx.ledgerId, ctx.actor)
+                    : createAuditEntry(job.collectionName, step.id, 'delete', { isDeleted: false }, { isDeleted: true }, ctx.ledgerId, ctx.actor)));
+            }
+        } catch (error) {
+            onChange({ ...current, failedChunk: chunk });
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new Error(`No se pudo importar el bloque ${chunk + 1} de ${chunkCount}: ${reason}`);
+        }
+        current = { ...current, nextChunk: chunk + 1, failedChunk: undefined };
+        onChange(current);
+    }
+    return current;
+};
+
+// Undoes the chunks already written, newest first: new items go to the trash and the
+// items that replace mode had trashed are restored. The members and reasons it created go last.
+export const rollbackImport = async (job: ImportJob, ctx: WriteContext, onChange: (job: ImportJob) => void) => {
+    if (job.ledgerId !== ctx.ledgerId) throw new Error("La importación pertenece a otro libro.");
+    const repository = getRepository(job.collectionName);
+    let current = job;
+    const lastWritten = job.failedChunk !== undefined && await isChunkWritten(job, job.failedChunk) ? job.failedChunk : job.nextChunk - 1;
+    for (let chunk = lastWritten; chunk >= 0; chunk--) {
+        const steps = importChunk(job, chunk);
+        try {
+            await repository.batch(steps.map(step => step.type === 'add'
+                ? { type: 'softDelete' as const, id: step.id }
+                : { type: 'restore' as const, id: step.id }));
+            await recordAudit(steps.map(step => step.type === 'add'
+                ? createAuditEntry(job.collectionName, step.id, 'delete', { isDeleted: false }, { isDeleted: true }, ctx.ledgerId, ctx.actor)
+                : createAuditEntry(job.collectionName, step.id, 'restore', { isDeleted: true }, { isDeleted: false }, ctx.ledgerId, ctx.actor)));
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new Error(`No se pudo deshacer el bloque ${chunk + 1} de la importación: ${reason}`);
+        }
+        current = { ...current, nextChunk: chunk, failedChunk: undefined };
+        onChange(current);
+    }
+    try {
+        await trashImportEntries(job, ctx);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`No se pudieron quitar los integrantes y razones creados por la importación: ${reason}`);
+    }
+    return current;
+};
+
+
+// --- Backup restore ---
+
+type RestoreStep<T extends BaseEntity> = { operation: BatchOperation<T>; audit: AuditEntryInput };
+
+// Fields a restore may overwrite in an existing document; the repository owns the rest.
+const restorableFields = <T extends BaseEntity>({ id, ledgerId, userId, createdAt, updatedAt, isDeleted, deletedAt, ...data }: T) => data as EntityUpdate<T>;
+
+const restoreSteps = <T extends BaseEntity>(collectionName: TrashCollectionName, changes: RestoreChanges<T>, ctx: WriteContext): RestoreStep<T>[] => [
+    ...changes.added.map(item => ({
+        operation: { type: 'put' as const, item },
+        audit: createAuditEntry(collectionName, item.id, 'import', null, restorableFields(item), ctx.ledgerId, ctx.actor),
+    })),
+    ...changes.replaced.flatMap(({ before, after }) => {
+        const steps: RestoreStep<T>[] = [{
+            operation: { type: 'update', id: before.id, data: restorableFields(after) },
+            audit: createAuditEntry(collectionName, before.id, 'import', restorableFields(before), restorableFields(after), ctx.ledgerId, ctx.actor),
+        }];
+        // The trash state goes through the repository so deletedAt is kept consistent.
+        if (!!after.isDeleted !== !!before.isDeleted) {
+            steps.push({
+                operation: { type: after.isDeleted ? 'softDelete' : 'restore', id: before.id },
+                audit: createAuditEntry(collectionName, before.id, after.isDeleted ? 'delete' : 'restore', { isDeleted: !!before.isDeleted }, { isDeleted: !!after.isDeleted }, ctx.ledgerId, ctx.actor),
+            });
+        }
+        return steps;
+    }),
+    ...changes.trashed.map(item => ({
+        operation: { type: 'softDelete' as const, id: item.id },
+        audit: createAuditEntry(collectionName, item.id, 'delete', { isDeleted: false }, { isDeleted: true }, ctx.ledgerId, ctx.actor),
+    })),
+];
+
+// Writes a restore plan: members and reasons first, so records never point at something missing,
+// each in chunks that fit in one batch. Unlike file imports a failed restore is not resumable;
+// running it again in merge mode completes it.
+export const restoreBackup = async (plan: RestorePlan, ctx: WriteContext) => {
+    const collections: [TrashCollectionName, RestoreChanges<any>][] = [
+        ['integrantes', plan.integrantes],
+        ['razones', plan.razones],
+        ['financialRecords', plan.financialRecords],
+    ];
+    for (const [collectionName, changes] of collections) {
+        const steps = restoreSteps(collectionName, changes, ctx);
+        for (let start = 0; start < steps.length; start += IMPORT_CHUNK_SIZE) {
+            const chunk = steps.slice(start, start + IMPORT_CHUNK_SIZE);
+            await getRepository(collectionName).batch(chunk.map(step => step.operation));
+            await recordAudit(chunk.map(step => step.audit));
+        }
+    }
 };
 
 
@@ -0,0 +1,54 @@
+import { format, isValid, parse, startOfDay } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { FinancialRecord } from '@/types';
+import { toMillis } from './utils';
+
+// Record dates are stored as ISO calendar dates ('yyyy-MM-dd'). They sort lexicographically
+// in chronological order, so Firestore can filter and order by them directly.
+export const RECORD_DATE_FORMAT = 'yyyy-MM-dd';
+// Format used before the migration and still accepted in CSV files.
+export const LEGACY_RECORD_DATE_FORMAT = 'dd/MM/yyyy';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const LEGACY_DATE_PATTERN = /^\d{1,2}\/\d{1,2}\/\d{4}$/;
+
+export const isLegacyRecordDate = (fecha: string) => LEGACY_DATE_PATTERN.test(fecha.trim());
+
+// Parses a stored record date. Returns an invalid Date when the value is malformed.
+export const parseRecordDate = (fecha: string | undefined | null): Date => {
+    if (!fecha || !ISO_DATE_PATTERN.test(fecha)) return new Date(NaN);
+    return parse(fecha, RECORD_DATE_FORMAT, new Date());
+};
+
+export const toRecordDate = (date: Date): string => format(date, RECORD_DATE_FORMAT);
+
+// Accepts either the ISO or the legacy format and returns the canonical ISO string, or null if invalid.
+export const normalizeRecordDate = (value: string | undefined | null): string | null => {
+    const trimmed = value?.trim();
+    if (!trimmed) return null;
+    let date: Date;
+    if (ISO_DATE_PATTERN.test(trimmed)) {
+        date = parse(trimmed, RECORD_DATE_FORMAT, new Date());
+    } else if (LEGACY_DATE_PATTERN.test(trimmed)) {
+        date = parse(trimmed, LEGACY_RECORD_DATE_FORMAT, new Date());
+    } else {
+        return null;
+    }
+    return isValid(date) ? toRecordDate(date) : null;
+};
+
+export const isValidRecordDate = (fecha: string | undefined | null) => isValid(parseRecordDate(fecha));
+
+// Display helper shared by every page; `pattern` is a date-fns format in Spanish locale.
+export const formatRecordDate = (fecha: string | undefined | null, pattern = 'dd MMM yyyy') => {
+    const date = parseRecordDate(fecha);
+    return isValid(date) ? format(date, pattern, { locale: es }) : 'Fecha inválida';
+};
+
+export const recordDayTimestamp = (fecha: string) => startOfDay(parseRecordDate(fecha)).getTime();
+
+// Newest first; records on the same day are ordered by creation time.
+export const compareRecordsByDateDesc = (a: FinancialRecord, b: FinancialRecord) => {
+    if (a.fecha !== b.fecha) return (b.fecha || '').localeCompare(a.fecha || '');
+    return toMillis(b.createdAt) - toMillis(a.createdAt);
+};
@@ -0,0 +1,77 @@
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import type { FinancialRecord } from '@/types';
+import { parseRecordDate, toRecordDate } from './dates';
+import { signedCents } from './money';
+import type { DateRange } from './repositories';
+
+// Recognises records that are already in the ledger when a file is imported again.
+
+type RecordIdentity = Pick<FinancialRecord, 'fecha' | 'integranteId' | 'razonId' | 'movimiento' | 'monto' | 'descripcion'>;
+
+// Same member, reason, movement and amount this many days apart may be one transaction
+// entered with a different date, so it is worth a second look.
+export const NEAR_DUPLICATE_DAYS = 2;
+
+const normalizeDescription = (descripcion: string | undefined) => (descripcion ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Deterministic identity of a record's content. The amount is compared signed, so it does
+// not matter whether the record has been through `signedCents` yet.
+export const recordFingerprint = (record: RecordIdentity) => [
+    record.fecha,
+    record.integranteId,
+    record.razonId,
+    record.movimiento,
+    signedCents(record.movimiento, record.monto),
+    normalizeDescription(record.descripcion),
+].join('|');
+
+const isNearDuplicate = (record: RecordIdentity, existing: RecordIdentity) =>
+    record.integranteId === existing.integranteId
+    && record.razonId === existing.razonId
+    && record.movimiento === existing.movimiento
+    && signedCents(record.movimiento, record.monto) === signedCents(existing.movimiento, existing.monto)
+    && Math.abs(differenceInCalendarDays(parseRecordDate(record.fecha), parseRecordDate(existing.fecha))) <= NEAR_DUPLICATE_DAYS;
+
+// The dates existing records must fall in to be compared with the imported ones.
+export const duplicateSearchRange = (records: Pick<FinancialRecord, 'fecha'>[]): DateRange | null => {
+    if (records.length === 0) return null;
+    const dates = records.map(record => record.fecha).sort();
+    return {
+        from: toRecordDate(addDays(parseRecordDate(dates[0]), -NEAR_DUPLICATE_DAYS)),
+        to: toRecordDate(addDays(parseRecordDate(dates[dates.length - 1]), NEAR_DUPLICATE_DAYS)),
+    };
+};
+
+export interface DuplicateReport<T> {
+    // Not in the ledger.
+    unique: T[];
+    // Identical to a record already in the ledger.
+    exact: T[];
+    // Resembling existing records closely enough to ask before importing them.
+    near: { record: T; matches: FinancialRecord[] }[];
+}
+
+// Each existing record accounts for at most one imported record, so a file that repeats a
+// transaction on purpose keeps the copies the ledger does not have yet.
+export const findDuplicates = <T extends RecordIdentity>(imported: T[], existing: FinancialRecord[]): DuplicateReport<T> => {
+    const available = new Map<string, number>();
+    existing.forEach(record => {
+        const fingerprint = recordFingerprint(record);
+        available.set(fingerprint, (available.get(fingerprint) ?? 0) + 1);
+    });
+
+    const report: DuplicateReport<T> = { unique: [], exact: [], near: [] };
+    imported.forEach(record => {
+        const fingerprint = recordFingerprint(record);
+        const copies = available.get(fingerprint) ?? 0;
+        if (copies > 0) {
+            available.set(fingerprint, copies - 1);
+            report.exact.push(record);
+            return;
+        }
+        const matches = existing.filter(candidate => isNearDuplicate(record, candidate));
+        if (matches.length > 0) report.near.push({ record, matches });
+        else report.unique.push(record);
+    });
+    return report;
+};
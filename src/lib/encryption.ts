@@ -0,0 +1,126 @@
+// Files encrypted in the browser with a passphrase: AES-GCM with a 256-bit key derived by
+// PBKDF2. The result is a small JSON envelope whose header is authenticated together with the
+// data, so a wrong passphrase and any change to the file are both detected on decryption.
+
+const ENCRYPTED_FORMAT = 'encrypted-file';
+const ENCRYPTED_VERSION = 1;
+// OWASP's recommendation for PBKDF2-HMAC-SHA256.
+const PBKDF2_ITERATIONS = 600_000;
+// Files from other versions may use other counts; anything outside this range is refused.
+const MIN_ITERATIONS = 100_000;
+const MAX_ITERATIONS = 10_000_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const ENCRYPTED_EXTENSION = '.enc';
+
+interface EncryptionHeader {
+    format: typeof ENCRYPTED_FORMAT;
+    version: number;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+    cipher: { name: 'AES-GCM'; iv: string };
+    // Name and type of the file before encryption, to save it again as it was.
+    filename: string;
+    mediaType: string;
+}
+
+interface EncryptedFile extends EncryptionHeader {
+    data: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    // String.fromCharCode takes its arguments on the stack, so large files go in slices.
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+// The header is rebuilt field by field so the authenticated bytes are the same on both sides.
+const headerBytes = ({ format, version, kdf, cipher, filename, mediaType }: EncryptionHeader) =>
+    new TextEncoder().encode(JSON.stringify({
+        format,
+        version,
+        kdf: { name: kdf.name, hash: kdf.hash, iterations: kdf.iterations, salt: kdf.salt },
+        cipher: { name: cipher.name, iv: cipher.iv },
+        filename,
+        mediaType,
+    }));
+
+export const encryptFile = async (blob: Blob, filename: string, passphrase: string): Promise<Blob> => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`La contraseña debe tener al menos ${MIN_PASSPHRASE_LENGTH} caracteres.`);
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const header: EncryptionHeader = {
+        format: ENCRYPTED_FORMAT,
+        version: ENCRYPTED_VERSION,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+        cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+        filename,
+        mediaType: blob.type,
+    };
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const data = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: headerBytes(header) },
+        key,
+        await blob.arrayBuffer()
+    );
+    const file: EncryptedFile = { ...header, data: toBase64(new Uint8Array(data)) };
+    return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+const readEnvelope = (text: string): EncryptedFile | null => {
+    try {
+        const file = JSON.parse(text);
+        return file?.format === ENCRYPTED_FORMAT ? file : null;
+    } catch {
+        return null;
+    }
+};
+
+export const isEncryptedFile = (text: string) => readEnvelope(text) !== null;
+
+export const decryptFile = async (text: string, passphrase: string): Promise<{ blob: Blob; filename: string }> => {
+    const file = readEnvelope(text);
+    if (!file) throw new Error('El archivo no está cifrado.');
+    if (file.version !== ENCRYPTED_VERSION) throw new Error('El archivo se cifró con una versión más reciente de la aplicación.');
+    const iterations = file.kdf?.iterations;
+    if (file.kdf?.name !== 'PBKDF2' || file.kdf.hash !== 'SHA-256' || file.cipher?.name !== 'AES-GCM'
+        || !Number.isInteger(iterations) || iterations < MIN_ITERATIONS || iterations > MAX_ITERATIONS
+        || typeof file.data !== 'string' || typeof file.filename !== 'string' || typeof file.mediaType !== 'string') {
+        throw new Error('El archivo cifrado está dañado.');
+    }
+
+    let salt: Uint8Array, iv: Uint8Array, data: Uint8Array;
+    try {
+        salt = fromBase64(file.kdf.salt);
+        iv = fromBase64(file.cipher.iv);
+        data = fromBase64(file.data);
+    } catch {
+        throw new Error('El archivo cifrado está dañado.');
+    }
+
+    const key = await deriveKey(passphrase, salt, iterations);
+    try {
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: headerBytes(file) }, key, data);
+        return { blob: new Blob([plain], { type: file.mediaType }), filename: file.filename };
+    } catch {
+        // AES-GCM cannot tell the two apart: the authentication tag simply does not match.
+        throw new Error('La contraseña es incorrecta o el archivo fue modificado.');
+    }
+};
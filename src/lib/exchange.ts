@@ -0,0 +1,66 @@
+import { subDays } from 'date-fns';
+import type { ExchangeRate, FinancialRecord } from '@/types';
+import { parseRecordDate, toRecordDate } from './dates';
+
+// Rates are entered by the user per date. A record is converted with the most recent rate
+// dated on or before the record itself; a rate entered in the opposite direction is inverted.
+
+type DatedRate = { fecha: string; tasa: number };
+
+const pairKey = (from: string, to: string) => `${from}->${to}`;
+
+export const buildRateIndex = (rates: ExchangeRate[]) => {
+    const index = new Map<string, DatedRate[]>();
+    const push = (key: string, rate: DatedRate) => {
+        if (!index.has(key)) index.set(key, []);
+        index.get(key)!.push(rate);
+    };
+    rates.forEach(rate => {
+        if (rate.isDeleted || !(rate.tasa > 0)) return;
+        push(pairKey(rate.moneda, rate.monedaBase), { fecha: rate.fecha, tasa: rate.tasa });
+        push(pairKey(rate.monedaBase, rate.moneda), { fecha: rate.fecha, tasa: 1 / rate.tasa });
+    });
+    // Newest first so lookups stop at the first applicable date.
+    index.forEach(list => list.sort((a, b) => b.fecha.localeCompare(a.fecha)));
+    return index;
+};
+
+export const findRate = (index: Map<string, DatedRate[]>, from: string, to: string, fecha: string): number | null => {
+    if (from === to) return 1;
+    const candidates = index.get(pairKey(from, to));
+    return candidates?.find(rate => rate.fecha <= fecha)?.tasa ?? null;
+};
+
+// Returns a function that converts a record's amount to base-currency cents,
+// or null when no rate is available for its currency and date.
+export const createCurrencyConverter = (rates: ExchangeRate[], baseCurrency: string) => {
+    const index = buildRateIndex(rates);
+    return (record: Pick<FinancialRecord, 'monto' | 'moneda' | 'fecha'>): number | null => {
+        const rate = findRate(index, record.moneda || baseCurrency, baseCurrency, record.fecha);
+        return rate === null ? null : Math.round(record.monto * rate);
+    };
+};
+
+// Currencies that have at least one rate to or from the base currency, whether or not they are offered in forms.
+export const convertibleCurrencies = (rates: ExchangeRate[], baseCurrency: string) => {
+    const currencies = new Set<string>();
+    rates.forEach(rate => {
+        if (rate.isDeleted || !(rate.tasa > 0)) return;
+        if (rate.monedaBase === baseCurrency && rate.moneda !== baseCurrency) currencies.add(rate.moneda);
+        if (rate.moneda === baseCurrency && rate.monedaBase !== baseCurrency) currencies.add(rate.monedaBase);
+    });
+    return Array.from(currencies);
+};
+
+// The date spans over which each rate applies, oldest first, so totals can be converted
+// one span at a time. A span ends the day before the next rate; the last one is open-ended.
+export const rateSpans = (rates: ExchangeRate[], from: string, to: string) => {
+    const dated = (buildRateIndex(rates).get(pairKey(from, to)) ?? [])
+        .filter((rate, index, list) => index === 0 || list[index - 1].fecha !== rate.fecha)
+        .reverse();
+    return dated.map((rate, index) => ({
+        from: rate.fecha,
+        to: index + 1 < dated.length ? toRecordDate(subDays(parseRecordDate(dated[index + 1].fecha), 1)) : undefined,
+        tasa: rate.tasa,
+    }));
+};
@@ -0,0 +1,26 @@
+import { encryptFile, ENCRYPTED_EXTENSION } from './encryption';
+
+// Saves the blob as a file in the browser.
+export const downloadBlob = (filename: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export interface SaveOptions {
+    // When given, the file is encrypted with it before being saved (see lib/encryption).
+    passphrase?: string;
+}
+
+export const saveFile = async (filename: string, blob: Blob, { passphrase }: SaveOptions = {}) => {
+    if (!passphrase) {
+        downloadBlob(filename, blob);
+        return;
+    }
+    downloadBlob(filename + ENCRYPTED_EXTENSION, await encryptFile(blob, filename, passphrase));
+};
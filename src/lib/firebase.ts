@@ -1,8 +1,8 @@
 
 // Import the functions you need from the SDKs you need
 import { initializeApp, getApps, getApp, type FirebaseApp } from "firebase/app";
-import { getFirestore, type Firestore } from "firebase/firestore";
-import { getAuth, type Auth } from "firebase/auth";
+import { getFirestore, connectFirestoreEmulator, type Firestore } from "firebase/firestore";
+import { getAuth, connectAuthEmulator, type Auth } from "firebase/auth";
 
 // Your web app's Firebase configuration from .env.local
 const firebaseConfig = {
@@ -29,15 +29,26 @@ const checkFirebaseConfig = () => {
 
 export const isFirebaseConfigured = checkFirebaseConfig();
 
+// Talk to the local emulators started with `firebase emulators:start` (ports from firebase.json)
+// instead of the real project. Sign-in and verification emails then never leave the machine.
+export const usesEmulators = process.env.NEXT_PUBLIC_FIREBASE_USE_EMULATORS === 'true';
+const emulatorHost = process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST || '127.0.0.1';
+
 let app: FirebaseApp | null = null;
 let db: Firestore | null = null;
 let auth: Auth | null = null;
 
 if (isFirebaseConfigured) {
   try {
-      app = getApps().length ? getApp() : initializeApp(firebaseConfig);
+      // Hot reloads evaluate this module again with the app already set up and connected.
+      const isNewApp = !getApps().length;
+      app = isNewApp ? initializeApp(firebaseConfig) : getApp();
       db = getFirestore(app);
       auth = getAuth(app);
+      if (usesEmulators && isNewApp) {
+          connectFirestoreEmulator(db, emulatorHost, 8080);
+          connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+      }
   } catch (e) {
       console.error("Firebase initialization error:", e);
       // Reset to null if initialization fails
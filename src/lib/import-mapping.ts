@@ -0,0 +1,148 @@
+import { isValid, parse } from 'date-fns';
+import { normalizeRecordDate, toRecordDate } from './dates';
+import type { CsvTable, ImportRow } from './import-preview';
+import { parseMoney } from './money';
+import { normalizeName } from './utils';
+
+// Turns spreadsheets and bank exports with their own headers and formats into the rows the
+// records importer understands. A mapping can be saved as a profile for the next statement
+// from the same source.
+
+export type MappedField = 'fecha' | 'descripcion' | 'monto' | 'movimiento' | 'integrantenombre' | 'razondescripcion' | 'moneda';
+// Fields that can take one value for the whole file instead of a column.
+export type FixedField = 'integrantenombre' | 'razondescripcion' | 'moneda';
+
+export const DATE_FORMATS = ['dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd', 'dd-MM-yyyy', 'dd.MM.yyyy', 'yyyy/MM/dd', 'dd/MM/yy', 'MM/dd/yy'];
+
+export interface ValueFormat {
+    dateFormat: string;
+    decimalSeparator: '.' | ',';
+    // Empty when amounts are written without grouping.
+    thousandsSeparator: '' | ',' | '.' | ' ';
+}
+
+export interface ColumnMapping extends ValueFormat {
+    // Header each field is read from; fields without one are empty or use `fixedValues`.
+    columns: Partial<Record<MappedField, string>>;
+    fixedValues: Partial<Record<FixedField, string>>;
+    // Where the movement comes from: the `movimiento` column as is, the sign of the amount,
+    // or a debit/credit column whose debit values (comma-separated in `debitValues`) are expenses.
+    movement: 'column' | 'sign' | 'indicator';
+    debitValues: string;
+}
+
+export interface MappingProfile {
+    id: string;
+    nombre: string;
+    mapping: ColumnMapping;
+}
+
+// Parses a date in the given format, or in the app's own formats when there is none.
+// Anything after the first space is ignored, since exports often append the time.
+export const parseDateWith = (value: string, format?: ValueFormat): string | null => {
+    if (!format) return normalizeRecordDate(value);
+    const text = value.trim().split(/\s+/)[0];
+    if (!text) return null;
+    const date = parse(text, format.dateFormat, new Date());
+    return isValid(date) && date.getFullYear() >= 1900 ? toRecordDate(date) : null;
+};
+
+// Parses an amount into cents with the given separators, or guessing them when there is no format.
+export const parseAmountWith = (value: string, format?: ValueFormat): number | null => {
+    if (!format) return parseMoney(value);
+    let text = value.trim();
+    if (format.thousandsSeparator) text = text.split(format.thousandsSeparator).join('');
+    if (format.decimalSeparator === ',') {
+        if (text.includes('.')) return null;
+        text = text.replace(',', '.');
+    } else if (text.includes(',')) {
+        return null;
+    }
+    return parseMoney(text);
+};
+
+const HEADER_HINTS: Record<MappedField, string[]> = {
+    fecha: ['fecha', 'date', 'fechaoperacion', 'fechadeoperacion'],
+    descripcion: ['descripcion', 'concepto', 'description', 'detalle'],
+    monto: ['monto', 'importe', 'amount', 'cantidad'],
+    movimiento: ['movimiento', 'tipo', 'type', 'cargo/abono'],
+    integrantenombre: ['integrantenombre', 'integrante'],
+    razondescripcion: ['razondescripcion', 'razon', 'categoria', 'category'],
+    moneda: ['moneda', 'divisa', 'currency'],
+};
+
+const headerKey = (header: string) => normalizeName(header).replace(/\s/g, '');
+
+// First guess for a file nobody has mapped before, based on common header names.
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+    const columns: Partial<Record<MappedField, string>> = {};
+    (Object.keys(HEADER_HINTS) as MappedField[]).forEach(field => {
+        const header = headers.find(candidate => HEADER_HINTS[field].includes(headerKey(candidate)));
+        if (header) columns[field] = header;
+    });
+    return {
+        columns,
+        fixedValues: {},
+        dateFormat: 'dd/MM/yyyy',
+        decimalSeparator: '.',
+        thousandsSeparator: ',',
+        // Only the app's own column holds movement names; other type columns say debit or credit.
+        movement: !columns.movimiento ? 'sign' : headerKey(columns.movimiento) === 'movimiento' ? 'column' : 'indicator',
+        debitValues: 'cargo, debito, d',
+    };
+};
+
+// The first saved profile whose columns are all in the file.
+export const findProfileFor = (profiles: MappingProfile[], headers: string[]) =>
+    profiles.find(profile => {
+        const mapped = Object.values(profile.mapping.columns).filter(Boolean);
+        return mapped.length > 0 && mapped.every(header => headers.includes(header as string));
+    }) ?? null;
+
+// Problems that make the mapping unusable for every row, so the wizard can stop before the preview.
+export const mappingProblems = (mapping: ColumnMapping): string[] => {
+    const problems: string[] = [];
+    if (!mapping.columns.fecha) problems.push('Elige la columna de la fecha.');
+    if (!mapping.columns.monto) problems.push('Elige la columna del monto.');
+    if (mapping.movement !== 'sign' && !mapping.columns.movimiento) problems.push('Elige la columna del movimiento.');
+    if (!mapping.columns.integrantenombre && !mapping.fixedValues.integrantenombre?.trim()) problems.push('Elige la columna del integrante o escribe uno para todas las filas.');
+    if (!mapping.columns.razondescripcion && !mapping.fixedValues.razondescripcion?.trim()) problems.push('Elige la columna de la razón o escribe una para todas las filas.');
+    if (mapping.thousandsSeparator === mapping.decimalSeparator) problems.push('Los separadores decimal y de miles deben ser distintos.');
+    return problems;
+};
+
+// Rows keyed like the app's own CSV template. Dates and amounts keep the file's text and are
+// parsed with the mapping's format when the rows are checked.
+export const applyMapping = (table: CsvTable, mapping: ColumnMapping): ImportRow[] => {
+    const indexes = Object.fromEntries(
+        (Object.keys(HEADER_HINTS) as MappedField[]).map(field => [field, mapping.columns[field] ? table.headers.indexOf(mapping.columns[field] as string) : -1])
+    ) as Record<MappedField, number>;
+    const debitValues = new Set(mapping.debitValues.split(',').map(normalizeName).filter(Boolean));
+
+    return table.rows.map(({ line, fields }) => {
+        const read = (field: MappedField) => indexes[field] === -1 ? '' : fields[indexes[field]] ?? '';
+        const readOrFixed = (field: FixedField) => read(field) || mapping.fixedValues[field]?.trim() || '';
+        const monto = read('monto');
+
+        let movimiento = read('movimiento');
+        if (mapping.movement === 'sign') {
+            const cents = parseAmountWith(monto, mapping);
+            movimiento = cents === null ? '' : cents < 0 ? 'GASTOS' : 'INGRESOS';
+        } else if (mapping.movement === 'indicator' && movimiento) {
+            movimiento = debitValues.has(normalizeName(movimiento)) ? 'GASTOS' : 'INGRESOS';
+        }
+
+        return {
+            line,
+            values: {
+                fecha: read('fecha'),
+                integrantenombre: readOrFixed('integrantenombre'),
+                movimiento,
+                razondescripcion: readOrFixed('razondescripcion'),
+                descripcion: read('descripcion'),
+                monto,
+                moneda: readOrFixed('moneda'),
+            },
+        };
+    });
+};
@@ -0,0 +1,124 @@
+import type { FinancialRecord } from '@/types';
+import type { EntityInput } from './repositories';
+import { parseCsv } from './csv';
+import { readXlsxTable } from './xlsx';
+import { normalizeName } from './utils';
+
+// Rows of an import file checked one by one, so the user can fix or leave out the ones
+// that cannot be imported instead of the whole file being rejected.
+
+// 'create' rows add a member or reason, either the row itself or one a record refers to.
+export type ImportRowStatus = 'valid' | 'error' | 'duplicate' | 'create';
+
+export interface ImportColumn {
+    // Lower-case header, without spaces, the value is read from.
+    key: string;
+    label: string;
+}
+
+export interface ImportRow {
+    // Line of the file, counting the header as line 1.
+    line: number;
+    values: Record<string, string>;
+}
+
+export interface RowCheck<T> {
+    status: ImportRowStatus;
+    // The item to import; null when the row has errors.
+    item: T | null;
+    messages: string[];
+    // Errors and exact duplicates cannot be imported until the row is fixed.
+    importable: boolean;
+}
+
+// A record read from a file. Members and reasons the import creates are named instead of
+// referenced by id; their ids are filled in once they exist.
+export type ImportedRecord = EntityInput<FinancialRecord> & { newIntegrante?: string; newRazon?: string };
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s/g, '');
+
+export interface CsvTable {
+    // Headers as written in the file.
+    headers: string[];
+    rows: { line: number; fields: string[] }[];
+}
+
+// Splits a CSV file into its header and data records, skipping blank lines.
+export const readCsvTable = (text: string): CsvTable => {
+    const [header, ...rows] = parseCsv(text);
+    if (!header || rows.length === 0) {
+        throw new Error('El archivo CSV está vacío o solo contiene la cabecera.');
+    }
+    return {
+        headers: header.fields.map(field => field.trim()),
+        rows: rows.map(({ line, fields }) => ({ line, fields: fields.map(field => field.trim()) })),
+    };
+};
+
+// Reads an import file, an Excel workbook or CSV, into the same table.
+export const readImportFile = async (file: File): Promise<CsvTable> => {
+    if (/\.xlsx$/i.test(file.name)) return readXlsxTable(await file.arrayBuffer());
+    return readCsvTable(await file.text());
+};
+
+// Keys each row by column. Only problems with the file as a whole throw; the values of each
+// row are checked afterwards.
+export const tableRows = (table: CsvTable, requiredColumns: string[]): ImportRow[] => {
+    const headers = table.headers.map(normalizeHeader);
+    const missing = requiredColumns.filter(column => !headers.includes(column));
+    if (missing.length > 0) {
+        throw new Error(`Faltan las siguientes columnas en el archivo: ${missing.join(', ')}`);
+    }
+    return table.rows.map(({ line, fields }) => {
+        const values: Record<string, string> = {};
+        headers.forEach((header, index) => { values[header] = fields[index] ?? ''; });
+        return { line, values };
+    });
+};
+
+// Reads an optional true/false column; anything else is reported so it is not silently false.
+export const parseBooleanField = (value: string | undefined, label: string, messages: string[]) => {
+    const normalized = (value ?? '').trim().toLowerCase();
+    if (normalized === '' || normalized === 'false') return false;
+    if (normalized === 'true') return true;
+    messages.push(`"${label}" debe ser true o false.`);
+    return false;
+};
+
+// Checks rows of a named catalog (members, reasons). Names are compared ignoring case and
+// accents. In "add" mode names already in the catalog are duplicates; in "replace" mode only protected entries stay, so only those clash.
+// Names repeated within the file are duplicates of their first appearance.
+export const checkCatalogRows = <T, E extends { isProtected?: boolean }>(
+    rows: ImportRow[],
+    existing: E[],
+    getName: (item: E | T) => string,
+    mode: 'add' | 'replace',
+    parseRow: (row: ImportRow, messages: string[]) => T | null
+): RowCheck<T>[] => {
+    const kept = mode === 'add' ? existing : existing.filter(item => item.isProtected);
+    const keptNames = new Set(kept.map(item => normalizeName(getName(item))));
+    const firstLine = new Map<string, number>();
+    return rows.map(row => {
+        const messages: string[] = [];
+        const item = parseRow(row, messages);
+        if (!item || messages.length > 0) return { status: 'error', item: null, messages, importable: false };
+        const name = normalizeName(getName(item));
+        if (keptNames.has(name)) {
+            return { status: 'duplicate', item, messages: ['Ya existe en el catálogo.'], importable: false };
+        }
+        const seenAt = firstLine.get(name);
+        if (seenAt !== undefined) {
+            return { status: 'duplicate', item, messages: [`Repetido en la línea ${seenAt}.`], importable: false };
+        }
+        firstLine.set(name, row.line);
+        return { status: 'create', item, messages: [], importable: true };
+    });
+};
+
+// Sentence for the preview of a "replace" import; lists a few of the affected names when known.
+export const describeReplacement = (count: number, noun: string, names: string[] = []) => {
+    if (count === 0) return `No hay ${noun} que mover a la papelera.`;
+    const shown = names.slice(0, 5).join(', ');
+    const more = names.length > 5 ? ` y ${names.length - 5} más` : '';
+    return `Se moverán a la papelera ${count} ${noun}${shown ? `: ${shown}${more}` : ''}.`;
+};
@@ -0,0 +1,221 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Local persistence used when Firebase is not configured (offline mode).
+// Every collection is an IndexedDB object store keyed by `id`, so documents
+// keep the same shape they would have in Firestore.
+
+const DB_NAME = 'lfbbc-finances';
+const DB_VERSION = 4;
+const COLLECTIONS = [
+    'integrantes', 'razones', 'financialRecords', 'auditLog', 'exchangeRates', 'ledgerSettings',
+    'ledgers', 'ledgerMembers', 'ledgerInvitations',
+];
+const INDEXED_FIELDS = ['ledgerId', 'userId'];
+const CHANNEL_NAME = 'lfbbc-finances-local-db';
+
+export type LocalDocument = { id: string; userId: string; [key: string]: any };
+
+// Equality filters on top-level fields, like a Firestore query with `where(field, '==', value)`.
+export type LocalFilters = Record<string, string | boolean>;
+
+export type LocalBatchOperation =
+    | { type: 'set'; data: Omit<LocalDocument, 'id'> & { id?: string } }
+    | { type: 'update'; id: string; data: Record<string, any> }
+    | { type: 'delete'; id: string };
+
+type Listener = (collectionName: string) => void;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<Listener>();
+let channel: BroadcastChannel | null = null;
+
+const isIndexedDBAvailable = () => typeof window !== 'undefined' && 'indexedDB' in window;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!isIndexedDBAvailable()) {
+        return Promise.reject(new Error("El almacenamiento local no está disponible en este navegador."));
+    }
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const database = request.result;
+                COLLECTIONS.forEach(name => {
+                    const store = database.objectStoreNames.contains(name)
+                        ? request.transaction!.objectStore(name)
+                        : database.createObjectStore(name, { keyPath: 'id' });
+                    INDEXED_FIELDS.forEach(field => {
+                        if (!store.indexNames.contains(field)) store.createIndex(field, field, { unique: false });
+                    });
+                });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error ?? new Error("No se pudo abrir la base de datos local."));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const getChannel = () => {
+    if (!channel && typeof BroadcastChannel !== 'undefined') {
+        channel = new BroadcastChannel(CHANNEL_NAME);
+        // Changes made in other tabs must refresh this tab's listeners too.
+        channel.onmessage = (event) => listeners.forEach(listener => listener(event.data));
+    }
+    return channel;
+};
+
+const notifyChange = (collectionName: string) => {
+    listeners.forEach(listener => listener(collectionName));
+    getChannel()?.postMessage(collectionName);
+};
+
+// Undefined values remove the field, like Firestore's deleteField().
+const withoutUndefined = (doc: Record<string, any>) =>
+    Object.fromEntries(Object.entries(doc).filter(([, value]) => value !== undefined));
+
+const runTransaction = async (collectionName: string, work: (store: IDBObjectStore) => void) => {
+    const database = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+        const tx = database.transaction(collectionName, 'readwrite');
+        work(tx.objectStore(collectionName));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error ?? new Error("Error en la transacción local."));
+        tx.onabort = () => reject(tx.error ?? new Error("La transacción local fue cancelada."));
+    });
+    notifyChange(collectionName);
+};
+
+export const getAllLocal = async (collectionName: string, filters: LocalFilters): Promise<LocalDocument[]> => {
+    const database = await openDatabase();
+    // Narrow down with an index when one of the filters has it; the rest are applied in memory.
+    const indexedField = INDEXED_FIELDS.find(field => field in filters);
+    const matches = (doc: LocalDocument) => Object.entries(filters).every(([field, value]) => doc[field] === value);
+    return new Promise((resolve, reject) => {
+        const tx = database.transaction(collectionName, 'readonly');
+        const store = tx.objectStore(collectionName);
+        const request = indexedField ? store.index(indexedField).getAll(filters[indexedField] as string) : store.getAll();
+        request.onsuccess = () => resolve((request.result as LocalDocument[]).filter(matches));
+        request.onerror = () => reject(request.error ?? new Error("No se pudieron leer los datos locales."));
+    });
+};
+
+export const getLocal = async (collectionName: string, id: string): Promise<LocalDocument | null> => {
+    const database = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const tx = database.transaction(collectionName, 'readonly');
+        const request = tx.objectStore(collectionName).get(id);
+        request.onsuccess = () => resolve((request.result as LocalDocument | undefined) ?? null);
+        request.onerror = () => reject(request.error ?? new Error("No se pudieron leer los datos locales."));
+    });
+};
+
+export const addLocal = async (collectionName: string, data: Omit<LocalDocument, 'id'>) => {
+    const id = uuidv4();
+    await runTransaction(collectionName, store => store.add({ ...data, id }));
+    return id;
+};
+
+// `precondition` sees the stored document inside the transaction; returning an error cancels the update.
+export const updateLocal = async (
+    collectionName: string,
+    id: string,
+    data: Record<string, any>,
+    precondition?: (current: LocalDocument) => Error | null
+) => {
+    const database = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+        const tx = database.transaction(collectionName, 'readwrite');
+        const store = tx.objectStore(collectionName);
+        const request = store.get(id);
+        let failure: Error | null = null;
+        request.onsuccess = () => {
+            failure = request.result ? precondition?.(request.result) ?? null : null;
+            if (!request.result || failure) {
+                tx.abort();
+                return;
+            }
+            store.put(withoutUndefined({ ...request.result, ...data, id }));
+        };
+        tx.oncomplete = () => resolve();
+        tx.onabort = () => reject(failure ?? tx.error ?? new Error(`No se encontró el documento ${id}.`));
+        tx.onerror = () => reject(tx.error ?? new Error("Error en la transacción local."));
+    });
+    notifyChange(collectionName);
+};
+
+export interface LocalWrite {
+    collectionName: string;
+    operations: LocalBatchOperation[];
+}
+
+// Applies every operation in a single IndexedDB transaction, mirroring Firestore's writeBatch.
+// The operations may span several collections.
+export const commitLocalWrites = async (writes: LocalWrite[]) => {
+    const database = await openDatabase();
+    const collectionNames = Array.from(new Set(writes.map(write => write.collectionName)));
+    await new Promise<void>((resolve, reject) => {
+        const tx = database.transaction(collectionNames, 'readwrite');
+        let failure: Error | null = null;
+        writes.forEach(({ collectionName, operations }) => {
+            const store = tx.objectStore(collectionName);
+            operations.forEach(op => {
+                if (op.type === 'set') {
+                    store.put({ ...op.data, id: op.data.id ?? uuidv4() });
+                } else if (op.type === 'delete') {
+                    store.delete(op.id);
+                } else {
+                    const request = store.get(op.id);
+                    request.onsuccess = () => {
+                        // Like Firestore, updating a missing document fails the whole batch.
+                        if (!request.result) {
+                            failure ??= new Error(`No se encontró el documento ${op.id}.`);
+                            tx.abort();
+                            return;
+                        }
+                        store.put(withoutUndefined({ ...request.result, ...op.data, id: op.id }));
+                    };
+                }
+            });
+        });
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error ?? new Error("Error en la transacción local."));
+        tx.onabort = () => reject(failure ?? tx.error ?? new Error("La transacción local fue cancelada."));
+    });
+    collectionNames.forEach(name => notifyChange(name));
+};
+
+export const commitLocalBatch = (collectionName: string, operations: LocalBatchOperation[]) =>
+    commitLocalWrites([{ collectionName, operations }]);
+
+// Mirrors Firestore's onSnapshot: emits the current documents now and after every change.
+export const subscribeLocal = (
+    collectionName: string,
+    filters: LocalFilters,
+    onData: (docs: LocalDocument[]) => void,
+    onError: (error: Error) => void
+) => {
+    let active = true;
+
+    const emit = () => {
+        getAllLocal(collectionName, filters)
+            .then(docs => { if (active) onData(docs); })
+            .catch(err => { if (active) onError(err); });
+    };
+
+    const listener: Listener = (changed) => {
+        if (changed === collectionName) emit();
+    };
+
+    listeners.add(listener);
+    getChannel();
+    emit();
+
+    return () => {
+        active = false;
+        listeners.delete(listener);
+    };
+};
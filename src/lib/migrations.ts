@@ -0,0 +1,59 @@
+import type { FinancialRecord } from '@/types';
+import { getRepositories, readAllPages, type BatchOperation, type EntityUpdate } from './repositories';
+import { normalizeRecordDate } from './dates';
+import { DEFAULT_CURRENCY, signedCents, toCents } from './money';
+
+// Bump this and add a step below whenever the stored shape of a financial record changes.
+// Version 1: `fecha` stored as ISO 'yyyy-MM-dd' instead of 'dd/MM/yyyy'.
+// Version 2: `monto` stored as integer cents instead of a float in pesos, signed by `movimiento`.
+// Version 3: explicit `moneda`; every record before it was in pesos.
+export const CURRENT_RECORD_SCHEMA_VERSION = 3;
+
+// Stay well below Firestore's 500 writes per batch.
+const MIGRATION_CHUNK_SIZE = 400;
+
+type RecordMigration = (record: FinancialRecord) => EntityUpdate<FinancialRecord>;
+
+const RECORD_MIGRATIONS: Record<number, RecordMigration> = {
+    1: (record) => ({ fecha: normalizeRecordDate(record.fecha) ?? record.fecha }),
+    // Edits and CSV imports used to save expenses as positive amounts, so the sign is fixed here too.
+    2: (record) => ({ monto: typeof record.monto === 'number' ? signedCents(record.movimiento, toCents(record.monto)) : 0 }),
+    3: (record) => ({ moneda: record.moneda || DEFAULT_CURRENCY }),
+};
+
+export const needsMigration = (record: FinancialRecord) => (record.schemaVersion ?? 0) < CURRENT_RECORD_SCHEMA_VERSION;
+
+// Returns the fields to write so the record reaches the current schema version.
+export const migrateRecord = (record: FinancialRecord): EntityUpdate<FinancialRecord> => {
+    let migrated = record;
+    let patch: EntityUpdate<FinancialRecord> = {};
+    for (let version = (record.schemaVersion ?? 0) + 1; version <= CURRENT_RECORD_SCHEMA_VERSION; version++) {
+        const step = { ...RECORD_MIGRATIONS[version](migrated), schemaVersion: version };
+        migrated = { ...migrated, ...step };
+        patch = { ...patch, ...step };
+    }
+    return patch;
+};
+
+// Old records cannot be found with a query (they may lack `schemaVersion` entirely),
+// so the whole ledger, trash included, is scanned once before anything is written.
+const findRecordsToMigrate = async (ledgerId: string) =>
+    (await readAllPages(getRepositories().financialRecords, { filters: { ledgerId }, dateField: 'fecha' })).filter(needsMigration);
+
+// One-time, idempotent migration of the ledger's records that are still on an older schema.
+// Migrations are system changes, so they are not written to the audit log.
+export const migrateFinancialRecords = async (ledgerId: string) => {
+    const pending = await findRecordsToMigrate(ledgerId);
+    const repository = getRepositories().financialRecords;
+    for (let start = 0; start < pending.length; start += MIGRATION_CHUNK_SIZE) {
+        const operations: BatchOperation<FinancialRecord>[] = pending
+            .slice(start, start + MIGRATION_CHUNK_SIZE)
+            .map(record => ({ type: 'update', id: record.id, data: migrateRecord(record) }));
+        await repository.batch(operations);
+    }
+    return pending.length;
+};
+
+// Records read before the migration finishes are upgraded in memory so screens never see the old shape.
+export const upgradeRecords = (records: FinancialRecord[]) =>
+    records.some(needsMigration) ? records.map(record => needsMigration(record) ? { ...record, ...migrateRecord(record) } : record) : records;
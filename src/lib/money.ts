@@ -0,0 +1,77 @@
+import type { Movimiento } from '@/types';
+
+// Amounts are stored as integers in minor units (centavos) so sums never drift.
+// Convert to major units only at the edges: form inputs, CSV files and display.
+export const CENTS_PER_UNIT = 100;
+export const DEFAULT_CURRENCY = 'MXN';
+// Currencies offered in forms; any ISO 4217 code stored in a record still formats correctly.
+export const SUPPORTED_CURRENCIES = ['MXN', 'USD', 'EUR', 'CAD'];
+
+const AMOUNT_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+export const isValidCents = (value: unknown): value is number => Number.isSafeInteger(value);
+
+// Parses user or file input such as "1,234.56", "$ -12.5", "1.234,56" or "(45.00)" into cents.
+// Extra decimals are rounded half away from zero. Returns null when the text is not an amount.
+export const parseMoney = (input: string | number | null | undefined): number | null => {
+    if (input === null || input === undefined) return null;
+    let text = String(input).trim().replace(/[\s$€£]|MXN|USD|EUR/gi, '');
+    if (!text) return null;
+
+    let negative = false;
+    if (/^\(.*\)$/.test(text)) {
+        negative = true;
+        text = text.slice(1, -1);
+    }
+    if (text.startsWith('-')) {
+        negative = !negative;
+        text = text.slice(1);
+    }
+
+    // The last separator is the decimal one when both appear; a lone comma followed by
+    // one or two digits is treated as decimal too ("12,5"), otherwise as thousands ("1,234").
+    const lastComma = text.lastIndexOf(',');
+    const lastDot = text.lastIndexOf('.');
+    if (lastComma !== -1 && lastDot !== -1) {
+        const decimal = lastComma > lastDot ? ',' : '.';
+        const thousands = decimal === ',' ? '.' : ',';
+        text = text.split(thousands).join('').replace(decimal, '.');
+    } else if (lastComma !== -1) {
+        text = /^\d+,\d{1,2}$/.test(text) ? text.replace(',', '.') : text.split(',').join('');
+    }
+
+    const match = AMOUNT_PATTERN.exec(text);
+    if (!match) return null;
+    const [, , whole, fraction = ''] = match;
+    let cents = Number(whole) * CENTS_PER_UNIT + Number(fraction.padEnd(2, '0').slice(0, 2));
+    if (fraction.length > 2 && Number(fraction[2]) >= 5) cents += 1;
+    if (!isValidCents(cents)) return null;
+    return negative && cents !== 0 ? -cents : cents;
+};
+
+// Converts an amount in major units (e.g. a form value) to cents without float artifacts.
+export const toCents = (amount: number): number => {
+    const parsed = parseMoney(String(amount));
+    return parsed ?? Math.round(amount * CENTS_PER_UNIT);
+};
+
+export const fromCents = (cents: number): number => cents / CENTS_PER_UNIT;
+
+export const sumCents = (amounts: number[]): number => amounts.reduce((total, amount) => total + amount, 0);
+
+// Income is stored positive; expenses and investments negative.
+export const signedCents = (movimiento: Movimiento, cents: number): number =>
+    movimiento === 'INGRESOS' ? Math.abs(cents) : -Math.abs(cents);
+
+// Plain decimal string for files, e.g. -1234.5 MXN -> "-1234.50".
+export const centsToDecimalString = (cents: number): string => {
+    const sign = cents < 0 ? '-' : '';
+    const abs = Math.abs(cents);
+    return `${sign}${Math.floor(abs / CENTS_PER_UNIT)}.${String(abs % CENTS_PER_UNIT).padStart(2, '0')}`;
+};
+
+// Shown instead of an amount in privacy mode; the same width for every amount so nothing can be inferred.
+export const MASKED_AMOUNT = '$ •••••';
+
+export const formatMoney = (cents: number, currency = DEFAULT_CURRENCY): string =>
+    new Intl.NumberFormat('es-MX', { style: 'currency', currency }).format(fromCents(cents || 0));
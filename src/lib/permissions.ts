@@ -0,0 +1,36 @@
+import type { LedgerRole } from '@/types';
+
+// What each role may do inside a ledger. Firestore rules enforce the same matrix on the server.
+export type Permission =
+    | 'write' // create, edit, delete and restore records, members and reasons; import files
+    | 'purge' // empty the trash
+    | 'settings' // base currency and exchange rates
+    | 'manageMembers'; // invite people and change their roles
+
+export const LEDGER_ROLES: LedgerRole[] = ['owner', 'treasurer', 'editor', 'viewer'];
+
+export const ROLE_LABELS: Record<LedgerRole, string> = {
+    owner: 'Propietario',
+    treasurer: 'Tesorero',
+    editor: 'Editor',
+    viewer: 'Lector',
+};
+
+const ROLE_PERMISSIONS: Record<LedgerRole, Permission[]> = {
+    owner: ['write', 'purge', 'settings', 'manageMembers'],
+    treasurer: ['write', 'purge', 'settings', 'manageMembers'],
+    editor: ['write'],
+    viewer: [],
+};
+
+export const can = (role: LedgerRole | null | undefined, permission: Permission) =>
+    !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+// Treasurers manage the team but cannot hand out or take away ownership.
+export const assignableRoles = (role: LedgerRole | null | undefined): LedgerRole[] => {
+    if (role === 'owner') return LEDGER_ROLES;
+    if (role === 'treasurer') return ['treasurer', 'editor', 'viewer'];
+    return [];
+};
+
+export const PERMISSION_DENIED_MESSAGE = "No tienes permiso para realizar esta acción en este libro.";
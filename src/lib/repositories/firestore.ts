@@ -0,0 +1,217 @@
+import { collection, addDoc, doc, getDoc, getDocs, updateDoc, writeBatch, query, where, orderBy, limit as limitTo, startAfter, documentId, onSnapshot, deleteField, getAggregateFromServer, count, sum, runTransaction, Timestamp, type CollectionReference, type Firestore, type QueryConstraint, type WriteBatch } from 'firebase/firestore';
+import type { AuditEntry, BaseEntity } from '@/types';
+import { toMillis } from '../utils';
+import { UpdateConflictError, type AuditLogRepository, type BatchOperation, type CollectionWrite, type Repository, type RepositoryQuery, type WindowQuery } from './types';
+import { fieldOf } from './window';
+
+// Firestore rejects batches with more than 500 writes.
+const MAX_BATCH_SIZE = 500;
+
+const equalityConstraints = (filters: RepositoryQuery) =>
+    Object.entries(filters).map(([field, value]) => where(field, "==", value));
+
+const rangeConstraints = ({ dateField, range }: WindowQuery) => [
+    ...(range?.from ? [where(dateField, ">=", range.from)] : []),
+    ...(range?.to ? [where(dateField, "<=", range.to)] : []),
+];
+
+const buildQuery = (collectionRef: CollectionReference, filters: RepositoryQuery) =>
+    query(collectionRef, ...equalityConstraints(filters));
+
+// Window queries need a composite index per filter combination; see firestore.indexes.json.
+const buildWindowQuery = (collectionRef: CollectionReference, window: WindowQuery, ...extra: QueryConstraint[]) => {
+    const direction = window.order ?? 'desc';
+    return query(
+        collectionRef,
+        ...equalityConstraints(window.filters),
+        ...rangeConstraints(window),
+        orderBy(window.dateField, direction),
+        orderBy("createdAt", direction),
+        orderBy(documentId(), direction),
+        ...extra
+    );
+};
+
+// Documents written before ledgers existed have no ledgerId; they can only be found by their author.
+const adoptLegacyDocuments = async (db: Firestore, collectionRef: CollectionReference, userId: string, ledgerId: string) => {
+    const snapshot = await getDocs(query(collectionRef, where("userId", "==", userId)));
+    const legacy = snapshot.docs.filter(d => !d.data().ledgerId);
+    for (let start = 0; start < legacy.length; start += MAX_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        legacy.slice(start, start + MAX_BATCH_SIZE).forEach(d => batch.update(d.ref, { ledgerId }));
+        await batch.commit();
+    }
+    return legacy.length;
+};
+
+// Documents written with `put` may carry dates as milliseconds (e.g. from a backup file). Firestore
+// orders numbers before timestamps, so they are stored as timestamps like every other document.
+const toStoredDocument = ({ id, ...data }: BaseEntity): Record<string, unknown> => {
+    const stored: Record<string, unknown> = {};
+    Object.entries(data).forEach(([field, value]) => {
+        if (value === undefined) return;
+        stored[field] = typeof value === 'number' && ['createdAt', 'updatedAt', 'deletedAt'].includes(field) ? Timestamp.fromMillis(value) : value;
+    });
+    return stored;
+};
+
+// Adds one operation to a batch and returns the id of the document it touches.
+const stageOperation = <T extends BaseEntity>(batch: WriteBatch, collectionRef: CollectionReference, op: BatchOperation<T>, now: Timestamp) => {
+    switch (op.type) {
+        case 'add': {
+            const docRef = op.id ? doc(collectionRef, op.id) : doc(collectionRef);
+            batch.set(docRef, { ...op.data, ledgerId: op.owner.ledgerId, userId: op.owner.userId, createdAt: now, updatedAt: now, isDeleted: false });
+            return docRef.id;
+        }
+        case 'put':
+            batch.set(doc(collectionRef, op.item.id), toStoredDocument(op.item));
+            return op.item.id;
+        case 'update':
+            batch.update(doc(collectionRef, op.id), { ...op.data, updatedAt: now });
+            return op.id;
+        case 'softDelete':
+            batch.update(doc(collectionRef, op.id), { isDeleted: true, deletedAt: now, updatedAt: now });
+            return op.id;
+        case 'restore':
+            batch.update(doc(collectionRef, op.id), { isDeleted: false, deletedAt: deleteField(), updatedAt: now });
+            return op.id;
+        case 'purge':
+            batch.delete(doc(collectionRef, op.id));
+            return op.id;
+    }
+};
+
+// Writes to several collections in one batch, so either all of them apply or none does.
+export const createFirestoreWriter = (db: Firestore) => async (writes: CollectionWrite[]) => {
+    const batch = writeBatch(db);
+    const now = Timestamp.now();
+    writes.forEach(({ collectionName, operations }) => {
+        const collectionRef = collection(db, collectionName);
+        (operations as BatchOperation<BaseEntity>[]).forEach(op => stageOperation(batch, collectionRef, op, now));
+    });
+    await batch.commit();
+};
+
+export const createFirestoreRepository = <T extends BaseEntity>(db: Firestore, collectionName: string): Repository<T> => {
+    const collectionRef = collection(db, collectionName);
+
+    const update: Repository<T>['update'] = async (id, data, expectedUpdatedAt) => {
+        const docRef = doc(db, collectionName, id);
+        if (expectedUpdatedAt === undefined) {
+            await updateDoc(docRef, {
+                ...data,
+                updatedAt: Timestamp.now(),
+            });
+            return;
+        }
+        // Transactions need the server, so conditional updates fail while offline instead of
+        // being queued without the check.
+        await runTransaction(db, async (transaction) => {
+            const snapshot = await transaction.get(docRef);
+            if (!snapshot.exists()) throw new Error(`No se encontró el documento ${id} en ${collectionName}.`);
+            const current = { id: snapshot.id, ...snapshot.data() } as T;
+            if (toMillis(current.updatedAt) !== expectedUpdatedAt) throw new UpdateConflictError(current);
+            transaction.update(docRef, { ...data, updatedAt: Timestamp.now() });
+        });
+    };
+
+    const repository: Repository<T> = {
+        collectionName,
+
+        subscribe: (filters, onChange, onError) => {
+            return onSnapshot(buildQuery(collectionRef, filters), (snapshot) => {
+                onChange(snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as T));
+            }, onError);
+        },
+
+        subscribeWindow: (window, limit, onChange, onError) => {
+            const windowQuery = buildWindowQuery(collectionRef, window, ...(limit === null ? [] : [limitTo(limit)]));
+            return onSnapshot(windowQuery, (snapshot) => {
+                onChange(snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as T));
+            }, onError);
+        },
+
+        page: async (window, { size, after }) => {
+            // One extra document tells whether another page follows.
+            const constraints = [
+                ...(after ? [startAfter(fieldOf(after, window.dateField), after.createdAt, after.id)] : []),
+                limitTo(size + 1),
+            ];
+            const snapshot = await getDocs(buildWindowQuery(collectionRef, window, ...constraints));
+            const items = snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as T);
+            return { items: items.slice(0, size), hasMore: items.length > size };
+        },
+
+        aggregate: async (window, sumField) => {
+            const aggregateQuery = query(collectionRef, ...equalityConstraints(window.filters), ...rangeConstraints(window));
+            const snapshot = await getAggregateFromServer(aggregateQuery, { count: count(), total: sum(sumField) });
+            const { count: matched, total } = snapshot.data();
+            return { count: matched, total: total ?? 0 };
+        },
+
+        get: async (id) => {
+            const snapshot = await getDoc(doc(db, collectionName, id));
+            return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as T) : null;
+        },
+
+        add: async (data, { ledgerId, userId }) => {
+            const now = Timestamp.now();
+            const docRef = await addDoc(collectionRef, {
+                ...data,
+                ledgerId,
+                userId,
+                createdAt: now,
+                updatedAt: now,
+                isDeleted: false,
+            });
+            return docRef.id;
+        },
+
+        update,
+
+        softDelete: async (id) => { await repository.batch([{ type: 'softDelete', id }]); },
+
+        restore: async (id) => { await repository.batch([{ type: 'restore', id }]); },
+
+        purge: async (ids) => { await repository.batch(ids.map(id => ({ type: 'purge', id }))); },
+
+        batch: async (operations) => {
+            const batch = writeBatch(db);
+            const now = Timestamp.now();
+            const ids = operations.map(op => stageOperation(batch, collectionRef, op, now));
+            await batch.commit();
+            return ids;
+        },
+
+        adoptLegacy: (userId, ledgerId) => adoptLegacyDocuments(db, collectionRef, userId, ledgerId),
+    };
+
+    return repository;
+};
+
+export const createFirestoreAuditLog = (db: Firestore): AuditLogRepository => {
+    const collectionRef = collection(db, 'auditLog');
+
+    return {
+        append: async (entries) => {
+            for (let start = 0; start < entries.length; start += MAX_BATCH_SIZE) {
+                const batch = writeBatch(db);
+                const now = Timestamp.now();
+                entries.slice(start, start + MAX_BATCH_SIZE).forEach(entry => {
+                    batch.set(doc(collectionRef), { ...entry, createdAt: now });
+                });
+                await batch.commit();
+            }
+        },
+
+        subscribe: (filters, onChange, onError) => {
+            // Sorted client-side so the query only needs Firestore's automatic single-field indexes.
+            return onSnapshot(buildQuery(collectionRef, { ...filters }), (snapshot) => {
+                const entries = snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as AuditEntry);
+                onChange(entries.sort((a, b) => toMillis(b.createdAt) - toMillis(a.createdAt)));
+            }, onError);
+        },
+
+        adoptLegacy: (userId, ledgerId) => adoptLegacyDocuments(db, collectionRef, userId, ledgerId),
+    };
+};
@@ -0,0 +1,110 @@
+import { db } from '../firebase';
+import { createFirestoreAuditLog, createFirestoreRepository, createFirestoreWriter } from './firestore';
+import { commitIndexedDBWrites, createIndexedDBAuditLog, createIndexedDBRepository } from './indexeddb';
+import { createMemoryAuditLog, createMemoryRepository } from './memory';
+import type { AuditEntry, BaseEntity, ExchangeRate, FinancialRecord, Integrante, Ledger, LedgerInvitation, LedgerMember, LedgerSettings, Razon } from '@/types';
+import type { CollectionWrite, Repositories, Repository, WindowQuery } from './types';
+
+export * from './types';
+export { createFirestoreRepository, createIndexedDBRepository, createMemoryRepository, createMemoryAuditLog };
+
+const createDefaultRepositories = (): Repositories => {
+    if (db) {
+        const firestore = db;
+        return {
+            integrantes: createFirestoreRepository(firestore, 'integrantes'),
+            razones: createFirestoreRepository(firestore, 'razones'),
+            financialRecords: createFirestoreRepository(firestore, 'financialRecords'),
+            exchangeRates: createFirestoreRepository(firestore, 'exchangeRates'),
+            ledgerSettings: createFirestoreRepository(firestore, 'ledgerSettings'),
+            ledgers: createFirestoreRepository(firestore, 'ledgers'),
+            ledgerMembers: createFirestoreRepository(firestore, 'ledgerMembers'),
+            ledgerInvitations: createFirestoreRepository(firestore, 'ledgerInvitations'),
+            auditLog: createFirestoreAuditLog(firestore),
+            commit: createFirestoreWriter(firestore),
+        };
+    }
+    // Offline mode: keep data in the browser so it survives reloads.
+    return {
+        integrantes: createIndexedDBRepository('integrantes'),
+        razones: createIndexedDBRepository('razones'),
+        financialRecords: createIndexedDBRepository('financialRecords'),
+        exchangeRates: createIndexedDBRepository('exchangeRates'),
+        ledgerSettings: createIndexedDBRepository('ledgerSettings'),
+        ledgers: createIndexedDBRepository('ledgers'),
+        ledgerMembers: createIndexedDBRepository('ledgerMembers'),
+        ledgerInvitations: createIndexedDBRepository('ledgerInvitations'),
+        auditLog: createIndexedDBAuditLog(),
+        commit: commitIndexedDBWrites,
+    };
+};
+
+interface MemorySeed {
+    integrantes?: Integrante[];
+    razones?: Razon[];
+    financialRecords?: FinancialRecord[];
+    exchangeRates?: ExchangeRate[];
+    ledgerSettings?: LedgerSettings[];
+    ledgers?: Ledger[];
+    ledgerMembers?: LedgerMember[];
+    ledgerInvitations?: LedgerInvitation[];
+    auditLog?: AuditEntry[];
+}
+
+export const createMemoryRepositories = (initial: MemorySeed = {}): Repositories => {
+    const repositories: Repositories = {
+        integrantes: createMemoryRepository('integrantes', initial.integrantes),
+        razones: createMemoryRepository('razones', initial.razones),
+        financialRecords: createMemoryRepository('financialRecords', initial.financialRecords),
+        exchangeRates: createMemoryRepository('exchangeRates', initial.exchangeRates),
+        ledgerSettings: createMemoryRepository('ledgerSettings', initial.ledgerSettings),
+        ledgers: createMemoryRepository('ledgers', initial.ledgers),
+        ledgerMembers: createMemoryRepository('ledgerMembers', initial.ledgerMembers),
+        ledgerInvitations: createMemoryRepository('ledgerInvitations', initial.ledgerInvitations),
+        auditLog: createMemoryAuditLog(initial.auditLog),
+        // The stores are separate maps: every document an operation needs is checked before
+        // anything is written, so a failing write leaves all of them untouched.
+        commit: async (writes: CollectionWrite[]) => {
+            const repositoryOf = (collectionName: CollectionWrite['collectionName']) =>
+                repositories[collectionName] as unknown as Repository<BaseEntity>;
+            for (const { collectionName, operations } of writes) {
+                for (const op of operations) {
+                    if ((op.type === 'update' || op.type === 'softDelete' || op.type === 'restore') && !(await repositoryOf(collectionName).get(op.id))) {
+                        throw new Error(`No se encontró el documento ${op.id} en ${collectionName}.`);
+                    }
+                }
+            }
+            for (const { collectionName, operations } of writes) {
+                await repositoryOf(collectionName).batch(operations);
+            }
+        },
+    };
+    return repositories;
+};
+
+let repositories: Repositories | null = null;
+
+export const getRepositories = (): Repositories => {
+    if (!repositories) repositories = createDefaultRepositories();
+    return repositories;
+};
+
+// Swaps the backend used by the data layer, e.g. the in-memory adapters in tests or demos.
+export const setRepositories = (next: Repositories) => {
+    repositories = next;
+};
+
+// Firestore reads at most this many documents per request when a whole window is needed.
+const FULL_SCAN_PAGE_SIZE = 500;
+
+// Reads every document in the window, page by page.
+export const readAllPages = async <T extends BaseEntity>(repository: Repository<T>, window: WindowQuery) => {
+    const items: T[] = [];
+    let after: T | null = null;
+    for (;;) {
+        const page = await repository.page(window, { size: FULL_SCAN_PAGE_SIZE, after });
+        items.push(...page.items);
+        if (!page.hasMore || page.items.length === 0) return items;
+        after = page.items[page.items.length - 1];
+    }
+};
@@ -0,0 +1,111 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AuditEntry, BaseEntity } from '@/types';
+import { addLocal, getAllLocal, getLocal, updateLocal, commitLocalBatch, commitLocalWrites, subscribeLocal, type LocalBatchOperation } from '../local-db';
+import { UpdateConflictError, type AuditLogRepository, type BatchOperation, type CollectionWrite, type Repository } from './types';
+import { aggregateOf, applyWindow, pageOf } from './window';
+
+const adoptLegacyLocal = async (collectionName: string, userId: string, ledgerId: string) => {
+    const legacy = (await getAllLocal(collectionName, { userId })).filter(doc => !doc.ledgerId);
+    if (legacy.length > 0) {
+        await commitLocalBatch(collectionName, legacy.map(doc => ({ type: 'update', id: doc.id, data: { ledgerId } })));
+    }
+    return legacy.length;
+};
+
+// Translates repository operations into local ones and collects the id each one touches.
+const toLocalOperations = <T extends BaseEntity>(operations: BatchOperation<T>[]) => {
+    const now = Date.now();
+    const ids: string[] = [];
+    const localOperations: LocalBatchOperation[] = operations.map(op => {
+        if (op.type === 'add') {
+            const id = op.id ?? uuidv4();
+            ids.push(id);
+            return { type: 'set', data: { ...op.data, id, ledgerId: op.owner.ledgerId, userId: op.owner.userId, createdAt: now, updatedAt: now, isDeleted: false } };
+        }
+        if (op.type === 'put') {
+            ids.push(op.item.id);
+            return { type: 'set', data: op.item };
+        }
+        ids.push(op.id);
+        switch (op.type) {
+            case 'update':
+                return { type: 'update', id: op.id, data: { ...op.data, updatedAt: now } };
+            case 'softDelete':
+                return { type: 'update', id: op.id, data: { isDeleted: true, deletedAt: now, updatedAt: now } };
+            case 'restore':
+                return { type: 'update', id: op.id, data: { isDeleted: false, deletedAt: undefined, updatedAt: now } };
+            case 'purge':
+                return { type: 'delete', id: op.id };
+        }
+    });
+    return { ids, localOperations };
+};
+
+export const commitIndexedDBWrites = (writes: CollectionWrite[]) =>
+    commitLocalWrites(writes.map(({ collectionName, operations }) => ({
+        collectionName,
+        operations: toLocalOperations(operations as BatchOperation<BaseEntity>[]).localOperations,
+    })));
+
+export const createIndexedDBRepository = <T extends BaseEntity>(collectionName: string): Repository<T> => {
+    const update: Repository<T>['update'] = (id, data, expectedUpdatedAt) =>
+        updateLocal(collectionName, id, { ...data, updatedAt: Date.now() }, current =>
+            expectedUpdatedAt !== undefined && current.updatedAt !== expectedUpdatedAt ? new UpdateConflictError(current as T) : null);
+
+    const repository: Repository<T> = {
+        collectionName,
+
+        subscribe: (filters, onChange, onError) =>
+            subscribeLocal(collectionName, filters, (docs) => onChange(docs as T[]), onError),
+
+        subscribeWindow: (window, limit, onChange, onError) =>
+            subscribeLocal(collectionName, window.filters, (docs) => {
+                const selected = applyWindow(docs as T[], window);
+                onChange(limit === null ? selected : selected.slice(0, limit));
+            }, onError),
+
+        page: async (window, request) => pageOf((await getAllLocal(collectionName, window.filters)) as T[], window, request),
+
+        aggregate: async (window, sumField) => aggregateOf((await getAllLocal(collectionName, window.filters)) as T[], window, sumField),
+
+        get: async (id) => (await getLocal(collectionName, id)) as T | null,
+
+        add: (data, { ledgerId, userId }) => {
+            const now = Date.now();
+            return addLocal(collectionName, { ...data, ledgerId, userId, createdAt: now, updatedAt: now, isDeleted: false });
+        },
+
+        update,
+
+        softDelete: async (id) => { await repository.batch([{ type: 'softDelete', id }]); },
+
+        restore: async (id) => { await repository.batch([{ type: 'restore', id }]); },
+
+        purge: async (ids) => { await repository.batch(ids.map(id => ({ type: 'purge', id }))); },
+
+        batch: async (operations) => {
+            const { ids, localOperations } = toLocalOperations(operations);
+            await commitLocalBatch(collectionName, localOperations);
+            return ids;
+        },
+
+        adoptLegacy: (userId, ledgerId) => adoptLegacyLocal(collectionName, userId, ledgerId),
+    };
+
+    return repository;
+};
+
+export const createIndexedDBAuditLog = (): AuditLogRepository => ({
+    append: async (entries) => {
+        const now = Date.now();
+        await commitLocalBatch('auditLog', entries.map(entry => ({ type: 'set', data: { ...entry, createdAt: now } })));
+    },
+
+    subscribe: ({ ledgerId, entityId }, onChange, onError) =>
+        subscribeLocal('auditLog', { ledgerId, entityId }, (docs) => {
+            const entries = docs as AuditEntry[];
+            onChange(entries.sort((a, b) => (b.createdAt as number) - (a.createdAt as number)));
+        }, onError),
+
+    adoptLegacy: (userId, ledgerId) => adoptLegacyLocal('auditLog', userId, ledgerId),
+});
@@ -0,0 +1,153 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AuditEntry, BaseEntity } from '@/types';
+import { toMillis } from '../utils';
+import { UpdateConflictError, type AuditLogRepository, type BatchOperation, type Repository } from './types';
+import { aggregateOf, applyWindow, matchesFilters, pageOf } from './window';
+
+// Keeps documents in a plain Map. Useful for tests, demos and previews that must not
+// touch Firebase or the browser's storage. Data is lost when the page is closed.
+export const createMemoryRepository = <T extends BaseEntity>(collectionName: string, initialItems: T[] = []): Repository<T> => {
+    const items = new Map<string, T>(initialItems.map(item => [item.id, item]));
+    const listeners = new Set<() => void>();
+
+    const notify = () => listeners.forEach(listener => listener());
+
+    const patch = (id: string, changes: Partial<T>) => {
+        const existing = items.get(id);
+        if (!existing) throw new Error(`No se encontró el documento ${id} en ${collectionName}.`);
+        const next = { ...existing, ...changes };
+        // Mirror Firestore's deleteField(): undefined values remove the field.
+        (Object.keys(changes) as (keyof T)[]).forEach(key => {
+            if (changes[key] === undefined) delete next[key];
+        });
+        items.set(id, next);
+    };
+
+    const apply = (op: BatchOperation<T>, now: number) => {
+        switch (op.type) {
+            case 'add': {
+                const id = op.id ?? uuidv4();
+                items.set(id, { ...op.data, id, ledgerId: op.owner.ledgerId, userId: op.owner.userId, createdAt: now, updatedAt: now, isDeleted: false } as T);
+                return id;
+            }
+            case 'put':
+                items.set(op.item.id, { ...op.item });
+                return op.item.id;
+            case 'update':
+                patch(op.id, { ...op.data, updatedAt: now } as Partial<T>);
+                return op.id;
+            case 'softDelete':
+                patch(op.id, { isDeleted: true, deletedAt: now, updatedAt: now } as Partial<T>);
+                return op.id;
+            case 'restore':
+                patch(op.id, { isDeleted: false, deletedAt: undefined, updatedAt: now } as Partial<T>);
+                return op.id;
+            case 'purge':
+                items.delete(op.id);
+                return op.id;
+        }
+    };
+
+    const run = async (operations: BatchOperation<T>[]) => {
+        // Validate everything first so a failing operation leaves the store untouched.
+        const missing = operations.find(op => op.type !== 'add' && op.type !== 'put' && op.type !== 'purge' && !items.has(op.id));
+        if (missing && missing.type !== 'add' && missing.type !== 'put') {
+            throw new Error(`No se encontró el documento ${missing.id} en ${collectionName}.`);
+        }
+        const now = Date.now();
+        const ids = operations.map(op => apply(op, now));
+        notify();
+        return ids;
+    };
+
+    return {
+        collectionName,
+
+        subscribe: (filters, onChange) => {
+            const listener = () => onChange(Array.from(items.values()).filter(item => matchesFilters(item, filters)));
+            listeners.add(listener);
+            listener();
+            return () => { listeners.delete(listener); };
+        },
+
+        subscribeWindow: (window, limit, onChange) => {
+            const listener = () => {
+                const selected = applyWindow(Array.from(items.values()), window);
+                onChange(limit === null ? selected : selected.slice(0, limit));
+            };
+            listeners.add(listener);
+            listener();
+            return () => { listeners.delete(listener); };
+        },
+
+        page: async (window, request) => pageOf(Array.from(items.values()), window, request),
+
+        aggregate: async (window, sumField) => aggregateOf(Array.from(items.values()), window, sumField),
+
+        get: async (id) => items.get(id) ?? null,
+
+        add: async (data, owner) => {
+            const [id] = await run([{ type: 'add', data, owner }]);
+            return id;
+        },
+
+        update: async (id, data, expectedUpdatedAt) => {
+            const current = items.get(id);
+            if (current && expectedUpdatedAt !== undefined && toMillis(current.updatedAt) !== expectedUpdatedAt) {
+                throw new UpdateConflictError(current);
+            }
+            await run([{ type: 'update', id, data }]);
+        },
+
+        softDelete: async (id) => { await run([{ type: 'softDelete', id }]); },
+
+        restore: async (id) => { await run([{ type: 'restore', id }]); },
+
+        purge: async (ids) => { await run(ids.map(id => ({ type: 'purge', id }))); },
+
+        batch: (operations) => run(operations),
+
+        adoptLegacy: async (userId, ledgerId) => {
+            const legacy = Array.from(items.values()).filter(item => item.userId === userId && !item.ledgerId);
+            legacy.forEach(item => items.set(item.id, { ...item, ledgerId }));
+            if (legacy.length > 0) notify();
+            return legacy.length;
+        },
+    };
+};
+
+export const createMemoryAuditLog = (initialEntries: AuditEntry[] = []): AuditLogRepository => {
+    const entries = [...initialEntries];
+    const listeners = new Set<() => void>();
+
+    return {
+        append: async (newEntries) => {
+            const now = Date.now();
+            newEntries.forEach(entry => entries.push({ ...entry, id: uuidv4(), createdAt: now }));
+            listeners.forEach(listener => listener());
+        },
+
+        subscribe: (filters, onChange) => {
+            const listener = () => onChange(
+                entries
+                    .filter(entry => matchesFilters(entry, { ...filters }))
+                    .sort((a, b) => (b.createdAt as number) - (a.createdAt as number))
+            );
+            listeners.add(listener);
+            listener();
+            return () => { listeners.delete(listener); };
+        },
+
+        adoptLegacy: async (userId, ledgerId) => {
+            let adopted = 0;
+            entries.forEach((entry, index) => {
+                if (entry.userId === userId && !entry.ledgerId) {
+                    entries[index] = { ...entry, ledgerId };
+                    adopted++;
+                }
+            });
+            if (adopted > 0) listeners.forEach(listener => listener());
+            return adopted;
+        },
+    };
+};
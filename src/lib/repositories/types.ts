@@ -0,0 +1,134 @@
+import type { AuditEntry, BaseEntity, ExchangeRate, FinancialRecord, Integrante, Ledger, LedgerInvitation, LedgerMember, LedgerSettings, Razon } from '@/types';
+
+export type Unsubscribe = () => void;
+
+// Fields managed by the repository itself; callers never provide them.
+export type EntityInput<T extends BaseEntity> = Omit<T, 'id' | 'ledgerId' | 'userId' | 'createdAt' | 'updatedAt' | 'isDeleted' | 'deletedAt'>;
+export type EntityUpdate<T extends BaseEntity> = Partial<Omit<T, 'id' | 'ledgerId' | 'userId' | 'createdAt' | 'updatedAt'>>;
+
+// Equality filters on top-level fields, e.g. { ledgerId } or { ledgerId, isDeleted: false }.
+export type RepositoryQuery = Record<string, string | boolean>;
+
+// Inclusive bounds on an ISO 'yyyy-MM-dd' field; either side may be open.
+export interface DateRange {
+    from?: string;
+    to?: string;
+}
+
+// A slice of a collection filtered on the server and ordered by a date field,
+// then by creation time and id so that pages never overlap.
+export interface WindowQuery {
+    filters: RepositoryQuery;
+    dateField: string;
+    range?: DateRange;
+    order?: 'asc' | 'desc'; // Newest first by default
+}
+
+export interface PageRequest<T> {
+    size: number;
+    // Last item of the previous page; omitted for the first page.
+    after?: T | null;
+}
+
+export interface Page<T> {
+    items: T[];
+    hasMore: boolean;
+}
+
+export interface Aggregate {
+    count: number;
+    total: number;
+}
+
+// Who a new document belongs to: the ledger that owns it and the user creating it.
+export interface EntityOwner {
+    ledgerId: string;
+    userId: string;
+}
+
+export type BatchOperation<T extends BaseEntity> =
+    // `id` is only given for documents whose id is derived from their content (e.g. memberships).
+    | { type: 'add'; data: EntityInput<T>; owner: EntityOwner; id?: string }
+    // Writes the whole document as given, dates and trash state included. Used to restore backups.
+    | { type: 'put'; item: T }
+    | { type: 'update'; id: string; data: EntityUpdate<T> }
+    | { type: 'softDelete'; id: string }
+    | { type: 'restore'; id: string }
+    | { type: 'purge'; id: string };
+
+export interface Repository<T extends BaseEntity> {
+    readonly collectionName: string;
+    // Emits every matching document (soft-deleted ones included) now and on every change.
+    subscribe(query: RepositoryQuery, onChange: (items: T[]) => void, onError: (error: Error) => void): Unsubscribe;
+    // Like `subscribe`, but only for the documents in the window, at most `limit` of them.
+    subscribeWindow(window: WindowQuery, limit: number | null, onChange: (items: T[]) => void, onError: (error: Error) => void): Unsubscribe;
+    // One page of the window, starting after `request.after`.
+    page(window: WindowQuery, request: PageRequest<T>): Promise<Page<T>>;
+    // Counts the documents in the window and adds up a numeric field, without downloading them.
+    aggregate(window: WindowQuery, sumField: string): Promise<Aggregate>;
+    get(id: string): Promise<T | null>;
+    add(data: EntityInput<T>, owner: EntityOwner): Promise<string>;
+    // With `expectedUpdatedAt` (milliseconds) the update only applies if nobody changed the
+    // document since it was read; otherwise it rejects with an UpdateConflictError.
+    update(id: string, data: EntityUpdate<T>, expectedUpdatedAt?: number): Promise<void>;
+    // Moves the document to the trash; it can be brought back with `restore`.
+    softDelete(id: string): Promise<void>;
+    restore(id: string): Promise<void>;
+    // Permanently removes the documents. This cannot be undone.
+    purge(ids: string[]): Promise<void>;
+    // Applies all operations atomically and resolves with the id each operation touched.
+    batch(operations: BatchOperation<T>[]): Promise<string[]>;
+    // Assigns documents created by `userId` before ledgers existed (no ledgerId) to `ledgerId`.
+    adoptLegacy(userId: string, ledgerId: string): Promise<number>;
+}
+
+// Thrown by a conditional update when the document changed after the caller read it.
+export class UpdateConflictError<T extends BaseEntity = BaseEntity> extends Error {
+    constructor(readonly current: T) {
+        super("Otra persona modificó este elemento mientras lo editabas.");
+        this.name = 'UpdateConflictError';
+    }
+}
+
+export type AuditEntryInput = Omit<AuditEntry, 'id' | 'createdAt'>;
+
+export interface AuditLogQuery {
+    ledgerId: string;
+    entityId: string;
+}
+
+// The audit trail is append-only: entries are never updated or deleted from the app.
+export interface AuditLogRepository {
+    append(entries: AuditEntryInput[]): Promise<void>;
+    // Emits the entity's history, newest first.
+    subscribe(query: AuditLogQuery, onChange: (entries: AuditEntry[]) => void, onError: (error: Error) => void): Unsubscribe;
+    adoptLegacy(userId: string, ledgerId: string): Promise<number>;
+}
+
+// Operations on one collection, part of a write that spans several of them.
+// Operations on one collection, typed by the entity that collection stores.
+export type CollectionWrite = {
+    [K in CollectionName]: {
+        collectionName: K;
+        operations: Repositories[K] extends Repository<infer T> ? BatchOperation<T>[] : never;
+    };
+}[CollectionName];
+
+export interface Repositories {
+    integrantes: Repository<Integrante>;
+    razones: Repository<Razon>;
+    financialRecords: Repository<FinancialRecord>;
+    exchangeRates: Repository<ExchangeRate>;
+    ledgerSettings: Repository<LedgerSettings>;
+    ledgers: Repository<Ledger>;
+    ledgerMembers: Repository<LedgerMember>;
+    ledgerInvitations: Repository<LedgerInvitation>;
+    auditLog: AuditLogRepository;
+    // Applies the operations on every collection atomically, like `batch` does for one.
+    commit(writes: CollectionWrite[]): Promise<void>;
+}
+
+// Collections whose items go to the trash when deleted.
+export type TrashCollectionName = 'integrantes' | 'razones' | 'financialRecords';
+export type LedgerCollectionName = 'ledgers' | 'ledgerMembers' | 'ledgerInvitations';
+export type CollectionName = TrashCollectionName | LedgerCollectionName | 'exchangeRates' | 'ledgerSettings';
@@ -0,0 +1,51 @@
+import type { BaseEntity } from '@/types';
+import { toMillis } from '../utils';
+import type { Aggregate, Page, PageRequest, RepositoryQuery, WindowQuery } from './types';
+
+// In-memory equivalents of the Firestore window queries, shared by the local adapters.
+
+export const matchesFilters = (item: Record<string, any>, filters: RepositoryQuery) =>
+    Object.entries(filters).every(([field, value]) => item[field] === value);
+
+// Reads a field named at runtime, such as a window's dateField.
+export const fieldOf = (item: BaseEntity, field: string): unknown => (item as unknown as Record<string, unknown>)[field];
+
+const compareAscending = <T extends BaseEntity>(dateField: string) => (a: T, b: T) => {
+    const byDate = String(fieldOf(a, dateField) ?? '').localeCompare(String(fieldOf(b, dateField) ?? ''));
+    if (byDate !== 0) return byDate;
+    const byCreation = toMillis(a.createdAt) - toMillis(b.createdAt);
+    if (byCreation !== 0) return byCreation;
+    return a.id.localeCompare(b.id);
+};
+
+const inRange = (value: unknown, { range }: WindowQuery) =>
+    typeof value === 'string' && (!range?.from || value >= range.from) && (!range?.to || value <= range.to);
+
+// Filters and sorts candidates that already match the window's equality filters.
+export const applyWindow = <T extends BaseEntity>(items: T[], window: WindowQuery): T[] => {
+    const compare = compareAscending<T>(window.dateField);
+    const sorted = items
+        .filter(item => matchesFilters(item, window.filters) && (!window.range || inRange(fieldOf(item, window.dateField), window)))
+        .sort(compare);
+    return window.order === 'asc' ? sorted : sorted.reverse();
+};
+
+export const pageOf = <T extends BaseEntity>(items: T[], window: WindowQuery, { size, after }: PageRequest<T>): Page<T> => {
+    const ordered = applyWindow(items, window);
+    let start = 0;
+    if (after) {
+        const compare = compareAscending<T>(window.dateField);
+        const direction = window.order === 'asc' ? 1 : -1;
+        const index = ordered.findIndex(item => compare(item, after) * direction > 0);
+        start = index === -1 ? ordered.length : index;
+    }
+    return { items: ordered.slice(start, start + size), hasMore: start + size < ordered.length };
+};
+
+export const aggregateOf = <T extends BaseEntity>(items: T[], window: WindowQuery, sumField: string): Aggregate => {
+    const selected = applyWindow(items, window);
+    return {
+        count: selected.length,
+        total: selected.reduce((total, item) => total + (Number(fieldOf(item, sumField)) || 0), 0),
+    };
+};
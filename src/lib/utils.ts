@@ -5,31 +5,12 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export const parseCsvLine = (line: string): string[] => {
-    const result: string[] = [];
-    let currentField = '';
-    let inQuotes = false;
-    let i = 0;
-
-    while (i < line.length) {
-        const char = line[i];
-
-        if (char === '"') {
-            if (inQuotes && i + 1 < line.length && line[i + 1] === '"') {
-                // Escaped quote
-                currentField += '"';
-                i++;
-            } else {
-                inQuotes = !inQuotes;
-            }
-        } else if (char === ',' && !inQuotes) {
-            result.push(currentField);
-            currentField = '';
-        } else {
-            currentField += char;
-        }
-        i++;
-    }
-    result.push(currentField);
-    return result;
+// Entity timestamps are Firestore Timestamps online and epoch millis in offline mode.
+export const toMillis = (value: { toMillis: () => number } | number | null | undefined): number => {
+    if (typeof value === 'number') return value;
+    return value ? value.toMillis() : 0;
 };
+
+// Key for comparing names typed by people: ignores case, accents and repeated spaces.
+export const normalizeName = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().replace(/\s+/g, ' ').toLowerCase();
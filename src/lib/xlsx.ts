@@ -0,0 +1,105 @@
+import type { CellValue, Workbook } from 'exceljs';
+import { parseRecordDate } from './dates';
+import { saveFile, type SaveOptions } from './files';
+import type { CsvTable } from './import-preview';
+import { fromCents } from './money';
+
+// Excel workbooks for the same imports and exports as CSV. Cells are typed, so dates and
+// amounts stay dates and numbers in the spreadsheet. The library is loaded only when used.
+
+export type XlsxValue =
+    | string
+    | number
+    | boolean
+    | null
+    | undefined
+    // A record date ('yyyy-MM-dd'), written as a date cell.
+    | { fecha: string }
+    // An amount in cents, written as a number in the currency's format.
+    | { cents: number; currency: string };
+
+export interface XlsxSheet {
+    name: string;
+    headers: string[];
+    rows: XlsxValue[][];
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const DATE_FORMAT = 'dd/mm/yyyy';
+
+const loadWorkbook = async (): Promise<Workbook> => {
+    const ExcelJS = (await import('exceljs')).default;
+    return new ExcelJS.Workbook();
+};
+
+// Dates are built in UTC so the calendar day does not shift with the browser's time zone.
+const toUtcDate = (fecha: string) => {
+    const date = parseRecordDate(fecha);
+    return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+};
+
+const writeCell = (value: XlsxValue): { value: CellValue; numFmt?: string } => {
+    if (value !== null && typeof value === 'object' && 'fecha' in value) {
+        return { value: toUtcDate(value.fecha), numFmt: DATE_FORMAT };
+    }
+    if (value !== null && typeof value === 'object') {
+        return { value: fromCents(value.cents), numFmt: `#,##0.00 "${value.currency}";-#,##0.00 "${value.currency}"` };
+    }
+    return { value: value ?? null };
+};
+
+export const downloadXlsx = async (filename: string, sheets: XlsxSheet[], options: SaveOptions = {}) => {
+    const workbook = await loadWorkbook();
+    sheets.forEach(sheet => {
+        const worksheet = workbook.addWorksheet(sheet.name);
+        worksheet.addRow(sheet.headers).font = { bold: true };
+        sheet.rows.forEach(row => {
+            const added = worksheet.addRow([]);
+            row.forEach((value, index) => {
+                const cell = added.getCell(index + 1);
+                const { value: cellValue, numFmt } = writeCell(value);
+                cell.value = cellValue;
+                if (numFmt) cell.numFmt = numFmt;
+            });
+        });
+        worksheet.columns.forEach((column, index) => {
+            column.width = Math.max(12, (sheet.headers[index]?.length ?? 0) + 2);
+        });
+    });
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    await saveFile(filename, new Blob([buffer], { type: XLSX_MIME_TYPE }), options);
+};
+
+// Text of a cell as the CSV importer would see it. Dates become 'yyyy-MM-dd', which every
+// date check in the app accepts.
+const readCell = (value: CellValue): string => {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    if (typeof value !== 'object') return String(value);
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('hyperlink' in value) return value.text;
+    if ('result' in value) return readCell(value.result ?? null);
+    return '';
+};
+
+// Reads the first worksheet, taking its first row as the header.
+export const readXlsxTable = async (data: ArrayBuffer): Promise<CsvTable> => {
+    const workbook = await loadWorkbook();
+    // The typings only mention Node buffers, but the browser build reads ArrayBuffers.
+    await workbook.xlsx.load(data as unknown as Parameters<Workbook['xlsx']['load']>[0]);
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) throw new Error('El libro de Excel no tiene hojas.');
+
+    const records: { line: number; fields: string[] }[] = [];
+    worksheet.eachRow((row, rowNumber) => {
+        const fields: string[] = [];
+        for (let column = 1; column <= row.cellCount; column++) fields.push(readCell(row.getCell(column).value).trim());
+        if (fields.some(Boolean)) records.push({ line: rowNumber, fields });
+    });
+    const [header, ...rows] = records;
+    if (!header || rows.length === 0) {
+        throw new Error('La hoja está vacía o solo contiene la cabecera.');
+    }
+    return { headers: header.fields, rows };
+};
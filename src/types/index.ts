@@ -3,12 +3,14 @@ import { Timestamp } from 'firebase/firestore';
 
 export type Movimiento = 'INGRESOS' | 'GASTOS' | 'INVERSION';
 
-interface BaseEntity {
+export interface BaseEntity {
   id: string;
-  userId: string;
+  ledgerId: string; // Ledger that owns the document
+  userId: string; // User who created the document
   createdAt: Timestamp | number; // Support both server and client timestamps
   updatedAt: Timestamp | number; // Support both server and client timestamps
   isDeleted?: boolean;
+  deletedAt?: Timestamp | number; // Set when the entity is moved to the trash
 }
 
 export interface Razon extends BaseEntity {
@@ -23,12 +25,71 @@ export interface Integrante extends BaseEntity {
 }
 
 export interface FinancialRecord extends BaseEntity {
-  fecha: string; // 'dd/MM/yyyy'
+  fecha: string; // ISO 'yyyy-MM-dd'
   integranteId: string;
   razonId: string;
   movimiento: Movimiento;
-  monto: number;
+  monto: number; // integer cents, signed by movimiento (see lib/money)
   descripcion: string;
+  moneda: string; // ISO 4217 code, e.g. 'MXN'
+  schemaVersion?: number; // see CURRENT_RECORD_SCHEMA_VERSION in lib/migrations
+}
+
+export interface ExchangeRate extends BaseEntity {
+  fecha: string; // ISO 'yyyy-MM-dd', the rate applies from this day on
+  moneda: string; // Currency being converted, e.g. 'USD'
+  monedaBase: string; // Currency it converts into
+  tasa: number; // Units of monedaBase per 1 unit of moneda
+}
+
+export interface LedgerSettings extends BaseEntity {
+  baseCurrency: string; // Totals are converted to and shown in this currency
+}
+
+export type LedgerRole = 'owner' | 'treasurer' | 'editor' | 'viewer';
+
+// A shared set of books. Its ledgerId is its own id; a user's personal ledger uses their uid.
+export interface Ledger extends BaseEntity {
+  nombre: string;
+}
+
+// Document id is `${ledgerId}_${memberId}` so access checks can look it up directly.
+export interface LedgerMember extends BaseEntity {
+  memberId: string; // uid of the member
+  email: string | null;
+  role: LedgerRole;
+  ledgerNombre: string; // Copied from the ledger so the switcher needs no extra reads
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+export interface LedgerInvitation extends BaseEntity {
+  email: string; // Lowercased address of the invitee
+  role: LedgerRole;
+  ledgerNombre: string;
+  status: InvitationStatus;
+  invitedByEmail: string | null;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'import';
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  ledgerId: string;
+  userId: string; // Same as actorId; kept so every document has an author
+  collectionName: string;
+  entityId: string;
+  action: AuditAction;
+  changes: AuditChange[];
+  actorId: string;
+  actorEmail: string | null;
+  createdAt: Timestamp | number;
 }
 
 export interface Cita {
@@ -0,0 +1,324 @@
+import { readFileSync } from 'node:fs';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import {
+    assertFails,
+    assertSucceeds,
+    initializeTestEnvironment,
+    type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { deleteDoc, doc, getDoc, setDoc, Timestamp, updateDoc, writeBatch, type Firestore } from 'firebase/firestore';
+
+// Run with `npm run test:rules`: it starts the Firestore emulator and runs this file against firestore.rules.
+
+const LEDGER_ID = 'ledger-1';
+const LEDGER_NOMBRE = 'Casa';
+
+type Role = 'owner' | 'treasurer' | 'editor' | 'viewer';
+
+const MEMBERS: Record<string, Role> = {
+    owner: 'owner',
+    treasurer: 'treasurer',
+    editor: 'editor',
+    viewer: 'viewer',
+};
+
+let testEnv: RulesTestEnvironment;
+
+const membershipId = (uid: string) => `${LEDGER_ID}_${uid}`;
+const invitationId = (email: string) => `${LEDGER_ID}_${email}`;
+
+const entity = (userId: string) => {
+    const now = Timestamp.now();
+    return { ledgerId: LEDGER_ID, userId, createdAt: now, updatedAt: now, isDeleted: false };
+};
+
+const record = (userId: string, fields: Record<string, unknown> = {}) => ({
+    ...entity(userId),
+    fecha: '2024-05-01',
+    integranteId: 'integrante-1',
+    razonId: 'razon-1',
+    movimiento: 'GASTOS',
+    monto: -1250,
+    descripcion: 'Súper',
+    moneda: 'MXN',
+    schemaVersion: 3,
+    ...fields,
+});
+
+const member = (uid: string, role: Role, email: string | null = `${uid}@example.com`) => ({
+    ...entity(uid),
+    memberId: uid,
+    email,
+    role,
+    ledgerNombre: LEDGER_NOMBRE,
+});
+
+const invitation = (email: string, role: Role, status = 'pending') => ({
+    ...entity('owner'),
+    email,
+    role,
+    ledgerNombre: LEDGER_NOMBRE,
+    status,
+    invitedByEmail: 'owner@example.com',
+});
+
+const auditEntry = (userId: string, fields: Record<string, unknown> = {}) => ({
+    ledgerId: LEDGER_ID,
+    userId,
+    collectionName: 'financialRecords',
+    entityId: 'record-1',
+    action: 'update',
+    changes: [],
+    actorId: userId,
+    actorEmail: `${userId}@example.com`,
+    createdAt: Timestamp.now(),
+    ...fields,
+});
+
+// The compat instance the emulator hands out works with the modular functions.
+const dbAs = (uid: string, claims: { email?: string; email_verified?: boolean } = { email: `${uid}@example.com`, email_verified: true }) =>
+    testEnv.authenticatedContext(uid, claims).firestore() as unknown as Firestore;
+
+const seed = (write: (db: Firestore) => Promise<unknown>) =>
+    testEnv.withSecurityRulesDisabled(context => write(context.firestore() as unknown as Firestore).then(() => undefined));
+
+before(async () => {
+    testEnv = await initializeTestEnvironment({
+        projectId: 'demo-lfbbc-rules',
+        firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+});
+
+after(async () => {
+    await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+    await seed(async db => {
+        await setDoc(doc(db, 'ledgers', LEDGER_ID), { ...entity('owner'), nombre: LEDGER_NOMBRE });
+        for (const [uid, role] of Object.entries(MEMBERS)) {
+            await setDoc(doc(db, 'ledgerMembers', membershipId(uid)), member(uid, role));
+        }
+        await setDoc(doc(db, 'financialRecords', 'record-1'), record('editor'));
+    });
+});
+
+afterEach(async () => {
+    await testEnv.clearFirestore();
+});
+
+describe('membership roles', () => {
+    it('lets members read the ledger records and keeps everyone else out', async () => {
+        await assertSucceeds(getDoc(doc(dbAs('viewer'), 'financialRecords', 'record-1')));
+        await assertFails(getDoc(doc(dbAs('stranger'), 'financialRecords', 'record-1')));
+        await assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore() as unknown as Firestore, 'financialRecords', 'record-1')));
+    });
+
+    it('lets former members read only the legacy documents they wrote', async () => {
+        await seed(async db => {
+            await setDoc(doc(db, 'ledgerMembers', 'former_former'), { ...member('former', 'owner'), ledgerId: 'former' });
+            await setDoc(doc(db, 'financialRecords', 'record-2'), record('former'));
+            const { ledgerId, ...legacy } = record('former');
+            await setDoc(doc(db, 'financialRecords', 'record-3'), legacy);
+        });
+        await assertFails(getDoc(doc(dbAs('former'), 'financialRecords', 'record-2')));
+        await assertSucceeds(getDoc(doc(dbAs('former'), 'financialRecords', 'record-3')));
+    });
+
+    it('lets editors write records but not viewers', async () => {
+        await assertSucceeds(setDoc(doc(dbAs('editor'), 'financialRecords', 'record-2'), record('editor')));
+        await assertFails(setDoc(doc(dbAs('viewer'), 'financialRecords', 'record-3'), record('viewer')));
+        await assertFails(updateDoc(doc(dbAs('viewer'), 'financialRecords', 'record-1'), { monto: -10, updatedAt: Timestamp.now() }));
+    });
+
+    it('lets only treasurers and owners purge', async () => {
+        await assertFails(deleteDoc(doc(dbAs('editor'), 'financialRecords', 'record-1')));
+        await assertSucceeds(deleteDoc(doc(dbAs('treasurer'), 'financialRecords', 'record-1')));
+    });
+
+    it('lets managers change roles, but never their own and only owners hand out ownership', async () => {
+        await assertSucceeds(updateDoc(doc(dbAs('treasurer'), 'ledgerMembers', membershipId('editor')), { role: 'viewer', updatedAt: Timestamp.now() }));
+        await assertFails(updateDoc(doc(dbAs('treasurer'), 'ledgerMembers', membershipId('viewer')), { role: 'owner', updatedAt: Timestamp.now() }));
+        await assertSucceeds(updateDoc(doc(dbAs('owner'), 'ledgerMembers', membershipId('viewer')), { role: 'owner', updatedAt: Timestamp.now() }));
+        await assertFails(updateDoc(doc(dbAs('treasurer'), 'ledgerMembers', membershipId('treasurer')), { role: 'owner', updatedAt: Timestamp.now() }));
+        await assertFails(updateDoc(doc(dbAs('editor'), 'ledgerMembers', membershipId('viewer')), { role: 'editor', updatedAt: Timestamp.now() }));
+    });
+
+    it('lets members leave, except the owner', async () => {
+        await assertSucceeds(deleteDoc(doc(dbAs('viewer'), 'ledgerMembers', membershipId('viewer'))));
+        await assertFails(deleteDoc(doc(dbAs('owner'), 'ledgerMembers', membershipId('owner'))));
+    });
+});
+
+describe('creating a ledger', () => {
+    const create = (uid: string, ledgerId: string) => {
+        const db = dbAs(uid);
+        const batch = writeBatch(db);
+        batch.set(doc(db, 'ledgers', ledgerId), { ...entity(uid), ledgerId, nombre: 'Nuevo' });
+        batch.set(doc(db, 'ledgerMembers', `${ledgerId}_${uid}`), { ...member(uid, 'owner'), ledgerId });
+        return batch.commit();
+    };
+
+    it('makes the creator owner of a personal or randomly named ledger', async () => {
+        await assertSucceeds(create('stranger', 'stranger'));
+        await assertSucceeds(create('editor', '0b8f2c4e-6a1d-4f3b-9c7e-2d5a8e1f4b6c'));
+    });
+
+    it('rejects taking the id of someone else\'s personal ledger', async () => {
+        await assertFails(create('stranger', 'newcomer'));
+        await assertFails(create('stranger', 'my-ledger'));
+    });
+
+    it('only makes someone owner in the write that creates the ledger', async () => {
+        await seed(db => deleteDoc(doc(db, 'ledgerMembers', membershipId('owner'))));
+        await assertFails(setDoc(doc(dbAs('owner'), 'ledgerMembers', membershipId('owner')), member('owner', 'owner')));
+    });
+});
+
+describe('joining through an invitation', () => {
+    const email = 'invitee@example.com';
+
+    // Accepting writes the membership and the invitation status in one batch, as the app does.
+    const join = (role: Role, claims: { email?: string; email_verified?: boolean } = { email, email_verified: true }) => {
+        const db = dbAs('invitee', claims);
+        const batch = writeBatch(db);
+        batch.set(doc(db, 'ledgerMembers', membershipId('invitee')), member('invitee', role, email));
+        batch.update(doc(db, 'ledgerInvitations', invitationId(email)), { status: 'accepted', updatedAt: Timestamp.now() });
+        return batch.commit();
+    };
+
+    beforeEach(async () => {
+        await seed(db => setDoc(doc(db, 'ledgerInvitations', invitationId(email)), invitation(email, 'editor')));
+    });
+
+    it('accepts a verified invitee with the invited role', async () => {
+        await assertSucceeds(join('editor'));
+    });
+
+    it('requires accepting the invitation in the same write', async () => {
+        await assertFails(setDoc(doc(dbAs('invitee', { email, email_verified: true }), 'ledgerMembers', membershipId('invitee')), member('invitee', 'editor', email)));
+        await assertFails(updateDoc(doc(dbAs('invitee', { email, email_verified: true }), 'ledgerInvitations', invitationId(email)), { status: 'accepted', updatedAt: Timestamp.now() }));
+        await assertSucceeds(updateDoc(doc(dbAs('invitee', { email, email_verified: true }), 'ledgerInvitations', invitationId(email)), { status: 'declined', updatedAt: Timestamp.now() }));
+    });
+
+    it('rejects an invitee whose email is not verified', async () => {
+        await assertFails(join('editor', { email, email_verified: false }));
+        await assertFails(join('editor', { email }));
+    });
+
+    it('rejects a role other than the invited one', async () => {
+        await assertFails(join('treasurer'));
+    });
+
+    it('rejects anyone without a pending invitation', async () => {
+        await assertFails(setDoc(doc(dbAs('stranger'), 'ledgerMembers', membershipId('stranger')), member('stranger', 'viewer')));
+        await seed(db => updateDoc(doc(db, 'ledgerInvitations', invitationId(email)), { status: 'revoked' }));
+        await assertFails(join('editor'));
+    });
+
+    it('keeps a removed member from rejoining', async () => {
+        await assertSucceeds(join('editor'));
+        await assertSucceeds(deleteDoc(doc(dbAs('owner'), 'ledgerMembers', membershipId('invitee'))));
+        await assertFails(join('editor'));
+        await assertFails(setDoc(doc(dbAs('invitee', { email, email_verified: true }), 'ledgerMembers', membershipId('invitee')), member('invitee', 'editor', email)));
+    });
+
+    it('hides the invitation from an unverified account with that email', async () => {
+        await assertSucceeds(getDoc(doc(dbAs('invitee', { email, email_verified: true }), 'ledgerInvitations', invitationId(email))));
+        await assertFails(getDoc(doc(dbAs('invitee', { email, email_verified: false }), 'ledgerInvitations', invitationId(email))));
+    });
+});
+
+describe('financial record fields', () => {
+    const create = (fields: Record<string, unknown>) =>
+        setDoc(doc(dbAs('editor'), 'financialRecords', 'record-2'), record('editor', fields));
+
+    it('requires income to be positive and expenses and investments negative', async () => {
+        await assertSucceeds(create({ movimiento: 'INGRESOS', monto: 5000 }));
+        await assertFails(create({ movimiento: 'INGRESOS', monto: -5000 }));
+        await assertFails(create({ movimiento: 'GASTOS', monto: 5000 }));
+        await assertFails(create({ movimiento: 'INVERSION', monto: 5000 }));
+        await assertSucceeds(create({ movimiento: 'INVERSION', monto: -5000 }));
+    });
+
+    it('requires amounts in integer cents', async () => {
+        await assertFails(create({ monto: -12.5 }));
+    });
+
+    it('rejects unknown fields', async () => {
+        await assertFails(create({ notas: 'extra' }));
+    });
+
+    it('keeps a stored copy of the document id only while it matches', async () => {
+        await seed(db => updateDoc(doc(db, 'financialRecords', 'record-1'), { id: 'record-1' }));
+        await assertSucceeds(updateDoc(doc(dbAs('editor'), 'financialRecords', 'record-1'), { monto: -10, updatedAt: Timestamp.now() }));
+        await assertFails(updateDoc(doc(dbAs('editor'), 'financialRecords', 'record-1'), { id: 'other', updatedAt: Timestamp.now() }));
+    });
+
+    it('rejects a sign change that does not match the movement', async () => {
+        await assertFails(updateDoc(doc(dbAs('editor'), 'financialRecords', 'record-1'), { monto: 10, updatedAt: Timestamp.now() }));
+        await assertSucceeds(updateDoc(doc(dbAs('editor'), 'financialRecords', 'record-1'), { movimiento: 'INGRESOS', monto: 10, updatedAt: Timestamp.now() }));
+    });
+});
+
+describe('members and reasons', () => {
+    beforeEach(async () => {
+        await seed(async db => {
+            await setDoc(doc(db, 'integrantes', 'integrante-1'), { ...entity('owner'), nombre: 'GENERAL', isProtected: true });
+            await setDoc(doc(db, 'integrantes', 'integrante-2'), { ...entity('owner'), nombre: 'ANA' });
+            await setDoc(doc(db, 'razones', 'razon-1'), { ...entity('owner'), descripcion: 'SUPER', isQuickReason: true });
+        });
+    });
+
+    it('checks the field types', async () => {
+        await assertSucceeds(setDoc(doc(dbAs('editor'), 'integrantes', 'integrante-3'), { ...entity('editor'), nombre: 'LUIS' }));
+        await assertFails(setDoc(doc(dbAs('editor'), 'integrantes', 'integrante-3'), { ...entity('editor'), nombre: 5 }));
+        await assertFails(setDoc(doc(dbAs('editor'), 'integrantes', 'integrante-3'), { ...entity('editor'), nombre: '' }));
+        await assertFails(updateDoc(doc(dbAs('editor'), 'razones', 'razon-1'), { descripcion: true, updatedAt: Timestamp.now() }));
+        await assertFails(updateDoc(doc(dbAs('editor'), 'razones', 'razon-1'), { isQuickReason: 'yes', updatedAt: Timestamp.now() }));
+        await assertFails(setDoc(doc(dbAs('editor'), 'razones', 'razon-2'), { ...entity('editor'), descripcion: 'LUZ' }));
+    });
+
+    it('never changes the protection flag', async () => {
+        await assertFails(updateDoc(doc(dbAs('owner'), 'integrantes', 'integrante-1'), { isProtected: false, updatedAt: Timestamp.now() }));
+        await assertFails(updateDoc(doc(dbAs('owner'), 'integrantes', 'integrante-2'), { isProtected: true, updatedAt: Timestamp.now() }));
+        await assertSucceeds(updateDoc(doc(dbAs('editor'), 'integrantes', 'integrante-1'), { nombre: 'TODOS', updatedAt: Timestamp.now() }));
+    });
+
+    it('never trashes or purges a protected item', async () => {
+        await assertFails(updateDoc(doc(dbAs('owner'), 'integrantes', 'integrante-1'), { isDeleted: true, deletedAt: Timestamp.now(), updatedAt: Timestamp.now() }));
+        await assertFails(deleteDoc(doc(dbAs('owner'), 'integrantes', 'integrante-1')));
+        await assertSucceeds(deleteDoc(doc(dbAs('owner'), 'integrantes', 'integrante-2')));
+    });
+});
+
+describe('audit log', () => {
+    it('lets members who can write add entries as themselves', async () => {
+        await assertSucceeds(setDoc(doc(dbAs('editor'), 'auditLog', 'entry-1'), auditEntry('editor')));
+        await assertFails(setDoc(doc(dbAs('editor'), 'auditLog', 'entry-2'), auditEntry('owner')));
+        await assertFails(setDoc(doc(dbAs('editor'), 'auditLog', 'entry-3'), auditEntry('editor', { actorId: 'owner', actorEmail: 'owner@example.com' })));
+    });
+
+    it('checks the entry fields', async () => {
+        await assertFails(setDoc(doc(dbAs('editor'), 'auditLog', 'entry-1'), auditEntry('editor', { notas: 'extra' })));
+        await assertFails(setDoc(doc(dbAs('editor'), 'auditLog', 'entry-2'), auditEntry('editor', { createdAt: '2024-05-01' })));
+        await assertFails(setDoc(doc(dbAs('editor'), 'auditLog', 'entry-3'), auditEntry('editor', { action: 'rewrite' })));
+    });
+
+    it('keeps viewers and outsiders from adding history', async () => {
+        await assertFails(setDoc(doc(dbAs('viewer'), 'auditLog', 'entry-1'), auditEntry('viewer')));
+        await assertFails(setDoc(doc(dbAs('stranger'), 'auditLog', 'entry-2'), auditEntry('stranger')));
+    });
+
+    it('lets a viewer record joining the ledger, and nothing else', async () => {
+        const join = { collectionName: 'ledgerMembers', entityId: membershipId('viewer'), action: 'create' };
+        await assertSucceeds(setDoc(doc(dbAs('viewer'), 'auditLog', 'entry-1'), auditEntry('viewer', join)));
+        await assertFails(setDoc(doc(dbAs('viewer'), 'auditLog', 'entry-2'), auditEntry('viewer', { ...join, entityId: membershipId('editor') })));
+    });
+
+    it('never changes or deletes entries', async () => {
+        await seed(db => setDoc(doc(db, 'auditLog', 'entry-1'), auditEntry('editor')));
+        await assertFails(updateDoc(doc(dbAs('editor'), 'auditLog', 'entry-1'), { action: 'create' }));
+        await assertFails(deleteDoc(doc(dbAs('owner'), 'auditLog', 'entry-1')));
+    });
+});